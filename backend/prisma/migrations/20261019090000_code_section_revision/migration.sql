@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "code_sections" ADD COLUMN     "revision" INTEGER NOT NULL DEFAULT 1;
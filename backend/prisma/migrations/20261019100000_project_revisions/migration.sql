@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "RevisionTrigger" AS ENUM ('GENERATION', 'SURGICAL_EDIT', 'MANUAL_EDIT', 'RESTORE');
+
+-- CreateTable
+CREATE TABLE "project_revisions" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "author_id" TEXT,
+    "trigger" "RevisionTrigger" NOT NULL,
+    "message" TEXT,
+    "html_content" TEXT NOT NULL,
+    "restored_from" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_revisions_project_id_version_key" ON "project_revisions"("project_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "project_revisions" ADD CONSTRAINT "project_revisions_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_revisions" ADD CONSTRAINT "project_revisions_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "RevisionTrigger" ADD VALUE 'FORK';
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "parent_id" TEXT,
+ADD COLUMN     "variant_name" TEXT,
+ADD COLUMN     "forked_revision" INTEGER,
+ADD COLUMN     "forked_plan_version" INTEGER;
+
+-- AddForeignKey
+ALTER TABLE "projects" ADD CONSTRAINT "projects_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- Invites are accepted with a single-use token instead of by email address alone.
+-- Pending invites have no token to hand out, so they are dropped and must be sent again
+DELETE FROM "workspace_invites";
+
+-- AlterTable
+ALTER TABLE "workspace_invites" ADD COLUMN     "token_hash" TEXT NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workspace_invites_token_hash_key" ON "workspace_invites"("token_hash");
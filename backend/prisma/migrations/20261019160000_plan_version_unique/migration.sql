@@ -0,0 +1,15 @@
+-- Concurrent saves could give two plans of a project the same version.
+-- Renumber the projects affected, oldest first, before enforcing uniqueness
+UPDATE "generation_plans" AS "plan"
+SET "version" = "numbered"."version"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "project_id" ORDER BY "version", "created_at", "id") AS "version"
+  FROM "generation_plans"
+  WHERE "project_id" IN (
+    SELECT "project_id" FROM "generation_plans" GROUP BY "project_id", "version" HAVING COUNT(*) > 1
+  )
+) AS "numbered"
+WHERE "plan"."id" = "numbered"."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "generation_plans_project_id_version_key" ON "generation_plans"("project_id", "version");
@@ -0,0 +1,174 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockLLMService, MockLLMFixture } from '../services/mock-llm.service.js';
+import { LLMService } from '../services/llm.service.js';
+import { PlanGenerationService } from '../services/plan-generation.service.js';
+import { CodeGenerationService } from '../services/code-generation.service.js';
+import { GenerationJobService } from '../services/generation-job.service.js';
+import { RevisionService, PageSection } from '../services/revision.service.js';
+import { GenerationLogRepository } from '../repositories/generation-log.repository.js';
+import { CodeSectionRepository } from '../repositories/code-section.repository.js';
+import { defaultMockFixture } from '../fixtures/mock-llm.fixture.js';
+import { WSServer } from '../websocket/websocket-server.js';
+import { WS_EVENTS } from '../types/websocket.js';
+import { CodeSection, CreateCodeSectionInput } from '../types/database.js';
+import { LLMConfig } from '../types/llm.js';
+
+/**
+ * Runs plan and code generation end to end against the mock provider, with
+ * the database and WebSocket server replaced by in-memory fakes.
+ */
+
+const PROJECT_ID = 'project-1';
+
+const config: LLMConfig = {
+  provider: 'mock',
+  gatewayUrl: '',
+  model: 'mock',
+  temperature: 0.7,
+  maxTokens: 4000,
+};
+
+class InMemoryCodeSections {
+  sections: CodeSection[] = [];
+
+  async deleteGeneratedByProjectId(projectId: string): Promise<void> {
+    this.sections = this.sections.filter(section => section.projectId !== projectId || !section.elementId);
+  }
+
+  async findGeneratedByProjectId(projectId: string): Promise<CodeSection[]> {
+    return this.sections.filter(section => section.projectId === projectId && section.elementId);
+  }
+
+  async upsertByElementId(
+    projectId: string,
+    elementId: string,
+    data: Omit<CreateCodeSectionInput, 'projectId' | 'elementId'>
+  ): Promise<CodeSection> {
+    const existing = this.sections.find(section => section.projectId === projectId && section.elementId === elementId);
+    if (existing) {
+      return Object.assign(existing, data, { updatedAt: new Date() });
+    }
+
+    const section: CodeSection = {
+      ...data,
+      id: `section-${this.sections.length + 1}`,
+      projectId,
+      elementId,
+      revision: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.sections.push(section);
+    return section;
+  }
+}
+
+class RecordingWebSocket {
+  events: { type: string; payload: unknown }[] = [];
+
+  sendToProject(_projectId: string, type: string, payload: unknown): number {
+    this.events.push({ type, payload });
+    return 1;
+  }
+
+  getConnectedClients(): number {
+    return 1;
+  }
+
+  getProjectClients(): number {
+    return 1;
+  }
+
+  ofType(type: string) {
+    return this.events.filter(event => event.type === type);
+  }
+}
+
+// Saves the page straight into the section fake, without keeping history
+const pageWithoutHistory = (codeRepo: InMemoryCodeSections) => ({
+  overwriteCompleteHTML: async (projectId: string, htmlContent: string, _details: unknown, { page }: { page: PageSection }) => {
+    const { elementId, ...fields } = page;
+    return {
+      section: await codeRepo.upsertByElementId(projectId, elementId!, { ...fields, codeContent: htmlContent }),
+      revision: null,
+    };
+  },
+  latest: async () => null,
+}) as unknown as RevisionService;
+
+const inMemoryLogs = {
+  logStep: async () => ({ id: 'log-1' }),
+  updateStatus: async () => ({}),
+  findLatestByStepName: async () => null,
+} as unknown as GenerationLogRepository;
+
+const setup = (fixture: MockLLMFixture = defaultMockFixture) => {
+  const llmService = new LLMService(config, new MockLLMService({ apiKey: '', apiUrl: '', model: 'mock', temperature: 0.7, maxTokens: 4000 }, { fixture }));
+  const codeRepo = new InMemoryCodeSections();
+  const ws = new RecordingWebSocket();
+  // Each test gets a registry of its own, backed by fake logs
+  const jobService = GenerationJobService.create(inMemoryLogs);
+  const codeService = new CodeGenerationService(
+    llmService,
+    ws as unknown as WSServer,
+    jobService,
+    codeRepo as unknown as CodeSectionRepository,
+    pageWithoutHistory(codeRepo)
+  );
+
+  return { llmService, codeRepo, ws, jobService, codeService };
+};
+
+describe('generation pipeline with the mock LLM', () => {
+  it('plans and generates every component of the fixture', async () => {
+    const { llmService, codeRepo, ws, jobService, codeService } = setup();
+
+    const plan = await new PlanGenerationService(llmService).generatePlan('A SaaS landing page', { styling: 'tailwind' });
+    assert.equal(plan.id, defaultMockFixture.plan.id);
+    assert.deepEqual(plan.components.map(component => component.id), ['header', 'hero', 'features', 'footer']);
+
+    jobService.reserve(PROJECT_ID);
+    const sections = await codeService.generateCode(plan, { styling: 'tailwind' }, PROJECT_ID, 'user-1');
+
+    assert.deepEqual(
+      sections.map(section => section.elementId),
+      ['base-html', 'header', 'hero', 'features', 'footer', 'complete-html']
+    );
+    const page = codeRepo.sections.find(section => section.elementId === 'complete-html')!;
+    assert.match(page.codeContent, /Ship faster with Acme/);
+    assert.match(page.codeContent, /&copy; 2024 Acme Inc\./);
+
+    assert.equal(ws.ofType(WS_EVENTS.ELEMENT_GENERATED).length, 4);
+    assert.equal(ws.ofType(WS_EVENTS.GENERATION_COMPLETE).length, 1);
+    const job = await jobService.getStatus(PROJECT_ID);
+    assert.equal(job?.status, 'completed');
+    assert.equal(job?.completedComponents.length, 4);
+  });
+
+  it('surfaces a scripted code failure instead of fallback code', async () => {
+    const { llmService, codeRepo, ws, jobService, codeService } = setup({ ...defaultMockFixture, fail: ['code'] });
+    const plan = await new PlanGenerationService(llmService).generatePlan('A SaaS landing page', { styling: 'tailwind' });
+
+    jobService.reserve(PROJECT_ID);
+    await assert.rejects(
+      codeService.generateCode(plan, { styling: 'tailwind' }, PROJECT_ID, 'user-1'),
+      /Mock LLM scripted failure for code/
+    );
+
+    assert.equal(codeRepo.sections.length, 0);
+    assert.equal(ws.ofType(WS_EVENTS.GENERATION_ERROR).length, 1);
+    const job = await jobService.getStatus(PROJECT_ID);
+    assert.equal(job?.status, 'error');
+    assert.equal(jobService.isActive(PROJECT_ID), false);
+  });
+
+  it('surfaces a scripted plan failure instead of the fallback plan', async () => {
+    const { llmService } = setup({ ...defaultMockFixture, fail: ['plan'] });
+
+    await assert.rejects(
+      new PlanGenerationService(llmService).generatePlan('A SaaS landing page', {}),
+      /Plan generation failed: Mock LLM scripted failure for plan/
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import type { MockLLMFixture } from '../services/mock-llm.service.js';
+
+/**
+ * Built-in fixture for the mock provider: a small SaaS landing page. Code
+ * entries are matched against the component name in the generation prompt.
+ */
+export const defaultMockFixture: MockLLMFixture = {
+  name: 'saas-landing-page',
+  plan: {
+    id: 'mock-plan-saas-landing',
+    components: [
+      {
+        id: 'header',
+        name: 'Header Navigation',
+        type: 'header',
+        description: 'Sticky header with logo, navigation links and a call-to-action button',
+        features: ['Logo', 'Navigation links', 'Mobile menu toggle'],
+        estimatedComplexity: 'low',
+      },
+      {
+        id: 'hero',
+        name: 'Hero Section',
+        type: 'hero',
+        description: 'Headline, supporting copy and primary call to action',
+        features: ['Headline', 'Subheading', 'Primary and secondary buttons'],
+        estimatedComplexity: 'low',
+      },
+      {
+        id: 'features',
+        name: 'Features Grid',
+        type: 'features',
+        description: 'Three-column grid of product features',
+        features: ['Feature cards', 'Icons', 'Responsive grid'],
+        estimatedComplexity: 'medium',
+      },
+      {
+        id: 'footer',
+        name: 'Footer',
+        type: 'footer',
+        description: 'Footer with copyright and secondary links',
+        features: ['Copyright', 'Secondary links'],
+        estimatedComplexity: 'low',
+      },
+    ],
+    architecture: {
+      structure: 'Semantic HTML5 with header, main and footer landmarks',
+      styling: 'TailwindCSS utility classes',
+      interactions: 'Vanilla JavaScript mobile menu toggle',
+      responsive: true,
+    },
+    timeline: {
+      totalMinutes: 3,
+      phases: {
+        planning: 1,
+        generation: 1,
+        documentation: 1,
+      },
+    },
+    dependencies: ['tailwindcss'],
+  },
+  code: [
+    {
+      match: 'Header Navigation',
+      chunks: [
+        '<header class="sticky top-0 bg-white shadow-sm">\n',
+        '  <nav class="max-w-6xl mx-auto flex items-center justify-between px-4 py-3" aria-label="Main">\n',
+        '    <a href="#" class="text-xl font-bold text-indigo-600">Acme</a>\n',
+        '    <ul class="hidden md:flex gap-6 text-gray-700">\n',
+        '      <li><a href="#features" class="hover:text-indigo-600">Features</a></li>\n',
+        '      <li><a href="#pricing" class="hover:text-indigo-600">Pricing</a></li>\n',
+        '    </ul>\n',
+        '    <button id="menu-toggle" class="md:hidden" aria-label="Open menu">☰</button>\n',
+        '  </nav>\n',
+        '</header>',
+      ],
+    },
+    {
+      match: 'Hero Section',
+      chunks: [
+        '<section id="hero" class="bg-indigo-600 text-white py-20">\n',
+        '  <div class="max-w-4xl mx-auto px-4 text-center">\n',
+        '    <h1 class="text-4xl md:text-5xl font-bold mb-4">Ship faster with Acme</h1>\n',
+        '    <p class="text-lg text-indigo-100 mb-8">Everything your team needs in one place.</p>\n',
+        '    <a href="#" class="bg-white text-indigo-600 px-6 py-3 rounded-lg font-semibold">Get started</a>\n',
+        '  </div>\n',
+        '</section>',
+      ],
+    },
+    {
+      match: 'Features Grid',
+      chunks: [
+        '<section id="features" class="py-16 bg-gray-50">\n',
+        '  <div class="max-w-6xl mx-auto px-4 grid gap-8 md:grid-cols-3">\n',
+        '    <div class="bg-white p-6 rounded-lg shadow"><h3 class="font-semibold text-gray-900 mb-2">Fast</h3><p class="text-gray-600">Built for speed.</p></div>\n',
+        '    <div class="bg-white p-6 rounded-lg shadow"><h3 class="font-semibold text-gray-900 mb-2">Secure</h3><p class="text-gray-600">Encrypted by default.</p></div>\n',
+        '    <div class="bg-white p-6 rounded-lg shadow"><h3 class="font-semibold text-gray-900 mb-2">Simple</h3><p class="text-gray-600">No setup required.</p></div>\n',
+        '  </div>\n',
+        '</section>',
+      ],
+    },
+    {
+      match: 'Footer',
+      chunks: [
+        '<footer class="bg-gray-900 text-gray-400 py-8">\n',
+        '  <div class="max-w-6xl mx-auto px-4 flex justify-between">\n',
+        '    <p>&copy; 2024 Acme Inc.</p>\n',
+        '    <a href="#" class="hover:text-white">Privacy</a>\n',
+        '  </div>\n',
+        '</footer>',
+      ],
+    },
+    {
+      content: '<section class="py-8 px-4">\n  <div class="max-w-4xl mx-auto">\n    <p class="text-gray-600">Mock section content.</p>\n  </div>\n</section>',
+    },
+  ],
+  documentation: [
+    {
+      content: '# Component\n\nGenerated by the mock LLM provider.\n\n## Features\n- Responsive layout\n- TailwindCSS styling\n\n## Customization\nEdit the utility classes to adjust colors and spacing.',
+    },
+  ],
+  completions: [],
+};
@@ -9,10 +9,15 @@ import { WSServer } from './websocket/websocket-server.js';
 import { WebSocketHandlers } from './websocket/websocket-handlers.js';
 import { WebSocketIntegrationService } from './services/websocket-integration.service.js';
 import { WebSocketRouter } from './websocket/websocket-router.js';
+import { GenerationJobService } from './services/generation-job.service.js';
 import { generationRoutes, initializeGenerationServices } from './routes/generation.routes.js';
 import { llmRoutes } from './routes/llm.routes.js';
-import { projectRoutes } from './routes/project.routes.js';
+import { projectRoutes, initializeProjectNotifications } from './routes/project.routes.js';
+import { authRoutes } from './routes/auth.routes.js';
+import { workspaceRoutes, initializeWorkspaceNotifications } from './routes/workspace.routes.js';
+import { authenticate } from './middleware/auth.middleware.js';
 import { errorHandler } from './middleware/error-handler.js';
+import { WS_EVENTS } from './types/websocket.js';
 import { requestLogger } from './middleware/request-logger.js';
 
 // Load environment variables
@@ -61,10 +66,12 @@ app.get('/health', (req, res) => {
   });
 });
 
-// API routes
-app.use('/api/generate', generationRoutes);
-app.use('/api/llm', llmRoutes);
-app.use('/api/projects', projectRoutes);
+// API routes; everything but signing in requires a session
+app.use('/api/auth', authRoutes);
+app.use('/api/generate', authenticate, generationRoutes);
+app.use('/api/llm', authenticate, llmRoutes);
+app.use('/api/projects', authenticate, projectRoutes);
+app.use('/api/workspaces', authenticate, workspaceRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
@@ -110,8 +117,23 @@ try {
     }
   });
   
+  // Send clients that (re)join a project the state of its latest generation
+  wsServer.setProjectJoinHandler((clientId: string, projectId: string) => {
+    GenerationJobService.getInstance().getStatus(projectId)
+      .then(job => {
+        if (job) {
+          wsServer.sendToClient(clientId, WS_EVENTS.GENERATION_STATUS, job);
+        }
+      })
+      .catch(error => {
+        console.error('Generation status lookup error:', error);
+      });
+  });
+  
   // Initialize generation services with WebSocket
   initializeGenerationServices(wsServer);
+  initializeProjectNotifications(wsServer);
+  initializeWorkspaceNotifications(wsServer);
   
   console.log(`✅ WebSocket server initialized on port ${WS_PORT}`);
 } catch (error) {
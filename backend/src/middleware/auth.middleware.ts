@@ -0,0 +1,172 @@
+import { Request, Response, NextFunction, CookieOptions } from 'express';
+import { IncomingHttpHeaders } from 'http';
+import { AuthService } from '../services/auth.service.js';
+import { WorkspaceService, InsufficientRoleError, hasRole } from '../services/workspace.service.js';
+import { WorkspaceRole } from '../types/database.js';
+import '../types/auth.js';
+
+export const SESSION_COOKIE = 'op_session';
+
+const authService = new AuthService();
+const workspaceService = new WorkspaceService();
+
+export const sessionCookieOptions = (expires?: Date): CookieOptions => ({
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  ...(expires && { expires }),
+});
+
+/**
+ * The session token of a request: an `Authorization: Bearer` header for API
+ * clients, else the session cookie browsers send on their own (including on
+ * the WebSocket handshake).
+ */
+export const sessionTokenFrom = (headers: IncomingHttpHeaders): string | null => {
+  const authorization = headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  for (const cookie of (headers.cookie || '').split(';')) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join('=')) || null;
+    }
+  }
+  return null;
+};
+
+/**
+ * Rejects requests without a valid session and sets `req.user` for the rest
+ */
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await authService.authenticate(sessionTokenFrom(req.headers));
+    if (!user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Sign in to continue'
+      });
+      return;
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error('Authentication error:', error);
+    res.status(500).json({
+      error: 'Failed to authenticate',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Checks the signed-in user's role on a project and sets `req.accessRole`.
+ * Projects outside the user's workspaces are a 404 rather than a 403, so ids
+ * cannot be probed; a role below `required` is a 403. Returns whether the
+ * request may continue; otherwise the response has been sent.
+ */
+export const authorizeProject = async (
+  req: Request,
+  res: Response,
+  projectId: string,
+  required: WorkspaceRole = WorkspaceRole.VIEWER
+): Promise<boolean> => {
+  const access = req.user && await workspaceService.projectAccess(projectId, req.user.id);
+  if (!access) {
+    res.status(404).json({
+      error: 'Project not found'
+    });
+    return false;
+  }
+
+  req.accessRole = access.role;
+  if (!hasRole(access.role, required)) {
+    sendInsufficientRole(res, required);
+    return false;
+  }
+  return true;
+};
+
+// `router.param` handler: every /:id route sees only projects the user can at least view
+export const loadProjectAccess = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  projectId: string
+): Promise<void> => {
+  try {
+    if (await authorizeProject(req, res, projectId)) {
+      next();
+    }
+  } catch (error) {
+    next(error);
+  }
+};
+
+// `router.param` handler for workspace ids; non-members get a 404
+export const loadWorkspaceAccess = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  workspaceId: string
+): Promise<void> => {
+  try {
+    const role = req.user && await workspaceService.roleIn(workspaceId, req.user.id);
+    if (!role) {
+      res.status(404).json({
+        error: 'Workspace not found'
+      });
+      return;
+    }
+
+    req.accessRole = role;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Route guard for server-wide settings, such as the LLM gateway and its API
+ * key. Admins are the user ids listed in ADMIN_USER_IDS; ids rather than
+ * email addresses, since anyone can register an address nobody has claimed yet.
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const adminIds = (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+  if (!req.user || !adminIds.includes(req.user.id)) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'Only server admins can change the LLM configuration'
+    });
+    return;
+  }
+  next();
+};
+
+/**
+ * Route guard for the role loaded by `loadProjectAccess` or `loadWorkspaceAccess`.
+ * Generic over the params so routes keep the types inferred from their path.
+ */
+export const requireRole = (required: WorkspaceRole) =>
+  <P>(req: Request<P>, res: Response, next: NextFunction): void => {
+    if (!req.accessRole || !hasRole(req.accessRole, required)) {
+      sendInsufficientRole(res, required);
+      return;
+    }
+    next();
+  };
+
+const sendInsufficientRole = (res: Response, required: WorkspaceRole) => {
+  res.status(403).json({
+    error: 'Forbidden',
+    message: new InsufficientRoleError(required).message
+  });
+};
@@ -42,6 +42,17 @@ export class CodeSectionRepository {
     });
   }
 
+  // Sections written by code generation carry the element id of their plan component
+  async findGeneratedByProjectId(projectId: string): Promise<CodeSection[]> {
+    return prisma.codeSection.findMany({
+      where: {
+        projectId,
+        elementId: { not: null },
+      },
+      orderBy: { orderIndex: 'asc' },
+    });
+  }
+
   async findByElementId(elementId: string): Promise<CodeSection | null> {
     return prisma.codeSection.findFirst({
       where: { elementId },
@@ -65,6 +76,17 @@ export class CodeSectionRepository {
     });
   }
 
+  // Stores edited content as the section's next revision
+  async saveRevision(id: string, codeContent: string): Promise<CodeSection> {
+    return prisma.codeSection.update({
+      where: { id },
+      data: {
+        codeContent,
+        revision: { increment: 1 },
+      },
+    });
+  }
+
   async updateByElementId(elementId: string, data: UpdateCodeSectionInput): Promise<CodeSection> {
     return prisma.codeSection.updateMany({
       where: { elementId },
@@ -72,6 +94,27 @@ export class CodeSectionRepository {
     }).then(() => this.findByElementId(elementId)!);
   }
 
+  async upsertByElementId(
+    projectId: string,
+    elementId: string,
+    data: Omit<CreateCodeSectionInput, 'projectId' | 'elementId'>
+  ): Promise<CodeSection> {
+    const existing = await prisma.codeSection.findFirst({
+      where: { projectId, elementId },
+    });
+
+    if (existing) {
+      return prisma.codeSection.update({
+        where: { id: existing.id },
+        data,
+      });
+    }
+
+    return prisma.codeSection.create({
+      data: { ...data, projectId, elementId },
+    });
+  }
+
   async delete(id: string): Promise<void> {
     await prisma.codeSection.delete({
       where: { id },
@@ -84,6 +127,15 @@ export class CodeSectionRepository {
     });
   }
 
+  async deleteGeneratedByProjectId(projectId: string): Promise<void> {
+    await prisma.codeSection.deleteMany({
+      where: {
+        projectId,
+        elementId: { not: null },
+      },
+    });
+  }
+
   async reorderSections(projectId: string, sectionIds: string[]): Promise<void> {
     const updates = sectionIds.map((id, index) =>
       prisma.codeSection.update({
@@ -0,0 +1,59 @@
+import { prisma } from '../lib/database.js';
+import {
+  Comment,
+  CommentThread,
+  CreateCommentInput,
+} from '../types/database.js';
+
+const AUTHOR_FIELDS = { id: true, name: true, avatarUrl: true } as const;
+
+const THREAD_INCLUDE = {
+  author: { select: AUTHOR_FIELDS },
+  replies: {
+    include: { author: { select: AUTHOR_FIELDS } },
+    orderBy: { createdAt: 'asc' },
+  },
+} as const;
+
+export class CommentRepository {
+  async create(data: CreateCommentInput): Promise<Comment> {
+    return prisma.comment.create({
+      data,
+    });
+  }
+
+  async findById(id: string): Promise<Comment | null> {
+    return prisma.comment.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Threads of a project in the order they were started
+   */
+  async findThreadsByProjectId(projectId: string, includeResolved = false): Promise<CommentThread[]> {
+    return prisma.comment.findMany({
+      where: {
+        projectId,
+        parentId: null,
+        ...(!includeResolved && { resolvedAt: null }),
+      },
+      include: THREAD_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findThread(id: string): Promise<CommentThread | null> {
+    return prisma.comment.findUnique({
+      where: { id },
+      include: THREAD_INCLUDE,
+    });
+  }
+
+  async setResolvedAt(id: string, resolvedAt: Date | null): Promise<Comment> {
+    return prisma.comment.update({
+      where: { id },
+      data: { resolvedAt },
+    });
+  }
+}
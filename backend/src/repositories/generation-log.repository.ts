@@ -36,6 +36,16 @@ export class GenerationLogRepository {
     });
   }
 
+  async findLatestByStepName(projectId: string, stepName: string): Promise<GenerationLog | null> {
+    return prisma.generationLog.findFirst({
+      where: {
+        projectId,
+        stepName,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
   async updateStatus(id: string, status: LogStatus, metadata?: any): Promise<GenerationLog> {
     return prisma.generationLog.update({
       where: { id },
@@ -1,9 +1,13 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/database.js';
 import {
   GenerationPlan,
   CreateGenerationPlanInput,
 } from '../types/database.js';
 
+// Saves of the same project racing for one version number
+const MAX_VERSION_ATTEMPTS = 5;
+
 export class GenerationPlanRepository {
   async create(data: CreateGenerationPlanInput): Promise<GenerationPlan> {
     return prisma.generationPlan.create({
@@ -11,6 +15,35 @@ export class GenerationPlanRepository {
     });
   }
 
+  /**
+   * Store a plan as the next version for its project. Concurrent saves can pick
+   * the same version; the unique index rejects all but one and the rest retry.
+   */
+  async createNextVersion(projectId: string, planData: Prisma.InputJsonValue): Promise<GenerationPlan> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await prisma.$transaction(async (tx) => {
+          const latest = await tx.generationPlan.findFirst({
+            where: { projectId },
+            orderBy: { version: 'desc' },
+            select: { version: true },
+          });
+
+          return tx.generationPlan.create({
+            data: {
+              projectId,
+              planData,
+              version: (latest?.version ?? 0) + 1,
+            },
+          });
+        });
+      } catch (error) {
+        const versionTaken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+        if (!versionTaken || attempt >= MAX_VERSION_ATTEMPTS) throw error;
+      }
+    }
+  }
+
   async findById(id: string): Promise<GenerationPlan | null> {
     return prisma.generationPlan.findUnique({
       where: { id },
@@ -20,7 +53,7 @@ export class GenerationPlanRepository {
   async findByProjectId(projectId: string): Promise<GenerationPlan[]> {
     return prisma.generationPlan.findMany({
       where: { projectId },
-      orderBy: { createdAt: 'desc' },
+      orderBy: { version: 'desc' },
     });
   }
 
@@ -48,7 +81,7 @@ export class GenerationPlanRepository {
     });
   }
 
-  async updatePlanData(id: string, planData: any): Promise<GenerationPlan> {
+  async updatePlanData(id: string, planData: Prisma.InputJsonValue): Promise<GenerationPlan> {
     return prisma.generationPlan.update({
       where: { id },
       data: { planData },
@@ -0,0 +1,122 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/database.js';
+import {
+  CodeSection,
+  ProjectRevision,
+  CreateCodeSectionInput,
+  CreateProjectRevisionInput,
+} from '../types/database.js';
+
+// Revision listings leave out the snapshots themselves
+export type ProjectRevisionSummary = Omit<ProjectRevision, 'htmlContent'>;
+
+// Writes of the same project racing for one version number
+const MAX_VERSION_ATTEMPTS = 5;
+
+export class ProjectRevisionRepository {
+  /**
+   * Store a snapshot as the next version for its project. Concurrent writes can
+   * pick the same version; the unique index rejects all but one and the rest retry.
+   */
+  async createNextVersion(data: CreateProjectRevisionInput): Promise<ProjectRevision> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await prisma.$transaction(async (tx) => {
+          const latest = await tx.projectRevision.findFirst({
+            where: { projectId: data.projectId },
+            orderBy: { version: 'desc' },
+            select: { version: true },
+          });
+
+          return tx.projectRevision.create({
+            data: {
+              ...data,
+              version: (latest?.version ?? 0) + 1,
+            },
+          });
+        });
+      } catch (error) {
+        const versionTaken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+        if (!versionTaken || attempt >= MAX_VERSION_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  /**
+   * Write the project's page section and store it as the version after
+   * `expectedVersion`, in one transaction. Returns null, with nothing written,
+   * when another revision was stored after `expectedVersion`.
+   */
+  async commitPage(
+    expectedVersion: number | null,
+    data: CreateProjectRevisionInput,
+    page: Omit<CreateCodeSectionInput, 'projectId' | 'codeContent'>
+  ): Promise<{ section: CodeSection; revision: ProjectRevision | null } | null> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const latest = await tx.projectRevision.findFirst({
+          where: { projectId: data.projectId },
+          orderBy: { version: 'desc' },
+          select: { version: true, htmlContent: true },
+        });
+        if ((latest?.version ?? null) !== expectedVersion) return null;
+
+        const existing = await tx.codeSection.findFirst({
+          where: { projectId: data.projectId, elementId: page.elementId },
+        });
+        const section = existing
+          ? await tx.codeSection.update({
+              where: { id: existing.id },
+              data: { codeContent: data.htmlContent, revision: { increment: 1 } },
+            })
+          : await tx.codeSection.create({
+              data: { ...page, projectId: data.projectId, codeContent: data.htmlContent },
+            });
+
+        // An unchanged page is not stored as a new version
+        if (latest?.htmlContent === data.htmlContent) return { section, revision: null };
+
+        const revision = await tx.projectRevision.create({
+          data: { ...data, version: (expectedVersion ?? 0) + 1 },
+        });
+        return { section, revision };
+      });
+    } catch (error) {
+      // A concurrent commit stored the same version first and this one rolled back
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findByProjectId(projectId: string): Promise<ProjectRevisionSummary[]> {
+    return prisma.projectRevision.findMany({
+      where: { projectId },
+      orderBy: { version: 'desc' },
+      select: {
+        id: true,
+        projectId: true,
+        version: true,
+        authorId: true,
+        trigger: true,
+        message: true,
+        restoredFrom: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  async findByVersion(projectId: string, version: number): Promise<ProjectRevision | null> {
+    return prisma.projectRevision.findUnique({
+      where: { projectId_version: { projectId, version } },
+    });
+  }
+
+  async findLatestByProjectId(projectId: string): Promise<ProjectRevision | null> {
+    return prisma.projectRevision.findFirst({
+      where: { projectId },
+      orderBy: { version: 'desc' },
+    });
+  }
+}
@@ -7,6 +7,7 @@ import {
   CreateProjectInput,
   UpdateProjectInput,
   ProjectStatus,
+  WorkspaceRole,
 } from '../types/database.js';
 
 export class ProjectRepository {
@@ -22,6 +23,27 @@ export class ProjectRepository {
     });
   }
 
+  /**
+   * The project with the user's role in its workspace; null when the user is
+   * not a member there
+   */
+  async findWithRole(id: string, userId: string): Promise<{ project: Project; role: WorkspaceRole } | null> {
+    const record = await prisma.project.findUnique({
+      where: { id },
+      include: {
+        workspace: {
+          select: { members: { where: { userId }, select: { role: true } } },
+        },
+      },
+    });
+
+    const membership = record?.workspace.members[0];
+    if (!record || !membership) return null;
+
+    const { workspace: _workspace, ...project } = record;
+    return { project, role: membership.role };
+  }
+
   async findByIdWithRelations(id: string): Promise<ProjectWithRelations | null> {
     return prisma.project.findUnique({
       where: { id },
@@ -73,6 +95,23 @@ export class ProjectRepository {
     });
   }
 
+  async findByWorkspaceIds(workspaceIds: string[], limit = 50, offset = 0): Promise<Project[]> {
+    return prisma.project.findMany({
+      where: { workspaceId: { in: workspaceIds } },
+      orderBy: { updatedAt: 'desc' },
+      take: limit,
+      skip: offset,
+    });
+  }
+
+  // Variants forked directly from the project, oldest first
+  async findVariants(parentId: string): Promise<Project[]> {
+    return prisma.project.findMany({
+      where: { parentId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
   async update(id: string, data: UpdateProjectInput): Promise<Project> {
     return prisma.project.update({
       where: { id },
@@ -87,6 +126,14 @@ export class ProjectRepository {
     });
   }
 
+  async moveToWorkspace(ids: string[], workspaceId: string): Promise<number> {
+    const result = await prisma.project.updateMany({
+      where: { id: { in: ids } },
+      data: { workspaceId },
+    });
+    return result.count;
+  }
+
   async delete(id: string): Promise<void> {
     await prisma.project.delete({
       where: { id },
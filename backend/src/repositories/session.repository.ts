@@ -0,0 +1,40 @@
+import { prisma } from '../lib/database.js';
+import {
+  Session,
+  SessionWithUser,
+  CreateSessionInput,
+} from '../types/database.js';
+
+export class SessionRepository {
+  async create(data: CreateSessionInput): Promise<Session> {
+    return prisma.session.create({
+      data,
+    });
+  }
+
+  /**
+   * Find an unexpired session with its user
+   */
+  async findActiveByTokenHash(tokenHash: string): Promise<SessionWithUser | null> {
+    return prisma.session.findFirst({
+      where: {
+        tokenHash,
+        expiresAt: { gt: new Date() },
+      },
+      include: { user: true },
+    });
+  }
+
+  async deleteByTokenHash(tokenHash: string): Promise<void> {
+    await prisma.session.deleteMany({
+      where: { tokenHash },
+    });
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await prisma.session.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+    return result.count;
+  }
+}
@@ -0,0 +1,47 @@
+import { prisma } from '../lib/database.js';
+import {
+  User,
+  CreateUserInput,
+  WorkspaceRole,
+} from '../types/database.js';
+
+export class UserRepository {
+  async create(data: CreateUserInput): Promise<User> {
+    return prisma.user.create({
+      data,
+    });
+  }
+
+  /**
+   * Create a user together with a workspace they own, so no account is ever
+   * left without one
+   */
+  async createWithWorkspace(data: CreateUserInput, workspaceName: string): Promise<User> {
+    return prisma.$transaction(async (tx) => {
+      const user = await tx.user.create({
+        data,
+      });
+      await tx.workspace.create({
+        data: {
+          name: workspaceName,
+          members: {
+            create: { userId: user.id, role: WorkspaceRole.OWNER },
+          },
+        },
+      });
+      return user;
+    });
+  }
+
+  async findById(id: string): Promise<User | null> {
+    return prisma.user.findUnique({
+      where: { id },
+    });
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    return prisma.user.findUnique({
+      where: { email },
+    });
+  }
+}
@@ -0,0 +1,173 @@
+import { prisma } from '../lib/database.js';
+import {
+  Workspace,
+  WorkspaceMember,
+  WorkspaceMemberWithUser,
+  WorkspaceInvite,
+  WorkspaceInviteSummary,
+  CreateWorkspaceInviteInput,
+  WorkspaceRole,
+} from '../types/database.js';
+
+// A workspace as one of its members sees it
+export type WorkspaceMembership = Workspace & {
+  role: WorkspaceRole;
+  memberCount: number;
+};
+
+const MEMBER_USER_FIELDS = { id: true, email: true, name: true, avatarUrl: true } as const;
+
+const INVITE_FIELDS = {
+  id: true,
+  workspaceId: true,
+  email: true,
+  role: true,
+  invitedById: true,
+  createdAt: true,
+} as const;
+
+export class WorkspaceRepository {
+  /**
+   * Create a workspace with its first owner
+   */
+  async create(name: string, ownerId: string): Promise<Workspace> {
+    return prisma.workspace.create({
+      data: {
+        name,
+        members: {
+          create: { userId: ownerId, role: WorkspaceRole.OWNER },
+        },
+      },
+    });
+  }
+
+  async findById(id: string): Promise<Workspace | null> {
+    return prisma.workspace.findUnique({
+      where: { id },
+    });
+  }
+
+  // Workspaces the user belongs to, oldest membership first
+  async findByUserId(userId: string): Promise<WorkspaceMembership[]> {
+    const memberships = await prisma.workspaceMember.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        workspace: {
+          include: { _count: { select: { members: true } } },
+        },
+      },
+    });
+
+    return memberships.map(({ role, workspace: { _count, ...workspace } }) => ({
+      ...workspace,
+      role,
+      memberCount: _count.members,
+    }));
+  }
+
+  async findMembership(workspaceId: string, userId: string): Promise<WorkspaceMember | null> {
+    return prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+    });
+  }
+
+  async findMembers(workspaceId: string): Promise<WorkspaceMemberWithUser[]> {
+    return prisma.workspaceMember.findMany({
+      where: { workspaceId },
+      orderBy: { createdAt: 'asc' },
+      include: { user: { select: MEMBER_USER_FIELDS } },
+    });
+  }
+
+  async countOwners(workspaceId: string): Promise<number> {
+    return prisma.workspaceMember.count({
+      where: { workspaceId, role: WorkspaceRole.OWNER },
+    });
+  }
+
+  async addMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember> {
+    return prisma.workspaceMember.upsert({
+      where: { workspaceId_userId: { workspaceId, userId } },
+      create: { workspaceId, userId, role },
+      update: { role },
+    });
+  }
+
+  async updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember> {
+    return prisma.workspaceMember.update({
+      where: { workspaceId_userId: { workspaceId, userId } },
+      data: { role },
+    });
+  }
+
+  async removeMember(workspaceId: string, userId: string): Promise<void> {
+    await prisma.workspaceMember.delete({
+      where: { workspaceId_userId: { workspaceId, userId } },
+    });
+  }
+
+  /**
+   * Turn an invite into a membership of the user who accepted it. A user who
+   * is already a member only takes the invite's role when `outranks` says it
+   * is higher than theirs.
+   */
+  async acceptInvite(
+    invite: WorkspaceInvite,
+    userId: string,
+    outranks: (role: WorkspaceRole, current: WorkspaceRole) => boolean
+  ): Promise<WorkspaceMember> {
+    return prisma.$transaction(async (tx) => {
+      const where = { workspaceId_userId: { workspaceId: invite.workspaceId, userId } };
+      const existing = await tx.workspaceMember.findUnique({ where });
+      const member = !existing
+        ? await tx.workspaceMember.create({
+            data: { workspaceId: invite.workspaceId, userId, role: invite.role },
+          })
+        : outranks(invite.role, existing.role)
+          ? await tx.workspaceMember.update({ where, data: { role: invite.role } })
+          : existing;
+      await tx.workspaceInvite.delete({ where: { id: invite.id } });
+      return member;
+    });
+  }
+
+  /**
+   * Invite an email address; inviting it again updates the role and replaces
+   * the token, so earlier invite codes stop working
+   */
+  async upsertInvite(data: CreateWorkspaceInviteInput): Promise<WorkspaceInviteSummary> {
+    return prisma.workspaceInvite.upsert({
+      where: { workspaceId_email: { workspaceId: data.workspaceId, email: data.email } },
+      create: data,
+      update: { role: data.role, tokenHash: data.tokenHash, invitedById: data.invitedById },
+      select: INVITE_FIELDS,
+    });
+  }
+
+  async findInviteById(id: string): Promise<WorkspaceInvite | null> {
+    return prisma.workspaceInvite.findUnique({
+      where: { id },
+    });
+  }
+
+  async findInviteByTokenHash(tokenHash: string): Promise<WorkspaceInvite | null> {
+    return prisma.workspaceInvite.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  async findInvitesByWorkspace(workspaceId: string): Promise<WorkspaceInviteSummary[]> {
+    return prisma.workspaceInvite.findMany({
+      where: { workspaceId },
+      orderBy: { createdAt: 'desc' },
+      select: INVITE_FIELDS,
+    });
+  }
+
+  async deleteInvite(id: string): Promise<void> {
+    await prisma.workspaceInvite.delete({
+      where: { id },
+    });
+  }
+}
@@ -0,0 +1,106 @@
+import { Router, Response } from 'express';
+import { AuthService, AuthenticationError, EmailTakenError, InvalidRegistrationError } from '../services/auth.service.js';
+import {
+  authenticate,
+  sessionCookieOptions,
+  sessionTokenFrom,
+  SESSION_COOKIE
+} from '../middleware/auth.middleware.js';
+import { AuthSession } from '../types/auth.js';
+
+const router = Router();
+
+const authService = new AuthService();
+
+// The token only ever travels in the httpOnly cookie, out of reach of page scripts
+const sendSession = (res: Response, session: AuthSession, status = 200) => {
+  const { token, ...body } = session;
+  res.cookie(SESSION_COOKIE, token, sessionCookieOptions(session.expiresAt));
+  res.status(status).json(body);
+};
+
+// Create an account and sign in
+router.post('/register', async (req, res) => {
+  try {
+    const { email, password, name } = req.body;
+    
+    const session = await authService.register({ email, password, name }, req.get('user-agent'));
+    
+    sendSession(res, session, 201);
+  } catch (error) {
+    if (error instanceof EmailTakenError) {
+      res.status(409).json({ 
+        error: 'Email already registered',
+        message: error.message
+      });
+      return;
+    }
+
+    if (error instanceof InvalidRegistrationError) {
+      res.status(400).json({ 
+        error: 'Invalid registration',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Register error:', error);
+    res.status(500).json({ 
+      error: 'Failed to register',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Sign in with email and password
+router.post('/login', async (req, res) => {
+  try {
+    const { email, password } = req.body;
+    
+    const session = await authService.login(email, password, req.get('user-agent'));
+    
+    sendSession(res, session);
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      res.status(401).json({ 
+        error: 'Unauthorized',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Login error:', error);
+    res.status(500).json({ 
+      error: 'Failed to sign in',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// End the current session
+router.post('/logout', async (req, res) => {
+  try {
+    const token = sessionTokenFrom(req.headers);
+    if (token) {
+      await authService.logout(token);
+    }
+    
+    res.clearCookie(SESSION_COOKIE, sessionCookieOptions());
+    res.json({ 
+      message: 'Signed out' 
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ 
+      error: 'Failed to sign out',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// The signed-in user
+router.get('/me', authenticate, (req, res) => {
+  res.json(req.user);
+});
+
+export { router as authRoutes };
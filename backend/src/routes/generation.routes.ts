@@ -1,41 +1,120 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import { PlanGenerationService } from '../services/plan-generation.service.js';
 import { CodeGenerationService } from '../services/code-generation.service.js';
 import { LLMFactory } from '../services/llm-factory.service.js';
+import { GenerationJobService, GenerationAlreadyRunningError } from '../services/generation-job.service.js';
+import { SurgicalEditService, SurgicalEditRejectedError, SelectorNotFoundError } from '../services/surgical-edit.service.js';
+import { DomEditService, InvalidEditOperationError } from '../services/dom-edit.service.js';
+import { RevisionService, RevisionDetails, RevisionNotFoundError } from '../services/revision.service.js';
+import { DiffPatchService } from '../services/diff-patch.service.js';
+import { MergeService, CommitResult } from '../services/merge.service.js';
+import { ProjectRepository } from '../repositories/project.repository.js';
+import { CodeSectionRepository } from '../repositories/code-section.repository.js';
+import { WorkspaceService, InvalidWorkspaceError, InsufficientRoleError } from '../services/workspace.service.js';
+import { ProjectStatus, RevisionTrigger, WorkspaceRole } from '../types/database.js';
+import { authorizeProject } from '../middleware/auth.middleware.js';
 import { WSServer } from '../websocket/websocket-server.js';
+import { InvalidSelectorError } from '../utils/html-document.js';
 
 const router = Router();
+const projectRepo = new ProjectRepository();
+const codeSectionRepo = new CodeSectionRepository();
 
-// Initialize services using factory
+// Initialize services using factory. The provider can be switched at runtime,
+// so services that call the LLM are built per request from the current config.
 const llmFactory = LLMFactory.getInstance();
-const llmService = llmFactory.getLLMService();
-const planService = new PlanGenerationService(llmService);
+const planService = () => new PlanGenerationService(llmFactory.getLLMService());
+const jobService = GenerationJobService.getInstance();
+const surgicalEditService = () => new SurgicalEditService(llmFactory.getLLMService());
+const domEditService = new DomEditService();
+const revisionService = new RevisionService();
+const diffPatchService = new DiffPatchService();
+const mergeService = new MergeService(revisionService);
+const workspaceService = new WorkspaceService(undefined, projectRepo);
 // WebSocket service will be injected from main server
 let wsService: WSServer | null = null;
-// Code service will be initialized when WebSocket is available
-let codeService: CodeGenerationService | null = null;
 
 // Function to initialize services with WebSocket
 export const initializeGenerationServices = (ws: WSServer) => {
   wsService = ws;
-  codeService = new CodeGenerationService(llmService, wsService);
 };
 
-// Generate plan from prompt
+// Code service for one run; the run keeps the provider it started with
+const codeService = () => wsService ? new CodeGenerationService(llmFactory.getLLMService(), wsService) : null;
+
+/**
+ * Plans are reachable through their project: viewers can read them, editors
+ * can change and run them. Sends the error response and returns null when the
+ * caller falls short.
+ */
+const authorizePlan = async (req: Request, res: Response, planId: string, required: WorkspaceRole) => {
+  const plan = await planService().getPlan(planId);
+  if (!plan?.projectId) {
+    res.status(404).json({ 
+      error: 'Plan not found' 
+    });
+    return null;
+  }
+  return await authorizeProject(req, res, plan.projectId, required) ? plan : null;
+};
+
+// Generate plan from prompt and store it as the next version for the project
 router.post('/plan', async (req, res) => {
   try {
-    const { prompt, preferences } = req.body;
+    const { prompt, preferences, projectId, name } = req.body;
+    const userId = req.user!.id;
     
     if (!prompt || !preferences) {
-      return res.status(400).json({ 
+      res.status(400).json({ 
         error: 'Missing required fields: prompt and preferences' 
       });
+      return;
+    }
+
+    // Planning spends LLM credits, so it takes an editor
+    let workspaceId: string | null = null;
+    if (projectId) {
+      if (!(await authorizeProject(req, res, projectId, WorkspaceRole.EDITOR))) {
+        return;
+      }
+    } else {
+      workspaceId = await workspaceService.workspaceForNewProject(req.user!, req.body.workspaceId);
     }
 
-    const plan = await planService.generatePlan(prompt, preferences);
+    const plans = planService();
+    const plan = await plans.generatePlan(prompt, preferences);
+
+    // A new project is only created once there is a plan to put in it
+    const targetProjectId: string = workspaceId === null
+      ? projectId
+      : (await projectRepo.create({
+          userId,
+          workspaceId,
+          name: name || prompt.slice(0, 60),
+          description: null,
+          prompt,
+          preferences,
+          status: ProjectStatus.DRAFT
+        })).id;
+    const savedPlan = await plans.savePlan(targetProjectId, plan);
     
-    res.json(plan);
+    res.json(savedPlan);
   } catch (error) {
+    if (error instanceof InvalidWorkspaceError) {
+      res.status(400).json({ 
+        error: 'Invalid workspace',
+        message: error.message
+      });
+      return;
+    }
+    if (error instanceof InsufficientRoleError) {
+      res.status(403).json({ 
+        error: 'Forbidden',
+        message: error.message
+      });
+      return;
+    }
+
     console.error('Plan generation error:', error);
     res.status(500).json({ 
       error: 'Failed to generate plan',
@@ -44,18 +123,68 @@ router.post('/plan', async (req, res) => {
   }
 });
 
+// Get a stored plan
+router.get('/plan/:id', async (req, res) => {
+  try {
+    const plan = await authorizePlan(req, res, req.params.id, WorkspaceRole.VIEWER);
+    if (!plan) return;
+    
+    res.json({ ...plan, role: req.accessRole });
+  } catch (error) {
+    console.error('Get plan error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get plan',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Modify a plan; stored as a new unapproved version
+router.put('/plan/:id', async (req, res) => {
+  try {
+    const existing = await authorizePlan(req, res, req.params.id, WorkspaceRole.EDITOR);
+    if (!existing) return;
+
+    const { components, architecture, timeline, dependencies } = req.body;
+    const plan = await planService().updatePlan(req.params.id, {
+      ...(components && { components }),
+      ...(architecture && { architecture }),
+      ...(timeline && { timeline }),
+      ...(dependencies && { dependencies })
+    });
+    
+    res.json(plan);
+  } catch (error) {
+    console.error('Plan update error:', error);
+    res.status(500).json({ 
+      error: 'Failed to update plan',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Approve plan
 router.put('/plan/:id/approve', async (req, res) => {
   try {
     const { id } = req.params;
-    console.log('Approve plan route hit with ID:', id);
     
-    // For now, just return success since we don't have persistent storage
-    // In a real app, this would update the plan's approved status in the database
+    if (!(await authorizePlan(req, res, id, WorkspaceRole.EDITOR))) return;
+    
+    const plan = await planService().approvePlan(id);
+    
+    if (!plan) {
+      res.status(404).json({ 
+        error: 'Plan not found' 
+      });
+      return;
+    }
+    
     res.json({ 
       message: 'Plan approved successfully',
-      planId: id,
-      approved: true
+      planId: plan.id,
+      projectId: plan.projectId,
+      version: plan.version,
+      approved: plan.approved
     });
   } catch (error) {
     console.error('Plan approval error:', error);
@@ -66,52 +195,82 @@ router.put('/plan/:id/approve', async (req, res) => {
   }
 });
 
-// Start code generation from plan
+// Start code generation from an approved plan; `resume` continues an earlier run
 router.post('/code', async (req, res) => {
   try {
-    const { planId, plan, preferences } = req.body;
+    const { planId, preferences, resume = false } = req.body;
     
     if (!planId) {
-      return res.status(400).json({ 
+      res.status(400).json({ 
         error: 'Missing required field: planId' 
       });
+      return;
     }
 
-    // For now, we'll use mock plan and preferences if not provided
-    // In a real app, we'd fetch the plan from database using planId
-    const mockPlan = plan || {
-      id: planId,
-      title: 'Generated Plan',
-      description: 'Auto-generated plan for code generation',
-      components: [],
-      architecture: 'Standard web application',
-      timeline: '2-3 hours'
-    };
+    const plan = await authorizePlan(req, res, planId, WorkspaceRole.EDITOR);
+    if (!plan?.projectId) return;
+
+    if (!plan.approved) {
+      res.status(409).json({ 
+        error: 'Plan not approved',
+        message: 'Approve the plan before starting code generation'
+      });
+      return;
+    }
 
-    const mockPreferences = preferences || {
-      framework: 'react',
-      styling: 'tailwind',
+    if (resume) {
+      const lastJob = await jobService.getStatus(plan.projectId);
+      if (lastJob && lastJob.planId !== plan.id) {
+        res.status(409).json({ 
+          error: 'Cannot resume generation',
+          message: 'The saved sections were generated from a different plan version'
+        });
+        return;
+      }
+    }
+
+    const generationPreferences = preferences || {
+      framework: plan.architecture.framework,
+      styling: plan.architecture.styling,
       complexity: 'medium'
     };
 
     // Start generation (this will stream via WebSocket)
-    const projectId = planId;
-    const userId = 'hardcoded-user'; // TODO: Get from auth
+    const projectId = plan.projectId;
+    const userId = req.user!.id;
     
-    // Start async generation
-    if (codeService) {
-      codeService.generateCode(mockPlan, mockPreferences, projectId, userId)
-        .catch(error => {
-          console.error('Code generation error:', error);
-        });
-    } else {
+    const generation = codeService();
+    if (!generation) {
       throw new Error('Code generation service not initialized');
     }
     
+    // Claimed with no await before generateCode takes it over, so concurrent
+    // requests cannot both start a run
+    try {
+      jobService.reserve(projectId);
+    } catch (error) {
+      if (error instanceof GenerationAlreadyRunningError) {
+        res.status(409).json({ 
+          error: 'Generation already running',
+          message: `A generation is already in progress for project ${projectId}`
+        });
+        return;
+      }
+      throw error;
+    }
+    
+    // Start async generation
+    generation.generateCode(plan, generationPreferences, projectId, userId, { resume: Boolean(resume) })
+      .catch(error => {
+        console.error('Code generation error:', error);
+      });
+    
     res.json({ 
       message: 'Code generation started',
       projectId,
-      status: 'generating'
+      planId: plan.id,
+      status: 'generating',
+      resumed: Boolean(resume)
     });
   } catch (error) {
     console.error('Code generation start error:', error);
@@ -127,12 +286,18 @@ router.get('/status/:id', async (req, res) => {
   try {
     const { id } = req.params;
     
-    // TODO: Implement status tracking
-    res.json({ 
-      projectId: id,
-      status: 'completed',
-      progress: 100
-    });
+    if (!(await authorizeProject(req, res, id, WorkspaceRole.VIEWER))) return;
+    
+    const job = await jobService.getStatus(id);
+    
+    if (!job) {
+      res.status(404).json({ 
+        error: 'No generation found for project' 
+      });
+      return;
+    }
+    
+    res.json(job);
   } catch (error) {
     console.error('Status check error:', error);
     res.status(500).json({ 
@@ -142,72 +307,175 @@ router.get('/status/:id', async (req, res) => {
   }
 });
 
+type SavedEdit =
+  | {
+      updatedCode: string;
+      section: { id: string; elementId: string | null; revision: number; projectRevision: number | null; merged: boolean } | null;
+    }
+  | { conflict: Extract<CommitResult, { status: 'conflict' }> };
+
+/**
+ * Persist an edit as the next revision of the section it was made to. Edits
+ * to the complete HTML are committed against `baseRevision`, the project
+ * revision the client edited, so edits saved since are merged in rather than
+ * overwritten; overlapping changes come back as a conflict. Edits to other
+ * sections are carried into the complete HTML and committed the same way.
+ */
+const saveEditRevision = async (
+  updatedCode: string,
+  details: RevisionDetails,
+  projectId?: string,
+  elementId?: string,
+  baseRevision?: unknown
+): Promise<SavedEdit> => {
+  if (!projectId) return { updatedCode, section: null };
+
+  if ((elementId || 'complete-html') === 'complete-html') {
+    const commit = await mergeService.commit(projectId, updatedCode, {
+      ...details,
+      baseRevision: typeof baseRevision === 'number' ? baseRevision : null
+    });
+    if (commit.status === 'conflict') return { conflict: commit };
+
+    const { section } = commit;
+    console.log(`💾 Saved ${section.sectionName} revision ${section.revision}`);
+    return {
+      updatedCode: section.codeContent,
+      section: {
+        id: section.id,
+        elementId: section.elementId,
+        revision: section.revision,
+        projectRevision: commit.revision,
+        merged: commit.status === 'merged'
+      }
+    };
+  }
+
+  const sections = await codeSectionRepo.findByProjectId(projectId);
+  const target = sections.find(s => s.elementId === elementId);
+  if (!target) {
+    console.warn(`⚠️ No section to persist edit for project ${projectId}`);
+    return { updatedCode, section: null };
+  }
+
+  // The page embeds the section, so the edit is carried into it and recorded as a revision
+  const latest = await revisionService.latest(projectId);
+  const page = latest && diffPatchService.carryOver(target.codeContent, updatedCode, latest.htmlContent);
+  let commit: CommitResult | null = null;
+  if (page) {
+    commit = await mergeService.commit(projectId, page, { ...details, baseRevision: latest!.version });
+    if (commit.status === 'conflict') return { conflict: commit };
+  } else {
+    console.warn(`⚠️ ${target.sectionName} is not part of the page of project ${projectId}, no revision recorded`);
+  }
+
+  const section = await codeSectionRepo.saveRevision(target.id, updatedCode);
+  console.log(`💾 Saved ${section.sectionName} revision ${section.revision}`);
+  return {
+    updatedCode,
+    section: {
+      id: section.id,
+      elementId: section.elementId,
+      revision: section.revision,
+      projectRevision: commit?.revision ?? null,
+      merged: commit?.status === 'merged'
+    }
+  };
+};
+
+// Conflicting concurrent edits: the client resolves them through PUT /api/projects/:id/html
+const sendConflict = (res: Response, conflict: Extract<CommitResult, { status: 'conflict' }>) => {
+  res.status(409).json({
+    error: 'Merge conflict',
+    message: `The project changed since revision ${conflict.baseRevision} and ${conflict.conflicts.length} change(s) overlap`,
+    ...conflict
+  });
+};
+
 // Surgical edit for small changes
 router.post('/surgical-edit', async (req, res) => {
   console.log('🔧 Surgical edit endpoint called');
   
   try {
-    const { currentCode, editInstruction, projectId } = req.body;
+    const { currentCode, editInstruction, projectId, elementId, selector, baseRevision } = req.body;
     
     console.log('📋 Surgical edit request:', {
       codeLength: currentCode?.length || 0,
       editInstruction,
-      projectId
+      projectId,
+      selector
     });
     
     if (!currentCode || !editInstruction) {
       console.log('❌ Missing required fields');
-      return res.status(400).json({ 
+      res.status(400).json({ 
         error: 'Missing required fields: currentCode and editInstruction' 
       });
+      return;
     }
 
-    // For now, let's implement a simple surgical edit that works
-    // This is a temporary implementation until we fix the DeepSeek integration
-    console.log('⚡ Performing simple surgical edit...');
-    
-    let updatedCode = currentCode;
-    const lowerInstruction = editInstruction.toLowerCase();
-    
-    // Simple text replacements for common surgical edits
-    if (lowerInstruction.includes('rename') || lowerInstruction.includes('change text')) {
-      // Extract what to change and what to change it to
-      const changeMatch = editInstruction.match(/(?:rename|change.*text.*to|update.*to|modify.*to)\s*['"]([^'"]+)['"].*['"]([^'"]+)['"]/i);
-      if (changeMatch) {
-        const [, oldText, newText] = changeMatch;
-        updatedCode = currentCode.replace(new RegExp(oldText, 'gi'), newText);
-        console.log(`🔄 Replaced "${oldText}" with "${newText}"`);
+    if (projectId && !(await authorizeProject(req, res, projectId, WorkspaceRole.EDITOR))) {
+      return;
+    }
+
+    console.log('⚡ Performing surgical edit...');
+    let result;
+    try {
+      result = await surgicalEditService().applySurgicalEdit(currentCode, editInstruction, {
+        ...(selector && { selector })
+      });
+    } catch (error) {
+      if (error instanceof SurgicalEditRejectedError) {
+        console.log(`⚠️ Surgical edit rejected (${error.message}), requiring full regeneration`);
+        res.status(400).json({
+          error: 'Could not apply surgical edit',
+          message: error.message,
+          suggestion: 'This change requires full regeneration. Please use the main refinement feature instead.',
+          requiresFullRegeneration: true
+        });
+        return;
       }
-    } else if (lowerInstruction.includes('change color')) {
-      // Simple color changes
-      const colorMatch = editInstruction.match(/change.*color.*to\s*([a-zA-Z-]+)/i);
-      if (colorMatch) {
-        const newColor = colorMatch[1];
-        // Replace common color classes
-        updatedCode = currentCode.replace(/text-\w+-\d+/g, `text-${newColor}-600`);
-        updatedCode = updatedCode.replace(/bg-\w+-\d+/g, `bg-${newColor}-500`);
-        console.log(`🎨 Changed colors to ${newColor}`);
+      if (error instanceof InvalidSelectorError) {
+        res.status(400).json({
+          error: 'Invalid selector',
+          message: error.message
+        });
+        return;
       }
+      if (error instanceof SelectorNotFoundError) {
+        res.status(404).json({
+          error: 'Element not found',
+          message: error.message
+        });
+        return;
+      }
+      throw error;
     }
-    
-    // If no changes were made, fall back to full regeneration
-    if (updatedCode === currentCode) {
-      console.log('⚠️ No surgical changes applied, requiring full regeneration');
-      return res.status(400).json({
-        error: 'Could not apply surgical edit',
-        suggestion: 'This change requires full regeneration. Please use the main refinement feature instead.',
-        requiresFullRegeneration: true
-      });
+
+    const saved = await saveEditRevision(
+      result.updatedCode,
+      { trigger: RevisionTrigger.SURGICAL_EDIT, message: editInstruction, authorId: req.user!.id },
+      projectId,
+      elementId,
+      baseRevision
+    );
+    if ('conflict' in saved) {
+      sendConflict(res, saved.conflict);
+      return;
     }
     
     console.log('✅ Surgical edit completed successfully');
-    res.json({
-      updatedCode,
-      patches: [], // TODO: Implement proper diff patches
-      changesSummary: `Applied surgical edit: ${editInstruction}`
-    });
+    res.json({ ...result, ...saved });
     
   } catch (error) {
+    if (error instanceof RevisionNotFoundError) {
+      res.status(404).json({ 
+        error: 'Revision not found',
+        message: error.message
+      });
+      return;
+    }
+
     console.error('❌ Surgical edit error:', error);
     res.status(500).json({ 
       error: 'Failed to apply surgical edit',
@@ -216,11 +484,73 @@ router.post('/surgical-edit', async (req, res) => {
   }
 });
 
+// Deterministic DOM operations (setText, setAttr, addClass, moveBefore, ...) without an LLM
+router.post('/edit-operations', async (req, res) => {
+  try {
+    const { currentCode, operations, projectId, elementId, baseRevision } = req.body;
+
+    if (typeof currentCode !== 'string' || !currentCode) {
+      res.status(400).json({ error: 'Missing required field: currentCode' });
+      return;
+    }
+
+    if (projectId && !(await authorizeProject(req, res, projectId, WorkspaceRole.EDITOR))) {
+      return;
+    }
+
+    let result;
+    try {
+      result = domEditService.applyOperations(currentCode, operations);
+    } catch (error) {
+      if (error instanceof InvalidEditOperationError) {
+        res.status(400).json({ error: 'Invalid edit operation', message: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    const saved = await saveEditRevision(
+      result.updatedCode,
+      {
+        trigger: RevisionTrigger.MANUAL_EDIT,
+        message: `Applied ${result.applied} edit operation(s)`,
+        authorId: req.user!.id
+      },
+      projectId,
+      elementId,
+      baseRevision
+    );
+    if ('conflict' in saved) {
+      sendConflict(res, saved.conflict);
+      return;
+    }
+
+    console.log(`✏️ Applied ${result.applied} edit operation(s)`);
+    res.json({ ...result, ...saved });
+  } catch (error) {
+    if (error instanceof RevisionNotFoundError) {
+      res.status(404).json({ error: 'Revision not found', message: error.message });
+      return;
+    }
+
+    console.error('❌ Edit operations error:', error);
+    res.status(500).json({
+      error: 'Failed to apply edit operations',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Export generated files
 router.post('/export', async (req, res) => {
   try {
     const { projectId, format = 'zip' } = req.body;
     
+    // Viewers may export what they can preview
+    if (!(await authorizeProject(req, res, String(projectId ?? ''), WorkspaceRole.VIEWER))) {
+      return;
+    }
+    
     // TODO: Implement file export
     res.json({ 
       message: 'Export functionality coming soon',
@@ -244,6 +574,8 @@ router.all('*', (req, res) => {
     message: `Generation route ${req.method} ${req.path} not found`,
     availableRoutes: [
       'POST /plan',
+      'GET /plan/:id',
+      'PUT /plan/:id',
       'PUT /plan/:id/approve', 
       'POST /code',
       'GET /status/:id',
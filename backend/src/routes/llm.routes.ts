@@ -1,16 +1,46 @@
 import { Router } from 'express';
 import { LLMFactory } from '../services/llm-factory.service.js';
+import { requireAdmin } from '../middleware/auth.middleware.js';
 
 const router = Router();
 
 // Initialize services using factory
 const llmFactory = LLMFactory.getInstance();
 
+// Get supported providers
+router.get('/providers', async (req, res) => {
+  try {
+    res.json({
+      current: llmFactory.getConfig().provider,
+      providers: llmFactory.getProviders()
+    });
+  } catch (error) {
+    console.error('Get providers error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get providers',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Get available models
 router.get('/models', async (req, res) => {
   try {
-    const models = llmFactory.getAvailableModels();
-    res.json(models);
+    const { provider } = req.query;
+
+    if (provider === undefined) {
+      res.json(llmFactory.getAvailableModels());
+      return;
+    }
+
+    if (typeof provider !== 'string' || !llmFactory.isValidProvider(provider)) {
+      res.status(400).json({ 
+        error: `Unknown provider: ${provider}` 
+      });
+      return;
+    }
+
+    res.json(llmFactory.getAvailableModels(provider));
   } catch (error) {
     console.error('Get models error:', error);
     res.status(500).json({ 
@@ -20,10 +50,19 @@ router.get('/models', async (req, res) => {
   }
 });
 
-// Update LLM configuration
-router.put('/config', async (req, res) => {
+// Update LLM configuration. The config is shared by every user and carries the
+// server's API key, so only admins may change it
+router.put('/config', requireAdmin, async (req, res) => {
   try {
-    const config = req.body;
+    const { provider, gatewayUrl, model, apiKey, temperature, maxTokens } = req.body;
+    const config = {
+      gatewayUrl,
+      model,
+      ...(provider !== undefined && { provider }),
+      ...(typeof apiKey === 'string' && apiKey && { apiKey }),
+      ...(temperature !== undefined && { temperature }),
+      ...(maxTokens !== undefined && { maxTokens })
+    };
     
     // Validate config
     if (!config.gatewayUrl || !config.model) {
@@ -32,11 +71,18 @@ router.put('/config', async (req, res) => {
       });
     }
 
+    if (config.provider && !llmFactory.isValidProvider(config.provider)) {
+      return res.status(400).json({ 
+        error: `Unknown provider: ${config.provider}` 
+      });
+    }
+
     llmFactory.updateConfig(config);
     
     res.json({ 
       message: 'Configuration updated successfully',
       config: {
+        provider: llmFactory.getConfig().provider,
         gatewayUrl: config.gatewayUrl,
         model: config.model,
         temperature: config.temperature,
@@ -53,7 +99,7 @@ router.put('/config', async (req, res) => {
 });
 
 // Test LLM connection
-router.post('/test', async (req, res) => {
+router.post('/test', requireAdmin, async (req, res) => {
   try {
     const testResult = await llmFactory.testConnection();
     
@@ -1,20 +1,81 @@
 import { Router } from 'express';
 import { ProjectRepository } from '../repositories/project.repository.js';
 import { CodeSectionRepository } from '../repositories/code-section.repository.js';
+import { GenerationPlanRepository } from '../repositories/generation-plan.repository.js';
+import { ThemeService, InvalidThemeError } from '../services/theme.service.js';
+import { CodeOrganizationService } from '../services/code-organization.service.js';
+import { RevisionService, RevisionNotFoundError, COMPLETE_ELEMENT_ID } from '../services/revision.service.js';
+import { VariantService, InvalidVariantError } from '../services/variant.service.js';
+import { MergeService } from '../services/merge.service.js';
+import { ProjectStructure } from '../types/generation.js';
+import { WorkspaceService, InvalidWorkspaceError, InsufficientRoleError } from '../services/workspace.service.js';
+import { CommentService, InvalidCommentError } from '../services/comment.service.js';
+import { CommentThread, ProjectStatus, RevisionTrigger, UpdateProjectInput, WorkspaceRole } from '../types/database.js';
+import { loadProjectAccess, requireRole } from '../middleware/auth.middleware.js';
+import { WSServer } from '../websocket/websocket-server.js';
+import { WS_EVENTS } from '../types/websocket.js';
 
 const router = Router();
 
 // Initialize repositories
 const projectRepo = new ProjectRepository();
 const codeSectionRepo = new CodeSectionRepository();
+const planRepo = new GenerationPlanRepository();
+const codeOrganizationService = new CodeOrganizationService();
+const revisionService = new RevisionService();
+const themeService = new ThemeService(projectRepo, codeSectionRepo, revisionService);
+const variantService = new VariantService(projectRepo, codeSectionRepo, planRepo, revisionService);
+const mergeService = new MergeService(revisionService);
+const workspaceService = new WorkspaceService(undefined, projectRepo, variantService);
+const commentService = new CommentService(undefined, revisionService);
 
-// Get all projects (for hardcoded user)
+// Pushes comment threads to project rooms, and sends out of them whoever lost
+// access, once WebSocket is available
+let wsService: WSServer | null = null;
+
+export const initializeProjectNotifications = (ws: WSServer) => {
+  wsService = ws;
+};
+
+const broadcastThread = (projectId: string, thread: CommentThread) => {
+  wsService?.sendToProject(projectId, WS_EVENTS.COMMENT_THREAD, thread);
+};
+
+// Revision numbers arrive as path or query strings
+const parseVersion = (value: unknown): number | null => {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+// Every /:id route below only sees projects in the user's workspaces; viewers
+// can read, editors can change, owners can also delete and move projects
+router.param('id', loadProjectAccess);
+// Project fields PUT /:id may change; the workspace, creator and variant lineage stay put
+const UPDATABLE_PROJECT_FIELDS = ['name', 'description', 'prompt', 'preferences', 'status'] as const;
+
+const canEdit = requireRole(WorkspaceRole.EDITOR);
+const isOwner = requireRole(WorkspaceRole.OWNER);
+
+// Get the projects of the user's workspaces, or of one with ?workspaceId=
 router.get('/', async (req, res) => {
   try {
-    const userId = 'hardcoded-user'; // TODO: Get from auth
-    const projects = await projectRepo.findByUserId(userId);
+    const { workspaceId } = req.query;
+    const workspaces = await workspaceService.list(req.user!.id);
+    const visible = typeof workspaceId === 'string'
+      ? workspaces.filter(workspace => workspace.id === workspaceId)
+      : workspaces;
+    
+    if (typeof workspaceId === 'string' && visible.length === 0) {
+      res.status(404).json({ 
+        error: 'Workspace not found' 
+      });
+      return;
+    }
+    
+    const roles = new Map(visible.map(workspace => [workspace.id, workspace.role]));
+    const projects = await projectRepo.findByWorkspaceIds(visible.map(workspace => workspace.id));
     
-    res.json(projects);
+    res.json(projects.map(project => ({ ...project, role: roles.get(project.workspaceId) })));
   } catch (error) {
     console.error('Get projects error:', error);
     res.status(500).json({ 
@@ -27,8 +88,8 @@ router.get('/', async (req, res) => {
 // Create new project
 router.post('/', async (req, res) => {
   try {
-    const { name, description, prompt, preferences } = req.body;
-    const userId = 'hardcoded-user'; // TODO: Get from auth
+    const { name, description, prompt, preferences, workspaceId } = req.body;
+    const userId = req.user!.id;
     
     if (!name || !prompt) {
       return res.status(400).json({ 
@@ -38,6 +99,7 @@ router.post('/', async (req, res) => {
 
     const project = await projectRepo.create({
       userId,
+      workspaceId: await workspaceService.workspaceForNewProject(req.user!, workspaceId),
       name,
       description,
       prompt,
@@ -47,6 +109,19 @@ router.post('/', async (req, res) => {
     
     res.status(201).json(project);
   } catch (error) {
+    if (error instanceof InvalidWorkspaceError) {
+      return res.status(400).json({ 
+        error: 'Invalid workspace',
+        message: error.message
+      });
+    }
+    if (error instanceof InsufficientRoleError) {
+      return res.status(403).json({ 
+        error: 'Forbidden',
+        message: error.message
+      });
+    }
+
     console.error('Create project error:', error);
     res.status(500).json({ 
       error: 'Failed to create project',
@@ -67,7 +142,8 @@ router.get('/:id', async (req, res) => {
       });
     }
     
-    res.json(project);
+    // The caller's role, so clients can hide what they are not allowed to do
+    res.json({ ...project, role: req.accessRole });
   } catch (error) {
     console.error('Get project error:', error);
     res.status(500).json({ 
@@ -78,12 +154,21 @@ router.get('/:id', async (req, res) => {
 });
 
 // Update project
-router.put('/:id', async (req, res) => {
+router.put('/:id', canEdit, async (req, res) => {
   try {
     const { id } = req.params;
-    const updates = req.body;
+    const updates: Record<string, unknown> = {};
+    for (const field of UPDATABLE_PROJECT_FIELDS) {
+      if (req.body[field] !== undefined) updates[field] = req.body[field];
+    }
     
-    const project = await projectRepo.update(id, updates);
+    if (updates.status !== undefined && !Object.values(ProjectStatus).includes(updates.status as ProjectStatus)) {
+      return res.status(400).json({ 
+        error: `Status must be one of: ${Object.values(ProjectStatus).join(', ')}` 
+      });
+    }
+    
+    const project = await projectRepo.update(id, updates as UpdateProjectInput);
     
     if (!project) {
       return res.status(404).json({ 
@@ -102,11 +187,12 @@ router.put('/:id', async (req, res) => {
 });
 
 // Delete project
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', isOwner, async (req, res) => {
   try {
     const { id } = req.params;
     
     await projectRepo.delete(id);
+    wsService?.refreshAccess({ projectId: id });
     
     res.json({ 
       message: 'Project deleted successfully' 
@@ -137,7 +223,7 @@ router.get('/:id/sections', async (req, res) => {
 });
 
 // Add code section to project
-router.post('/:id/sections', async (req, res) => {
+router.post('/:id/sections', canEdit, async (req, res) => {
   try {
     const { id } = req.params;
     const { sectionName, sectionType, codeContent, documentation } = req.body;
@@ -148,14 +234,21 @@ router.post('/:id/sections', async (req, res) => {
       });
     }
 
-    const section = await codeSectionRepo.create({
-      projectId: id,
-      sectionName,
-      sectionType,
-      codeContent,
-      documentation,
-      orderIndex: 0
-    });
+    // The page replaces the project's complete-html section and is saved with its revision
+    const section = sectionName === COMPLETE_ELEMENT_ID
+      ? (await revisionService.overwriteCompleteHTML(id, codeContent, {
+          trigger: RevisionTrigger.MANUAL_EDIT,
+          message: 'Saved from the editor',
+          authorId: req.user!.id
+        })).section
+      : await codeSectionRepo.create({
+          projectId: id,
+          sectionName,
+          sectionType,
+          codeContent,
+          documentation,
+          orderIndex: 0
+        });
     
     res.status(201).json(section);
   } catch (error) {
@@ -167,6 +260,472 @@ router.post('/:id/sections', async (req, res) => {
   }
 });
 
+// Get plan versions for project, newest first
+router.get('/:id/plans', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const plans = await planRepo.findByProjectId(id);
+    
+    res.json(plans.map(plan => ({
+      id: plan.id,
+      version: plan.version,
+      approved: plan.approved,
+      createdAt: plan.createdAt
+    })));
+  } catch (error) {
+    console.error('Get plans error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get plans',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Get project theme, extracted from the generated sections on first use
+router.get('/:id/theme', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const theme = await themeService.getTheme(id);
+    
+    if (!theme) {
+      res.status(404).json({ 
+        error: 'Project not found' 
+      });
+      return;
+    }
+    
+    res.json(theme);
+  } catch (error) {
+    console.error('Get theme error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get theme',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Re-extract project theme from the current code sections
+router.post('/:id/theme/extract', canEdit, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const theme = await themeService.extractProjectTheme(id);
+    
+    if (!theme) {
+      res.status(404).json({ 
+        error: 'Project not found' 
+      });
+      return;
+    }
+    
+    res.json(theme);
+  } catch (error) {
+    console.error('Extract theme error:', error);
+    res.status(500).json({ 
+      error: 'Failed to extract theme',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Update project theme and re-apply it to every code section
+router.put('/:id/theme', canEdit, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = await themeService.updateTheme(id, req.body, req.user!.id);
+    
+    if (!result) {
+      res.status(404).json({ 
+        error: 'Project not found' 
+      });
+      return;
+    }
+    
+    res.json(result);
+  } catch (error) {
+    if (error instanceof InvalidThemeError) {
+      res.status(400).json({ 
+        error: 'Invalid theme',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Update theme error:', error);
+    res.status(500).json({ 
+      error: 'Failed to update theme',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// List the revision history of the project's complete HTML, newest first
+router.get('/:id/revisions', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const revisions = await revisionService.list(id);
+    
+    res.json(revisions);
+  } catch (error) {
+    console.error('Get revisions error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get revisions',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Diff two revisions: GET /:id/revisions/diff?from=3&to=5
+router.get('/:id/revisions/diff', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const from = parseVersion(req.query.from);
+    const to = parseVersion(req.query.to);
+    
+    if (from === null || to === null) {
+      res.status(400).json({ 
+        error: 'Query parameters from and to must be revision numbers' 
+      });
+      return;
+    }
+    
+    const diff = await revisionService.diff(id, from, to);
+    res.json(diff);
+  } catch (error) {
+    if (error instanceof RevisionNotFoundError) {
+      res.status(404).json({ 
+        error: 'Revision not found',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Diff revisions error:', error);
+    res.status(500).json({ 
+      error: 'Failed to diff revisions',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Get one revision, including its HTML snapshot
+router.get('/:id/revisions/:version', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const version = parseVersion(req.params.version);
+    
+    if (version === null) {
+      res.status(400).json({ 
+        error: 'Invalid revision number' 
+      });
+      return;
+    }
+    
+    const revision = await revisionService.get(id, version);
+    res.json(revision);
+  } catch (error) {
+    if (error instanceof RevisionNotFoundError) {
+      res.status(404).json({ 
+        error: 'Revision not found',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Get revision error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get revision',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Restore a revision as the project's current HTML; recorded as a new revision
+router.post('/:id/revisions/:version/restore', canEdit, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const version = parseVersion(req.params.version);
+    
+    if (version === null) {
+      res.status(400).json({ 
+        error: 'Invalid revision number' 
+      });
+      return;
+    }
+    
+    const result = await revisionService.restore(id, version, {
+      message: req.body?.message,
+      authorId: req.user!.id
+    });
+    res.json(result);
+  } catch (error) {
+    if (error instanceof RevisionNotFoundError) {
+      res.status(404).json({ 
+        error: 'Revision not found',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Restore revision error:', error);
+    res.status(500).json({ 
+      error: 'Failed to restore revision',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// List the project's family of variants, the original first
+router.get('/:id/variants', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const variants = await variantService.list(id);
+    
+    if (variants.length === 0) {
+      res.status(404).json({ 
+        error: 'Project not found' 
+      });
+      return;
+    }
+    
+    res.json(variants);
+  } catch (error) {
+    console.error('Get variants error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get variants',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Fork a revision of the project into a named variant
+router.post('/:id/variants', canEdit, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, revision } = req.body;
+    const version = revision === undefined || revision === null ? undefined : parseVersion(revision);
+    
+    if (version === null) {
+      res.status(400).json({ 
+        error: 'Invalid revision number' 
+      });
+      return;
+    }
+    
+    const variant = await variantService.fork(id, {
+      name,
+      authorId: req.user!.id,
+      ...(version !== undefined && { revision: version })
+    });
+    
+    if (!variant) {
+      res.status(404).json({ 
+        error: 'Project not found' 
+      });
+      return;
+    }
+    
+    res.status(201).json(variant);
+  } catch (error) {
+    if (error instanceof InvalidVariantError) {
+      res.status(400).json({ 
+        error: 'Invalid variant',
+        message: error.message
+      });
+      return;
+    }
+    if (error instanceof RevisionNotFoundError) {
+      res.status(404).json({ 
+        error: 'Revision not found',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Fork variant error:', error);
+    res.status(500).json({ 
+      error: 'Failed to fork variant',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Share the project with a team by moving it, with its variants, into another workspace
+router.put('/:id/workspace', isOwner, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { workspaceId } = req.body;
+    
+    const projects = await workspaceService.moveProject(id, workspaceId, req.user!);
+    for (const project of projects) {
+      wsService?.refreshAccess({ projectId: project.id });
+    }
+    
+    res.json({ 
+      workspaceId,
+      projects 
+    });
+  } catch (error) {
+    if (error instanceof InvalidWorkspaceError) {
+      res.status(400).json({ 
+        error: 'Invalid workspace',
+        message: error.message
+      });
+      return;
+    }
+    if (error instanceof InsufficientRoleError) {
+      res.status(403).json({ 
+        error: 'Forbidden',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Move project error:', error);
+    res.status(500).json({ 
+      error: 'Failed to move project',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// List the project's open comment threads, or all of them with ?includeResolved=true.
+// Viewers can comment too; reviewing is what they are invited for
+router.get('/:id/comments', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const threads = await commentService.list(id, req.query.includeResolved === 'true');
+    
+    res.json(threads);
+  } catch (error) {
+    console.error('Get comments error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get comments',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Start a comment thread on the element `selector` picks out in `revision` (the latest by default)
+router.post('/:id/comments', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { body, selector, revision } = req.body;
+    
+    const thread = await commentService.startThread(id, req.user!, { body, selector, revision });
+    broadcastThread(id, thread);
+    
+    res.status(201).json(thread);
+  } catch (error) {
+    if (error instanceof InvalidCommentError) {
+      res.status(400).json({ 
+        error: 'Invalid comment',
+        message: error.message
+      });
+      return;
+    }
+    if (error instanceof RevisionNotFoundError) {
+      res.status(404).json({ 
+        error: 'Revision not found',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Create comment error:', error);
+    res.status(500).json({ 
+      error: 'Failed to create comment',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Reply to a comment thread
+router.post('/:id/comments/:commentId/replies', async (req, res) => {
+  try {
+    const { id, commentId } = req.params;
+    const thread = await commentService.reply(id, commentId, req.user!, req.body?.body);
+    
+    if (!thread) {
+      res.status(404).json({ 
+        error: 'Comment not found' 
+      });
+      return;
+    }
+    broadcastThread(id, thread);
+    
+    res.status(201).json(thread);
+  } catch (error) {
+    if (error instanceof InvalidCommentError) {
+      res.status(400).json({ 
+        error: 'Invalid comment',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Reply to comment error:', error);
+    res.status(500).json({ 
+      error: 'Failed to reply to comment',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Resolve a comment thread, or reopen it with { resolved: false }
+router.put('/:id/comments/:commentId/resolve', async (req, res) => {
+  try {
+    const { id, commentId } = req.params;
+    const thread = await commentService.setResolved(id, commentId, req.body?.resolved !== false);
+    
+    if (!thread) {
+      res.status(404).json({ 
+        error: 'Comment not found' 
+      });
+      return;
+    }
+    broadcastThread(id, thread);
+    
+    res.json(thread);
+  } catch (error) {
+    console.error('Resolve comment error:', error);
+    res.status(500).json({ 
+      error: 'Failed to resolve comment',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Get the structure of the project's complete HTML: landmark sections, CSS rules, JS functions and elements
+router.get('/:id/structure', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const sections = await codeSectionRepo.findByProjectId(id);
+    const completeHTML = sections.find(s => s.sectionName === 'complete-html');
+    
+    if (!completeHTML) {
+      res.status(404).json({ 
+        error: 'Complete HTML not found for this project' 
+      });
+      return;
+    }
+    
+    const organized = codeOrganizationService.organizeHTML(completeHTML.codeContent);
+    const structure: ProjectStructure = {
+      sectionId: completeHTML.id,
+      revision: completeHTML.revision,
+      sections: organized.sections,
+      elements: Array.from(organized.elementMap.values())
+    };
+    res.json(structure);
+  } catch (error) {
+    console.error('Get structure error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get project structure',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Get complete HTML for project
 router.get('/:id/html', async (req, res) => {
   try {
@@ -182,6 +741,11 @@ router.get('/:id/html', async (req, res) => {
       });
     }
     
+    // The base revision for edits made to this HTML, see PUT /:id/html
+    const latest = await revisionService.latest(id);
+    if (latest) {
+      res.setHeader('X-Project-Revision', String(latest.version));
+    }
     res.setHeader('Content-Type', 'text/html');
     res.send(completeHTML.codeContent);
   } catch (error) {
@@ -193,4 +757,68 @@ router.get('/:id/html', async (req, res) => {
   }
 });
 
+// Save the complete HTML edited from `baseRevision`, merging in edits saved since.
+// Overlapping changes return 409 with conflicts; resubmit with `resolutions`
+// ({ [conflictId]: 'ours' | 'theirs' }) and the `currentRevision` they were made against
+router.put('/:id/html', canEdit, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { htmlContent, baseRevision, currentRevision, resolutions, message } = req.body;
+    
+    if (typeof htmlContent !== 'string' || !htmlContent) {
+      res.status(400).json({ 
+        error: 'Missing required field: htmlContent' 
+      });
+      return;
+    }
+    
+    const project = await projectRepo.findById(id);
+    if (!project) {
+      res.status(404).json({ 
+        error: 'Project not found' 
+      });
+      return;
+    }
+    
+    const result = await mergeService.commit(id, htmlContent, {
+      trigger: RevisionTrigger.MANUAL_EDIT,
+      message: typeof message === 'string' && message ? message : 'Saved from the editor',
+      authorId: req.user!.id,
+      baseRevision: parseVersion(baseRevision),
+      currentRevision: parseVersion(currentRevision),
+      resolutions: resolutions && typeof resolutions === 'object' ? resolutions : {}
+    });
+    
+    if (result.status === 'conflict') {
+      res.status(409).json({ 
+        error: 'Merge conflict',
+        message: `The project changed since revision ${result.baseRevision} and ${result.conflicts.length} change(s) overlap`,
+        ...result
+      });
+      return;
+    }
+    
+    res.json({
+      status: result.status,
+      revision: result.revision,
+      htmlContent: result.section.codeContent,
+      section: result.section
+    });
+  } catch (error) {
+    if (error instanceof RevisionNotFoundError) {
+      res.status(404).json({ 
+        error: 'Revision not found',
+        message: error.message
+      });
+      return;
+    }
+
+    console.error('Save HTML error:', error);
+    res.status(500).json({ 
+      error: 'Failed to save HTML',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 export { router as projectRoutes };
\ No newline at end of file
@@ -0,0 +1,222 @@
+import { Router, Response } from 'express';
+import { WorkspaceService, InvalidWorkspaceError } from '../services/workspace.service.js';
+import { loadWorkspaceAccess, requireRole } from '../middleware/auth.middleware.js';
+import { WorkspaceRole } from '../types/database.js';
+import { WSServer } from '../websocket/websocket-server.js';
+
+const router = Router();
+
+const workspaceService = new WorkspaceService();
+
+// Downgrades or closes the project rooms of members whose access changed, once WebSocket is available
+let wsService: WSServer | null = null;
+
+export const initializeWorkspaceNotifications = (ws: WSServer) => {
+  wsService = ws;
+};
+
+// Every /:workspaceId route below is only reachable by members
+router.param('workspaceId', loadWorkspaceAccess);
+const isOwner = requireRole(WorkspaceRole.OWNER);
+
+const sendInvalidWorkspace = (res: Response, error: InvalidWorkspaceError) => {
+  res.status(400).json({ 
+    error: 'Invalid workspace request',
+    message: error.message
+  });
+};
+
+// List the signed-in user's workspaces with their role in each
+router.get('/', async (req, res) => {
+  try {
+    const workspaces = await workspaceService.list(req.user!.id);
+    
+    res.json(workspaces);
+  } catch (error) {
+    console.error('Get workspaces error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get workspaces',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Create a workspace owned by the signed-in user
+router.post('/', async (req, res) => {
+  try {
+    const workspace = await workspaceService.create(req.user!, req.body.name);
+    
+    res.status(201).json({ ...workspace, role: WorkspaceRole.OWNER, memberCount: 1 });
+  } catch (error) {
+    if (error instanceof InvalidWorkspaceError) {
+      sendInvalidWorkspace(res, error);
+      return;
+    }
+
+    console.error('Create workspace error:', error);
+    res.status(500).json({ 
+      error: 'Failed to create workspace',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Accept an invite with the code its owner shared and join its workspace
+router.post('/invites/accept', async (req, res) => {
+  try {
+    const member = await workspaceService.acceptInvite(req.body?.token, req.user!);
+    
+    if (!member) {
+      res.status(404).json({ 
+        error: 'Invite not found' 
+      });
+      return;
+    }
+    
+    res.json(member);
+  } catch (error) {
+    console.error('Accept invite error:', error);
+    res.status(500).json({ 
+      error: 'Failed to accept invite',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Members of the workspace; owners also see pending invites
+router.get('/:workspaceId/members', async (req, res) => {
+  try {
+    const { members, invites } = await workspaceService.members(req.params.workspaceId);
+    
+    res.json({ 
+      role: req.accessRole,
+      members,
+      invites: req.accessRole === WorkspaceRole.OWNER ? invites : []
+    });
+  } catch (error) {
+    console.error('Get members error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get members',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Invite an email address as owner, editor or viewer. The response carries the
+// invite code once; the owner passes it on and the invitee accepts with it
+router.post('/:workspaceId/invites', isOwner, async (req, res) => {
+  try {
+    const { email, role } = req.body;
+    
+    const invite = await workspaceService.invite(req.params.workspaceId, req.user!, email, role);
+    
+    res.status(201).json(invite);
+  } catch (error) {
+    if (error instanceof InvalidWorkspaceError) {
+      sendInvalidWorkspace(res, error);
+      return;
+    }
+
+    console.error('Create invite error:', error);
+    res.status(500).json({ 
+      error: 'Failed to create invite',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Revoke a pending invite
+router.delete('/:workspaceId/invites/:inviteId', isOwner, async (req, res) => {
+  try {
+    const revoked = await workspaceService.revokeInvite(req.params.workspaceId, req.params.inviteId);
+    
+    if (!revoked) {
+      res.status(404).json({ 
+        error: 'Invite not found' 
+      });
+      return;
+    }
+    
+    res.json({ 
+      message: 'Invite revoked' 
+    });
+  } catch (error) {
+    console.error('Revoke invite error:', error);
+    res.status(500).json({ 
+      error: 'Failed to revoke invite',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Change a member's role
+router.put('/:workspaceId/members/:userId', isOwner, async (req, res) => {
+  try {
+    const { workspaceId, userId } = req.params;
+    
+    const member = await workspaceService.updateRole(workspaceId, userId, req.body.role);
+    
+    if (!member) {
+      res.status(404).json({ 
+        error: 'Member not found' 
+      });
+      return;
+    }
+    wsService?.refreshAccess({ userId });
+    
+    res.json(member);
+  } catch (error) {
+    if (error instanceof InvalidWorkspaceError) {
+      sendInvalidWorkspace(res, error);
+      return;
+    }
+
+    console.error('Update member error:', error);
+    res.status(500).json({ 
+      error: 'Failed to update member',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Remove a member; any member may remove themselves to leave
+router.delete('/:workspaceId/members/:userId', async (req, res) => {
+  try {
+    const { workspaceId, userId } = req.params;
+    
+    if (userId !== req.user!.id && req.accessRole !== WorkspaceRole.OWNER) {
+      res.status(403).json({ 
+        error: 'Forbidden',
+        message: 'Only owners can remove other members'
+      });
+      return;
+    }
+    
+    const removed = await workspaceService.removeMember(workspaceId, userId);
+    
+    if (!removed) {
+      res.status(404).json({ 
+        error: 'Member not found' 
+      });
+      return;
+    }
+    wsService?.refreshAccess({ userId });
+    
+    res.json({ 
+      message: 'Member removed' 
+    });
+  } catch (error) {
+    if (error instanceof InvalidWorkspaceError) {
+      sendInvalidWorkspace(res, error);
+      return;
+    }
+
+    console.error('Remove member error:', error);
+    res.status(500).json({ 
+      error: 'Failed to remove member',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export { router as workspaceRoutes };
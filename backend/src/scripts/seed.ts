@@ -1,5 +1,9 @@
 import { prisma } from '../lib/database.js';
-import { ProjectStatus, SectionType } from '../types/database.js';
+import { ProjectStatus, SectionType, WorkspaceRole } from '../types/database.js';
+import { AuthService } from '../services/auth.service.js';
+
+// Sign-in password of the seeded user
+const DEFAULT_PASSWORD = process.env.SEED_USER_PASSWORD || 'prototype-demo';
 
 async function main() {
   console.log('🌱 Starting database seed...');
@@ -12,6 +16,7 @@ async function main() {
       id: 'user-12345', // Hardcoded user ID for MVP
       email: 'user@example.com',
       name: 'Default User',
+      passwordHash: await new AuthService().hashPassword(DEFAULT_PASSWORD),
       preferences: {
         defaultModel: 'deepseek-chat',
         outputType: 'html-js',
@@ -20,12 +25,28 @@ async function main() {
     },
   });
 
-  console.log('✅ Created default user:', defaultUser.email);
+  console.log('✅ Created default user:', defaultUser.email, `(password: ${DEFAULT_PASSWORD})`);
+
+  // Projects belong to workspaces; give the default user one of their own
+  const workspace = await prisma.workspace.upsert({
+    where: { id: `personal-${defaultUser.id}` },
+    update: {},
+    create: {
+      id: `personal-${defaultUser.id}`,
+      name: `${defaultUser.name}'s workspace`,
+      members: {
+        create: { userId: defaultUser.id, role: WorkspaceRole.OWNER },
+      },
+    },
+  });
+
+  console.log('✅ Created default workspace:', workspace.name);
 
   // Create a sample project
   const sampleProject = await prisma.project.create({
     data: {
       userId: defaultUser.id,
+      workspaceId: workspace.id,
       name: 'Sample Landing Page',
       description: 'A beautiful landing page with hero section and features',
       prompt: 'Create a modern landing page for a SaaS product with a hero section, features grid, and contact form',
@@ -0,0 +1,145 @@
+import axios, { AxiosInstance } from 'axios';
+import { BaseLLMService } from './base-llm.service.js';
+import {
+  LLMMessage,
+  LLMProviderConfig,
+  LLMCompletionOptions,
+  LLMHealthStatus,
+} from '../types/llm.js';
+
+interface AnthropicResponse {
+  id: string;
+  type: string;
+  role: string;
+  content: {
+    type: string;
+    text?: string;
+  }[];
+  stop_reason: string | null;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: {
+    type: string;
+    text?: string;
+  };
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+/**
+ * Adapter for the Anthropic-style `/messages` API, where the system prompt is a
+ * top-level field rather than a message and streaming uses typed SSE events.
+ */
+export class AnthropicService extends BaseLLMService {
+  readonly name = 'Anthropic API';
+  private client: AxiosInstance;
+
+  constructor(config: LLMProviderConfig) {
+    super(config);
+    this.client = axios.create({
+      baseURL: config.apiUrl,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION,
+      },
+      timeout: 60000, // 60 seconds timeout
+    });
+  }
+
+  protected async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<string> {
+    const response = await this.client.post<AnthropicResponse>(
+      '/messages',
+      this.createRequestBody(messages, options, false),
+      { ...(options.timeout && { timeout: options.timeout }) }
+    );
+
+    return response.data.content
+      .map(block => block.text || '')
+      .join('');
+  }
+
+  protected async *streamComplete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    const response = await this.client.post(
+      '/messages',
+      this.createRequestBody(messages, options, true),
+      {
+        responseType: 'stream',
+        ...(options.timeout && { timeout: options.timeout }),
+        ...(options.signal && { signal: options.signal }),
+      }
+    );
+
+    for await (const line of this.readLines(response.data)) {
+      if (!line.startsWith('data: ')) continue;
+
+      let event: AnthropicStreamEvent;
+      try {
+        event = JSON.parse(line.slice(6).trim());
+      } catch (e) {
+        // Skip invalid JSON lines
+        continue;
+      }
+
+      if (event.type === 'message_stop') return;
+      if (event.type === 'error') {
+        throw new Error(event.error?.message || 'Anthropic stream error');
+      }
+      if (event.type === 'content_block_delta' && event.delta?.text) {
+        yield event.delta.text;
+      }
+    }
+  }
+
+  async healthCheck(): Promise<LLMHealthStatus> {
+    try {
+      await this.client.post('/messages', {
+        model: this.config.model,
+        messages: [{ role: 'user', content: 'test' }],
+        max_tokens: 1,
+      }, { timeout: 5000 });
+
+      return {
+        status: 'healthy',
+        details: `Connected to ${this.config.model} via ${this.name}`,
+      };
+    } catch (error: any) {
+      return {
+        status: 'unhealthy',
+        details: this.describeError(error),
+      };
+    }
+  }
+
+  private createRequestBody(messages: LLMMessage[], options: LLMCompletionOptions, stream: boolean) {
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    return {
+      model: this.config.model,
+      ...(system && { system }),
+      messages: messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({ role: message.role, content: message.content })),
+      // Anthropic caps temperature at 1
+      temperature: Math.min(options.temperature ?? this.config.temperature, 1),
+      max_tokens: options.maxTokens ?? this.config.maxTokens,
+      stream,
+    };
+  }
+}
@@ -0,0 +1,156 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { Prisma } from '@prisma/client';
+import { UserRepository } from '../repositories/user.repository.js';
+import { SessionRepository } from '../repositories/session.repository.js';
+import { User } from '../types/database.js';
+import { AuthSession, AuthUser } from '../types/auth.js';
+
+export class AuthenticationError extends Error {
+  constructor(message = 'Invalid email or password') {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class InvalidRegistrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRegistrationError';
+  }
+}
+
+export class EmailTakenError extends Error {
+  constructor() {
+    super('An account with this email already exists');
+    this.name = 'EmailTakenError';
+  }
+}
+
+export interface RegisterInput {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+const SESSION_TTL_MS = Number(process.env.SESSION_TTL_DAYS || 30) * 24 * 60 * 60 * 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Email/password accounts and the sessions they sign in with. Passwords are
+ * stored as salted scrypt hashes; sessions are random bearer tokens of which
+ * only a SHA-256 hash is kept, so a database leak exposes neither.
+ */
+export class AuthService {
+  constructor(
+    private userRepo: UserRepository = new UserRepository(),
+    private sessionRepo: SessionRepository = new SessionRepository()
+  ) {}
+
+  async register(input: RegisterInput, userAgent?: string): Promise<AuthSession> {
+    const email = this.normalizeEmail(input.email);
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new InvalidRegistrationError('A valid email address is required');
+    }
+    if (typeof input.password !== 'string' || input.password.length < MIN_PASSWORD_LENGTH) {
+      throw new InvalidRegistrationError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    if (await this.userRepo.findByEmail(email)) {
+      throw new EmailTakenError();
+    }
+
+    const name = input.name?.trim() || email.split('@')[0]!;
+    let user: User;
+    try {
+      // Every account starts with a workspace of its own
+      user = await this.userRepo.createWithWorkspace(
+        { email, name, passwordHash: await this.hashPassword(input.password) },
+        `${name}'s workspace`
+      );
+    } catch (error) {
+      // Registered by a concurrent request since the check above
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new EmailTakenError();
+      }
+      throw error;
+    }
+    console.log(`👤 Registered user ${user.id}`);
+
+    return this.startSession(user, userAgent);
+  }
+
+  async login(email: unknown, password: unknown, userAgent?: string): Promise<AuthSession> {
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      throw new AuthenticationError();
+    }
+
+    const user = await this.userRepo.findByEmail(this.normalizeEmail(email));
+    if (!user?.passwordHash || !(await this.verifyPassword(password, user.passwordHash))) {
+      throw new AuthenticationError();
+    }
+
+    return this.startSession(user, userAgent);
+  }
+
+  // The user a session token belongs to, or null when it is unknown or expired
+  async authenticate(token: string | null | undefined): Promise<AuthUser | null> {
+    if (!token) return null;
+
+    const session = await this.sessionRepo.findActiveByTokenHash(this.hashToken(token));
+    return session ? this.toAuthUser(session.user) : null;
+  }
+
+  async logout(token: string): Promise<void> {
+    await this.sessionRepo.deleteByTokenHash(this.hashToken(token));
+  }
+
+  async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const key = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+  }
+
+  private async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'base64');
+    const key = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+    return timingSafeEqual(key, expected);
+  }
+
+  private async startSession(user: User, userAgent?: string): Promise<AuthSession> {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+    await this.sessionRepo.create({
+      userId: user.id,
+      tokenHash: this.hashToken(token),
+      userAgent: userAgent?.slice(0, 255) ?? null,
+      expiresAt,
+    });
+
+    return { user: this.toAuthUser(user), token, expiresAt };
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private normalizeEmail(email: string): string {
+    return typeof email === 'string' ? email.trim().toLowerCase() : '';
+  }
+
+  private toAuthUser(user: User): AuthUser {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      avatarUrl: user.avatarUrl,
+    };
+  }
+}
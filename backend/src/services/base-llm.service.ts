@@ -0,0 +1,486 @@
+import {
+  LLMMessage,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMCompletionOptions,
+  LLMHealthStatus,
+  GenerationPreferences,
+  GenerationPlanData,
+  CodeStreamOptions,
+} from '../types/llm.js';
+import { GenerationCancelledError } from '../utils/generation-control.js';
+import { PromptTemplates } from '../utils/prompt-templates.js';
+import { ComponentName } from '../utils/component-name.js';
+
+/**
+ * Shared prompt construction, retry and fallback behaviour for all LLM providers.
+ * Subclasses only implement the wire protocol: a single completion, a streamed
+ * completion and a health check.
+ */
+export abstract class BaseLLMService implements LLMProvider {
+  abstract readonly name: string;
+  protected config: LLMProviderConfig;
+  // Rethrow once retries run out instead of returning fallback content
+  protected strict = false;
+  // Unit of the backoff between retries
+  protected retryDelayMs = 1000;
+
+  constructor(config: LLMProviderConfig) {
+    this.config = config;
+  }
+
+  protected abstract complete(messages: LLMMessage[], options?: LLMCompletionOptions): Promise<string>;
+
+  protected abstract streamComplete(
+    messages: LLMMessage[],
+    options?: LLMCompletionOptions
+  ): AsyncGenerator<string, void, unknown>;
+
+  abstract healthCheck(): Promise<LLMHealthStatus>;
+
+  async generatePlan(
+    prompt: string,
+    preferences: GenerationPreferences,
+    retries = 3
+  ): Promise<GenerationPlanData> {
+    const systemPrompt = this.createPlanningSystemPrompt(preferences);
+    const userPrompt = this.createPlanningUserPrompt(prompt, preferences);
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ];
+
+    for (let attempt = 1; attempt <= retries; attempt++) {
+      try {
+        const content = await this.complete(messages);
+        if (!content) {
+          throw new Error(`No content received from ${this.name}`);
+        }
+
+        return this.parsePlanResponse(content);
+      } catch (error: any) {
+        console.error(`Error generating plan (attempt ${attempt}/${retries}):`, error);
+
+        if (attempt === retries) {
+          if (this.strict) throw error;
+
+          // On final attempt, return fallback plan
+          console.warn('All retries failed, returning fallback plan');
+          return this.createFallbackPlan();
+        }
+
+        // Wait before retry (exponential backoff)
+        await this.delay(Math.pow(2, attempt) * this.retryDelayMs);
+      }
+    }
+
+    // This should never be reached, but TypeScript requires it
+    return this.createFallbackPlan();
+  }
+
+  async *generateCodeStream(
+    plan: GenerationPlanData,
+    sectionName: string,
+    preferences: GenerationPreferences,
+    options: CodeStreamOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    const { signal, context } = options;
+    const systemPrompt = this.createCodeGenerationSystemPrompt(preferences);
+    const userPrompt = this.createCodeGenerationUserPrompt(plan, sectionName, preferences, context);
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ];
+
+    let retryCount = 0;
+    const maxRetries = 2;
+
+    while (retryCount <= maxRetries) {
+      try {
+        let hasYieldedContent = false;
+
+        for await (const content of this.streamComplete(messages, {
+          timeout: 30000,
+          ...(signal && { signal }),
+        })) {
+          if (content) {
+            hasYieldedContent = true;
+            yield content;
+          }
+        }
+
+        // If we successfully processed the stream, return
+        if (hasYieldedContent) {
+          return;
+        }
+
+        throw new Error('No content received from stream');
+      } catch (error: any) {
+        // A cancelled run must not be retried or padded with fallback code
+        if (signal?.aborted) {
+          throw new GenerationCancelledError();
+        }
+
+        console.error(`Error generating code stream (attempt ${retryCount + 1}/${maxRetries + 1}):`, error);
+        retryCount++;
+
+        if (retryCount > maxRetries) {
+          if (this.strict) throw error;
+
+          // Yield fallback content on final failure
+          const fallbackContent = this.generateFallbackCode(sectionName, preferences);
+          for (const char of fallbackContent) {
+            yield char;
+            await this.delay(10); // Simulate streaming
+          }
+          return;
+        }
+
+        // Wait before retry
+        await this.delay(this.retryDelayMs * retryCount);
+      }
+    }
+  }
+
+  async generateDocumentation(
+    codeContent: string,
+    componentName: string,
+    preferences: GenerationPreferences,
+    retries = 2
+  ): Promise<string> {
+    const systemPrompt = this.createDocumentationSystemPrompt();
+    const userPrompt = this.createDocumentationUserPrompt(codeContent, componentName, preferences);
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ];
+
+    for (let attempt = 1; attempt <= retries; attempt++) {
+      try {
+        return await this.complete(messages, {
+          temperature: 0.3, // Lower temperature for documentation
+          maxTokens: 1000,
+        });
+      } catch (error: any) {
+        console.error(`Error generating documentation (attempt ${attempt}/${retries}):`, error);
+
+        if (attempt === retries) {
+          if (this.strict) throw error;
+
+          // Return basic fallback documentation
+          return `# ${componentName}\n\nThis component provides ${componentName.toLowerCase()} functionality for the prototype.\n\n## Features\n- Responsive design\n- Modern styling\n- Accessible markup\n\n## Customization\nModify the code to adjust styling, content, and behavior as needed.`;
+        }
+
+        await this.delay(this.retryDelayMs * attempt);
+      }
+    }
+
+    return '';
+  }
+
+  // Generate a simple completion for surgical edits
+  async generateCompletion(prompt: string): Promise<string> {
+    try {
+      console.log(`🤖 Generating completion with ${this.name}...`);
+
+      const completion = await this.complete(
+        [{ role: 'user', content: prompt }],
+        { temperature: 0.1 } // Low temperature for precise edits
+      );
+
+      if (!completion) {
+        throw new Error('No completion generated');
+      }
+
+      console.log('✅ Generated completion successfully');
+      return completion.trim();
+    } catch (error: any) {
+      console.error('❌ Failed to generate completion:', error);
+      throw new Error(`${this.name} completion failed: ${this.describeError(error)}`);
+    }
+  }
+
+  /**
+   * Split a streamed HTTP body into complete lines, buffering partial chunks.
+   */
+  protected async *readLines(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string, void, unknown> {
+    let buffer = '';
+
+    for await (const chunk of stream) {
+      buffer += chunk.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        yield line;
+      }
+    }
+
+    if (buffer.trim()) {
+      yield buffer;
+    }
+  }
+
+  protected describeError(error: any): string {
+    return error.response?.data?.error?.message || error.message || 'Connection failed';
+  }
+
+  protected delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private createPlanningSystemPrompt(preferences: GenerationPreferences): string {
+    return `You are an expert web developer and UI/UX designer. Your task is to create a detailed plan for generating a ${preferences.outputType} prototype.
+
+IMPORTANT: Respond with a valid JSON object that matches this exact structure:
+{
+  "id": "unique-plan-id",
+  "components": [
+    {
+      "id": "component-id",
+      "name": "Component Name",
+      "type": "header|hero|features|form|footer|custom",
+      "description": "Brief description",
+      "features": ["feature1", "feature2"],
+      "estimatedComplexity": "low|medium|high",
+      "dependencies": ["ids of components this one builds on, usually empty"]
+    }
+  ],
+  "architecture": {
+    "structure": "Description of HTML structure",
+    "styling": "Description of CSS approach",
+    "interactions": "Description of JavaScript functionality",
+    "responsive": true
+  },
+  "timeline": {
+    "totalMinutes": 5,
+    "phases": {
+      "planning": 1,
+      "generation": 3,
+      "documentation": 1
+    }
+  },
+  "dependencies": ["tailwindcss", "vanilla-js"]
+}
+
+Focus on creating modern, accessible, and responsive designs using ${preferences.styling} for styling.`;
+  }
+
+  private createPlanningUserPrompt(prompt: string, preferences: GenerationPreferences): string {
+    return `Create a detailed plan for this prototype request:
+
+"${prompt}"
+
+Preferences:
+- Output Type: ${preferences.outputType}
+- Framework: ${preferences.framework}
+- Styling: ${preferences.styling}
+- Responsive: ${preferences.responsive}
+- Accessibility: ${preferences.accessibility}
+
+Generate a comprehensive plan that breaks down the prototype into logical components and provides a clear architecture overview.`;
+  }
+
+  private createCodeGenerationSystemPrompt(preferences: GenerationPreferences): string {
+    return `You are an expert frontend developer. Generate clean, modern, production-ready code for web prototypes.
+
+Requirements:
+- Use ${preferences.styling} for styling
+- Create ${preferences.responsive ? 'responsive' : 'fixed-width'} designs
+- ${preferences.accessibility ? 'Include accessibility features (ARIA labels, semantic HTML)' : ''}
+- Write clean, well-organized code with clear section comments
+- Use modern best practices and semantic HTML
+${preferences.outputType === 'react' ? '- Write React function components in TypeScript (TSX) using hooks for state\n' : ''}${preferences.framework === 'vue' ? '- Write Vue 3 single-file components with <script setup> and the Composition API\n' : ''}- Ensure code is ready to run without additional setup
+
+Output format: Provide only the code without explanations or markdown formatting.`;
+  }
+
+  private createCodeGenerationUserPrompt(
+    plan: GenerationPlanData,
+    sectionName: string,
+    preferences: GenerationPreferences,
+    context?: string
+  ): string {
+    const component = plan.components.find(c => c.name === sectionName);
+    const architecture = `Architecture:
+- Structure: ${plan.architecture.structure}
+- Styling: ${plan.architecture.styling}
+- Interactions: ${plan.architecture.interactions}`;
+
+    if (component) {
+      return `${PromptTemplates.createCodeGenerationPrompt(component, preferences, context)}
+
+${architecture}`;
+    }
+
+    return `Generate the ${sectionName} code based on this plan:
+
+Section: ${sectionName}
+
+${architecture}
+${context ? `\nContext:\n${context}\n` : ''}
+Generate complete, production-ready code for this section that integrates well with the overall architecture.`;
+  }
+
+  private createDocumentationSystemPrompt(): string {
+    return `You are a technical writer specializing in frontend documentation. Create clear, concise documentation for code components.
+
+Focus on:
+- Purpose and functionality
+- Customization instructions
+- Key features and interactions
+- Integration notes
+
+Keep documentation practical and developer-friendly.`;
+  }
+
+  private createDocumentationUserPrompt(
+    codeContent: string,
+    componentName: string,
+    preferences: GenerationPreferences
+  ): string {
+    return `Create documentation for this ${componentName} component:
+
+\`\`\`
+${codeContent}
+\`\`\`
+
+Preferences: ${preferences.outputType}, ${preferences.styling} styling
+
+Provide clear documentation covering the component's purpose, features, and customization options.`;
+  }
+
+  private parsePlanResponse(content: string): GenerationPlanData {
+    try {
+      // Try to extract JSON from the response
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error('No JSON found in response');
+      }
+
+      const parsed = JSON.parse(jsonMatch[0]);
+
+      // Validate required fields
+      if (!parsed.id || !parsed.components || !parsed.architecture || !parsed.timeline) {
+        throw new Error('Invalid plan structure');
+      }
+
+      return parsed as GenerationPlanData;
+    } catch (error) {
+      console.error('Error parsing plan response:', error);
+      if (this.strict) throw error;
+
+      // Return a fallback plan
+      return this.createFallbackPlan();
+    }
+  }
+
+  private createFallbackPlan(): GenerationPlanData {
+    return {
+      id: `plan-${Date.now()}`,
+      components: [
+        {
+          id: 'header',
+          name: 'Header Navigation',
+          type: 'header',
+          description: 'Responsive navigation header',
+          features: ['Logo', 'Navigation menu', 'Mobile hamburger'],
+          estimatedComplexity: 'medium',
+        },
+        {
+          id: 'main-content',
+          name: 'Main Content',
+          type: 'custom',
+          description: 'Primary content area',
+          features: ['Content sections', 'Responsive layout'],
+          estimatedComplexity: 'medium',
+        },
+      ],
+      architecture: {
+        structure: 'Semantic HTML5 with proper sectioning',
+        styling: 'TailwindCSS utility classes',
+        interactions: 'Vanilla JavaScript for basic interactions',
+        responsive: true,
+      },
+      timeline: {
+        totalMinutes: 5,
+        phases: {
+          planning: 1,
+          generation: 3,
+          documentation: 1,
+        },
+      },
+      dependencies: ['tailwindcss'],
+    };
+  }
+
+  private generateFallbackCode(sectionName: string, preferences: GenerationPreferences): string {
+    const className = sectionName.toLowerCase().replace(/\s+/g, '-');
+
+    if (preferences.framework === 'vue') {
+      return `<template>
+  <section class="py-8 px-4 bg-white">
+    <div class="max-w-4xl mx-auto">
+      <h2 class="text-2xl font-bold text-gray-900 mb-4">${sectionName}</h2>
+      <p class="text-gray-600">This is the ${sectionName.toLowerCase()} section of your prototype.</p>
+    </div>
+  </section>
+</template>`;
+    }
+
+    if (preferences.outputType === 'react') {
+      return `export default function ${ComponentName.fromPlanName(sectionName)}() {
+  return (
+    <section className="py-8 px-4 bg-white">
+      <div className="max-w-4xl mx-auto">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">${sectionName}</h2>
+        <p className="text-gray-600">This is the ${sectionName.toLowerCase()} section of your prototype.</p>
+      </div>
+    </section>
+  );
+}`;
+    }
+
+    if (preferences.styling === 'tailwind') {
+      return `<section class="py-8 px-4 bg-white">
+  <div class="max-w-4xl mx-auto">
+    <h2 class="text-2xl font-bold text-gray-900 mb-4">${sectionName}</h2>
+    <p class="text-gray-600">This is the ${sectionName.toLowerCase()} section of your prototype.</p>
+  </div>
+</section>`;
+    } else {
+      return `<section class="${className}">
+  <div class="container">
+    <h2>${sectionName}</h2>
+    <p>This is the ${sectionName.toLowerCase()} section of your prototype.</p>
+  </div>
+</section>
+
+<style>
+.${className} {
+  padding: 2rem 1rem;
+  background: white;
+}
+
+.${className} .container {
+  max-width: 1200px;
+  margin: 0 auto;
+}
+
+.${className} h2 {
+  font-size: 1.5rem;
+  font-weight: bold;
+  color: #1a1a1a;
+  margin-bottom: 1rem;
+}
+
+.${className} p {
+  color: #666;
+}
+</style>`;
+    }
+  }
+}
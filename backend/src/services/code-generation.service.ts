@@ -1,10 +1,30 @@
 import { LLMService } from './llm.service';
+import { GenerationJobService } from './generation-job.service.js';
+import { GenerationControl, GenerationCancelledError } from '../utils/generation-control.js';
+import { ComponentScheduler } from '../utils/component-scheduler.js';
+import { SectionSummary } from '../utils/section-summary.js';
+import { ReactProjectBuilder } from '../utils/react-project.js';
+import { VueProjectBuilder } from '../utils/vue-project.js';
+import { ComponentName } from '../utils/component-name.js';
+import { ElementPid } from '../utils/element-pid.js';
 import { WSServer } from '../websocket/websocket-server';
 import { GenerationPlan, ComponentPlan } from '../types/generation';
 import { GenerationPlanData, ComponentPlan as LLMComponentPlan, GenerationPreferences as LLMGenerationPreferences } from '../types/llm';
-import { CodeSection } from '../types/database';
+import { CodeSectionRepository } from '../repositories/code-section.repository.js';
+import { RevisionService } from './revision.service.js';
+import { CodeSection, CreateCodeSectionInput, ProjectRevision, RevisionTrigger, SectionType } from '../types/database';
 import { WS_EVENTS } from '../types/websocket';
-import { randomUUID } from 'crypto';
+
+// Element ids of the generated sections that are not plan components
+const BASE_ELEMENT_ID = 'base-html';
+const COMPLETE_ELEMENT_ID = 'complete-html';
+// React and Vue output only: the entry composing every component
+const APP_ELEMENT_ID = 'app';
+
+// Component frameworks emit one module per plan component instead of HTML fragments
+type OutputFramework = 'vanilla' | 'react' | 'vue';
+
+type GeneratedSectionInput = Omit<CreateCodeSectionInput, 'projectId'> & { elementId: string };
 
 interface GenerationPreferences {
   framework?: string;
@@ -15,22 +35,69 @@ interface GenerationPreferences {
   maxTokens?: number;
 }
 
+// Components generated at the same time; each one holds an LLM stream open
+const DEFAULT_CONCURRENCY = 3;
+
 export class CodeGenerationService {
+  private concurrency: number;
+
   constructor(
     private llmService: LLMService,
-    private wsService: WSServer
-  ) {}
+    private wsService: WSServer,
+    private jobService: GenerationJobService = GenerationJobService.getInstance(),
+    private codeRepo: CodeSectionRepository = new CodeSectionRepository(),
+    private revisionService: RevisionService = new RevisionService()
+  ) {
+    const concurrency = parseInt(process.env.GENERATION_CONCURRENCY || '', 10);
+    this.concurrency = concurrency > 0 ? concurrency : DEFAULT_CONCURRENCY;
+  }
 
+  /**
+   * Generates every component of the plan, saving each section as soon as it
+   * is produced. With `resume`, components already saved for the project are
+   * reused and generation continues from the first missing one. Callers
+   * reserve the project with `GenerationJobService.reserve` first.
+   */
   async generateCode(
     plan: GenerationPlan,
     preferences: GenerationPreferences,
     projectId: string,
-    userId: string
+    userId: string,
+    options: { resume?: boolean } = {}
   ): Promise<CodeSection[]> {
+    const framework = this.resolveFramework(preferences);
     const codeSections: CodeSection[] = [];
+    // Sections in the order they finished; summarised into each new component's prompt
+    const finishedSections: CodeSection[] = [];
+    let savedSections: Map<string, CodeSection>;
+    try {
+      savedSections = options.resume
+        ? await this.findSavedSections(projectId)
+        : new Map<string, CodeSection>();
+    } catch (error) {
+      // The run never started, so the project must not stay claimed
+      this.jobService.release(projectId);
+      throw error;
+    }
+    const resumedComponents = plan.components
+      .filter(component => savedSections.has(component.id))
+      .map(component => component.name);
     
+    const control = await this.jobService.startJob(
+      projectId,
+      plan.id,
+      plan.components.length,
+      resumedComponents
+    );
+
     try {
-      console.log(`🚀 Starting code generation for project ${projectId}`);
+      if (options.resume) {
+        console.log(`♻️ Resuming code generation for project ${projectId}: ${resumedComponents.length}/${plan.components.length} components already saved`);
+      } else {
+        // Start from a clean slate; sections added by hand have no element id and are kept
+        await this.codeRepo.deleteGeneratedByProjectId(projectId);
+        console.log(`🚀 Starting code generation for project ${projectId}`);
+      }
       
       // Check WebSocket service
       const connectedClients = this.wsService.getConnectedClients();
@@ -45,28 +112,42 @@ export class CodeGenerationService {
       });
       
       console.log(`📡 Sent start message to ${sentCount} clients`);
-      
-      // Also send to all clients as fallback
-      this.wsService.sendToAll(WS_EVENTS.GENERATION_STREAM, {
-        type: 'generating',
-        content: 'Starting code generation...',
-        isComplete: false,
-        projectId
-      });
 
       // Wait a moment to ensure WebSocket client has joined
       await new Promise(resolve => setTimeout(resolve, 1000));
       
-      // Generate base structure first
-      const baseStructure = await this.generateBaseStructure(preferences, projectId, userId);
-      codeSections.push(...baseStructure);
-
-      // Generate components one by one with streaming
-      for (let i = 0; i < plan.components.length; i++) {
-        const component = plan.components[i];
-        if (!component) continue;
+      // Generate base structure first; component frameworks get an App entry at the end instead
+      const savedBase = savedSections.get(BASE_ELEMENT_ID);
+      if (framework !== 'vanilla') {
+        console.log(`⚛️ Generating ${framework} components`);
+      } else if (savedBase) {
+        codeSections.push(savedBase);
+      } else {
+        await control.checkpoint();
+        this.jobService.startComponent(projectId, BASE_ELEMENT_ID);
+        const baseStructure = await this.generateBaseStructure(preferences, control);
+        codeSections.push(await this.saveSection(projectId, baseStructure));
+      }
+      finishedSections.push(...codeSections);
+      finishedSections.push(...plan.components
+        .map(component => savedSections.get(component.id))
+        .filter((section): section is CodeSection => section !== undefined));
+
+      // Generate components in parallel, each waiting for the components it depends on
+      const scheduler = new ComponentScheduler(this.concurrency);
+      const componentSections = await scheduler.run(plan.components, async (component, i) => {
+        const savedSection = savedSections.get(component.id);
+        if (savedSection) {
+          // Replay the saved component so the client's preview is complete
+          this.sendElementGenerated(projectId, component, savedSection, i);
+          return savedSection;
+        }
+        
+        // Honour pause/cancel requests before starting each component
+        await control.checkpoint();
         
         console.log(`🔧 Generating component: ${component.name}`);
+        this.jobService.startComponent(projectId, component.name);
         
         this.wsService.sendToProject(projectId, WS_EVENTS.GENERATION_STREAM, {
           type: 'generating',
@@ -76,36 +157,59 @@ export class CodeGenerationService {
           isComplete: false
         });
 
-        const componentCode = await this.generateComponent(
+        // Dependencies have always finished by now; siblings running in parallel have not
+        const componentInput = await this.generateComponent(
           component, 
           preferences, 
-          codeSections,
+          i + 1,
           projectId,
-          userId
+          control,
+          SectionSummary.summarize(finishedSections)
         );
+        const componentCode = await this.saveSection(projectId, componentInput);
+        finishedSections.push(componentCode);
         
-        codeSections.push(componentCode);
+        this.jobService.completeComponent(
+          projectId,
+          component.name,
+          componentCode.codeContent + (componentCode.documentation || '')
+        );
 
         // Emit element generated
-        this.wsService.sendToProject(projectId, WS_EVENTS.ELEMENT_GENERATED, {
-          elementId: component.id,
-          elementType: 'component',
-          htmlContent: componentCode.codeContent,
-          documentation: componentCode.documentation || '',
-          position: { 
-            sectionName: component.name, 
-            orderIndex: i 
-          }
-        });
+        this.sendElementGenerated(projectId, component, componentCode, i);
+        return componentCode;
+      });
 
-        // Small delay to show progress
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
+      // Results arrive in plan order, whatever order the components finished in
+      codeSections.push(...componentSections);
 
-      // Generate final organized HTML
+      // Generate final organized HTML, preceded by the App entry for component frameworks
+      await control.checkpoint();
       console.log('🎯 Organizing final code sections');
-      const finalHTML = await this.organizeCodeSections(codeSections, preferences);
-      codeSections.push(finalHTML);
+      this.jobService.setPhase(projectId, 'organizing');
+      const organizedSections = framework === 'vanilla'
+        ? [await this.organizeCodeSections(codeSections, preferences)]
+        : this.organizeComponentSections(codeSections, preferences, framework);
+      let revision: ProjectRevision | null = null;
+      for (const section of organizedSections) {
+        if (section.elementId !== COMPLETE_ELEMENT_ID) {
+          codeSections.push(await this.saveSection(projectId, section));
+          continue;
+        }
+
+        // The page is saved together with its revision
+        const { codeContent, ...page } = section;
+        const committed = await this.revisionService.overwriteCompleteHTML(projectId, codeContent, {
+          trigger: RevisionTrigger.GENERATION,
+          message: `Generated ${plan.components.length} components`,
+          authorId: userId
+        }, { page });
+        codeSections.push(committed.section);
+        revision = committed.revision;
+      }
+      const finalHTML = codeSections[codeSections.length - 1]!;
+      // Clients edit from this revision, see MergeService
+      revision ??= await this.revisionService.latest(projectId);
 
       // Send preview update
       console.log('📡 Sending preview update with HTML length:', finalHTML.codeContent.length);
@@ -114,32 +218,26 @@ export class CodeGenerationService {
         htmlContent: finalHTML.codeContent,
         elementId: 'complete-html'
       });
-      
-      // Also send to all clients as fallback
-      this.wsService.sendToAll(WS_EVENTS.PREVIEW_UPDATE, {
-        projectId,
-        htmlContent: finalHTML.codeContent,
-        elementId: 'complete-html'
-      });
 
       console.log('📡 Sending generation complete with', codeSections.length, 'code sections');
       this.wsService.sendToProject(projectId, WS_EVENTS.GENERATION_COMPLETE, {
         projectId,
         codeSections,
-        message: 'Generation completed successfully!'
-      });
-      
-      // Also send to all clients as fallback
-      this.wsService.sendToAll(WS_EVENTS.GENERATION_COMPLETE, {
-        projectId,
-        codeSections,
+        revision: revision?.version ?? null,
         message: 'Generation completed successfully!'
       });
 
+      await this.jobService.completeJob(projectId);
       console.log(`✅ Code generation completed for project ${projectId}`);
       return codeSections;
     } catch (error) {
+      if (error instanceof GenerationCancelledError || control.isCancelled) {
+        console.log(`🛑 Code generation cancelled for project ${projectId}`);
+        return codeSections;
+      }
+
       console.error(`❌ Code generation error for project ${projectId}:`, error);
+      await this.jobService.failJob(projectId, error instanceof Error ? error.message : 'Unknown error');
       this.wsService.sendToProject(projectId, WS_EVENTS.GENERATION_ERROR, {
         error: error instanceof Error ? error.message : 'Unknown error',
         projectId,
@@ -150,12 +248,47 @@ export class CodeGenerationService {
     }
   }
 
+  private async findSavedSections(projectId: string): Promise<Map<string, CodeSection>> {
+    const sections = await this.codeRepo.findGeneratedByProjectId(projectId);
+    // The organized page and App entry are always rebuilt from the component sections
+    return new Map(
+      sections
+        .filter(section =>
+          section.elementId &&
+          section.elementId !== COMPLETE_ELEMENT_ID &&
+          section.elementId !== APP_ELEMENT_ID
+        )
+        .map(section => [section.elementId!, section])
+    );
+  }
+
+  private async saveSection(projectId: string, section: GeneratedSectionInput): Promise<CodeSection> {
+    const { elementId, ...data } = section;
+    return this.codeRepo.upsertByElementId(projectId, elementId, data);
+  }
+
+  private sendElementGenerated(
+    projectId: string,
+    component: ComponentPlan,
+    section: CodeSection,
+    orderIndex: number
+  ): void {
+    this.wsService.sendToProject(projectId, WS_EVENTS.ELEMENT_GENERATED, {
+      elementId: component.id,
+      elementType: 'component',
+      htmlContent: section.codeContent,
+      documentation: section.documentation || '',
+      position: { 
+        sectionName: component.name, 
+        orderIndex 
+      }
+    });
+  }
+
   private async generateBaseStructure(
     preferences: GenerationPreferences,
-    projectId: string,
-    userId: string
-  ): Promise<CodeSection[]> {
-    const sections: CodeSection[] = [];
+    control: GenerationControl
+  ): Promise<GeneratedSectionInput> {
 
     // Convert preferences to LLM format
     const llmPreferences: LLMGenerationPreferences = {
@@ -181,32 +314,28 @@ export class CodeGenerationService {
       dependencies: ['tailwindcss']
     };
 
-    for await (const chunk of this.llmService.generateCodeStream(mockPlan, 'base-html', llmPreferences)) {
+    for await (const chunk of this.llmService.generateCodeStream(mockPlan, 'base-html', llmPreferences, { signal: control.signal })) {
       htmlContent += chunk;
     }
 
-    sections.push({
-      id: randomUUID(),
-      projectId,
+    return {
       sectionName: 'base-html',
-      sectionType: 'html',
+      sectionType: SectionType.HTML,
       codeContent: this.extractCodeFromResponse(htmlContent),
       documentation: 'Base HTML5 structure with semantic elements',
       orderIndex: 0,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    });
-
-    return sections;
+      elementId: BASE_ELEMENT_ID
+    };
   }
 
   private async generateComponent(
     component: ComponentPlan,
     preferences: GenerationPreferences,
-    existingSections: CodeSection[],
+    orderIndex: number,
     projectId: string,
-    userId: string
-  ): Promise<CodeSection> {
+    control: GenerationControl,
+    context: string
+  ): Promise<GeneratedSectionInput> {
     // Convert component to LLM format
     const llmComponent: LLMComponentPlan = {
       id: component.id,
@@ -217,23 +346,22 @@ export class CodeGenerationService {
       estimatedComplexity: component.estimatedComplexity
     };
 
-    // Convert preferences to LLM format
-    const llmPreferences: LLMGenerationPreferences = {
-      outputType: 'html-js',
-      framework: 'vanilla',
-      styling: preferences.styling === 'tailwind' ? 'tailwind' : 'css',
-      responsive: true,
-      accessibility: true
-    };
+    const framework = this.resolveFramework(preferences);
+    const llmPreferences = this.toLLMPreferences(preferences);
+    const architecture = {
+      vanilla: { structure: 'HTML5 semantic structure', interactions: 'Vanilla JavaScript' },
+      react: { structure: 'React function components', interactions: 'React hooks' },
+      vue: { structure: 'Vue 3 single-file components', interactions: 'Vue Composition API' }
+    }[framework];
 
     // Create a mock plan for the component
     const mockPlan: GenerationPlanData = {
       id: component.id,
       components: [llmComponent],
       architecture: {
-        structure: 'HTML5 semantic structure',
+        structure: architecture.structure,
         styling: preferences.styling || 'tailwind',
-        interactions: 'Vanilla JavaScript',
+        interactions: architecture.interactions,
         responsive: true
       },
       timeline: { totalMinutes: 5, phases: { planning: 1, generation: 3, documentation: 1 } },
@@ -242,10 +370,25 @@ export class CodeGenerationService {
 
     // Generate code using the stream method
     let codeContent = '';
-    for await (const chunk of this.llmService.generateCodeStream(mockPlan, component.name, llmPreferences)) {
+    for await (const chunk of this.llmService.generateCodeStream(mockPlan, component.name, llmPreferences, {
+      signal: control.signal,
+      ...(context && { context })
+    })) {
       codeContent += chunk;
+      // Chunks of parallel components interleave; the element id tells them apart
+      this.wsService.sendToProject(projectId, WS_EVENTS.GENERATION_STREAM, {
+        type: 'generating',
+        content: chunk,
+        elementId: component.id,
+        sectionName: component.name,
+        isComplete: false,
+        delta: true
+      });
     }
 
+    // Skip documentation if the run was cancelled while streaming
+    control.throwIfCancelled();
+
     // Generate documentation
     const documentation = await this.llmService.generateDocumentation(
       codeContent,
@@ -253,27 +396,82 @@ export class CodeGenerationService {
       llmPreferences
     );
 
+    const sectionType = framework === 'vanilla' ? this.inferSectionType(component.type) : SectionType.COMPONENT;
+    const code = this.extractCodeFromResponse(codeContent);
+
     return {
-      id: randomUUID(),
-      projectId,
-      sectionName: component.name.toLowerCase().replace(/\s+/g, '-'),
-      sectionType: this.inferSectionType(component.type),
-      codeContent: this.extractCodeFromResponse(codeContent),
+      sectionName: framework === 'vanilla'
+        ? component.name.toLowerCase().replace(/\s+/g, '-')
+        : ComponentName.fromPlanName(component.name),
+      sectionType,
+      // Stable element ids let edits address elements of the markup
+      codeContent: sectionType === SectionType.HTML ? ElementPid.stamp(code) : code,
       documentation,
-      orderIndex: existingSections.length,
-      createdAt: new Date(),
-      updatedAt: new Date()
+      orderIndex,
+      elementId: component.id
+    };
+  }
+
+  private resolveFramework(preferences: GenerationPreferences): OutputFramework {
+    return preferences.framework === 'react' || preferences.framework === 'vue'
+      ? preferences.framework
+      : 'vanilla';
+  }
+
+  private toLLMPreferences(preferences: GenerationPreferences): LLMGenerationPreferences {
+    const framework = this.resolveFramework(preferences);
+    return {
+      outputType: framework === 'react' ? 'react' : 'html-js',
+      framework,
+      styling: preferences.styling === 'tailwind' ? 'tailwind' : 'css',
+      responsive: true,
+      accessibility: true
     };
   }
 
+  // Builds the App entry and a preview page that compiles the components in the browser
+  private organizeComponentSections(
+    sections: CodeSection[],
+    preferences: GenerationPreferences,
+    framework: Exclude<OutputFramework, 'vanilla'>
+  ): GeneratedSectionInput[] {
+    const modules = sections
+      .filter(section => section.sectionType === SectionType.COMPONENT)
+      .map(section => ({ componentName: section.sectionName, code: section.codeContent }));
+    const componentNames = modules.map(module => module.componentName);
+    const styling = preferences.styling || 'tailwind';
+
+    const builder = framework === 'react' ? ReactProjectBuilder : VueProjectBuilder;
+    const app = builder.createAppEntry(componentNames);
+
+    return [
+      {
+        sectionName: 'App',
+        sectionType: SectionType.COMPONENT,
+        codeContent: app,
+        documentation: 'App entry rendering every component in plan order',
+        orderIndex: 998,
+        elementId: APP_ELEMENT_ID
+      },
+      {
+        sectionName: 'complete-html',
+        sectionType: SectionType.HTML,
+        codeContent: builder.createPreviewDocument(modules, app, styling),
+        documentation: `Preview page that compiles the ${framework === 'react' ? 'React' : 'Vue'} components in the browser`,
+        orderIndex: 999,
+        elementId: COMPLETE_ELEMENT_ID
+      }
+    ];
+  }
+
   private async organizeCodeSections(
     sections: CodeSection[],
     preferences: GenerationPreferences
-  ): Promise<CodeSection> {
+  ): Promise<GeneratedSectionInput> {
     // Combine all sections into organized HTML
-    const htmlSections = sections.filter(s => s.sectionType === 'html');
-    const cssSections = sections.filter(s => s.sectionType === 'style');
-    const jsSections = sections.filter(s => s.sectionType === 'script');
+    const htmlSections = sections.filter(s => s.sectionType === SectionType.HTML);
+    const cssSections = sections.filter(s => s.sectionType === SectionType.STYLE);
+    const jsSections = sections.filter(s => s.sectionType === SectionType.SCRIPT);
 
     let organizedHTML = `<!DOCTYPE html>
 <html lang="en">
@@ -320,21 +518,19 @@ export class CodeGenerationService {
     organizedHTML += '\n</body>\n</html>';
 
     return {
-      id: randomUUID(),
-      projectId: sections[0]?.projectId || '',
       sectionName: 'complete-html',
-      sectionType: 'html',
-      codeContent: organizedHTML,
+      sectionType: SectionType.HTML,
+      // Component markup is already stamped; this covers anything added around it
+      codeContent: ElementPid.stamp(organizedHTML),
       documentation: 'Complete organized HTML with all components',
       orderIndex: 999,
-      createdAt: new Date(),
-      updatedAt: new Date()
+      elementId: COMPLETE_ELEMENT_ID
     };
   }
 
   private extractCodeFromResponse(content: string): string {
     // Extract code from markdown code blocks
-    const codeMatch = content.match(/```(?:html|css|javascript|js)?\n([\s\S]*?)\n```/);
+    const codeMatch = content.match(/```(?:html|css|javascript|js|jsx|tsx|typescript|ts|vue)?\n([\s\S]*?)\n```/);
     return codeMatch && codeMatch[1] ? codeMatch[1].trim() : content.trim();
   }
 
@@ -359,13 +555,13 @@ export class CodeGenerationService {
     }
   }
 
-  private inferSectionType(componentType: string): 'html' | 'style' | 'script' {
+  private inferSectionType(componentType: string): SectionType {
     if (componentType.includes('style') || componentType.includes('css')) {
-      return 'style';
+      return SectionType.STYLE;
     }
     if (componentType.includes('script') || componentType.includes('js')) {
-      return 'script';
+      return SectionType.SCRIPT;
     }
-    return 'html';
+    return SectionType.HTML;
   }
 }
\ No newline at end of file
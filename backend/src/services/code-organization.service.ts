@@ -1,180 +1,222 @@
 import { CodeSection } from '../types/database';
-import { OrganizedHTML, ElementLocation } from '../types/generation';
+import { OrganizedHTML, ElementLocation, HTMLSection, CSSRule, JSFunction } from '../types/generation';
+import { HtmlDocument, HtmlElement } from '../utils/html-document.js';
+import { ElementPid, PID_ATTRIBUTE } from '../utils/element-pid.js';
+import { StyleOutline } from '../utils/style-outline.js';
+import { ScriptOutline } from '../utils/script-outline.js';
+
+type LandmarkName = 'header' | 'navigation' | 'main' | 'footer';
+
+// Landmark elements and their ARIA role equivalents
+const LANDMARKS: Array<{ name: LandmarkName; tag: string; role: string }> = [
+  { name: 'header', tag: 'header', role: 'banner' },
+  { name: 'navigation', tag: 'nav', role: 'navigation' },
+  { name: 'main', tag: 'main', role: 'main' },
+  { name: 'footer', tag: 'footer', role: 'contentinfo' },
+];
+// A <header> or <footer> inside these belongs to that content, not the page
+const SECTIONING_TAGS = new Set(['article', 'aside', 'main', 'nav', 'section']);
+// Script types that hold JavaScript; others (JSON-LD, templates) are data
+const SCRIPT_TYPES = /^(?:|module|(?:text|application)\/(?:java|ecma)script)$/i;
+
+const EDITABLE_TYPES: Array<{ type: string; matches: (tag: string, classes: string[]) => boolean }> = [
+  { type: 'heading', matches: tag => /^h[1-6]$/.test(tag) },
+  { type: 'paragraph', matches: tag => tag === 'p' },
+  { type: 'button', matches: tag => tag === 'button' },
+  { type: 'link', matches: tag => tag === 'a' },
+  { type: 'image', matches: tag => tag === 'img' },
+  { type: 'card', matches: (tag, classes) => tag === 'div' && classes.some(name => name.includes('card')) },
+];
 
 export class CodeOrganizationService {
-  
+
   organizeHTML(htmlContent: string): OrganizedHTML {
-    const sections = this.parseHTMLSections(htmlContent);
-    const elementMap = this.createElementMap(htmlContent);
-    
+    const document = HtmlDocument.parse(htmlContent);
+    const sections = this.parseHTMLSections(document);
+    const elementMap = this.createElementMap(document);
+
     return {
       sections,
       elementMap
     };
   }
 
-  private parseHTMLSections(htmlContent: string): OrganizedHTML['sections'] {
-    const lines = htmlContent.split('\n');
-    const sections: OrganizedHTML['sections'] = {
-      header: { content: '', startLine: 0, endLine: 0, elements: [] },
-      navigation: { content: '', startLine: 0, endLine: 0, elements: [] },
-      main: { content: '', startLine: 0, endLine: 0, elements: [] },
-      footer: { content: '', startLine: 0, endLine: 0, elements: [] },
-      styles: { content: '', startLine: 0, endLine: 0, rules: [] },
-      scripts: { content: '', startLine: 0, endLine: 0, functions: [] }
+  private parseHTMLSections(document: HtmlDocument): OrganizedHTML['sections'] {
+    const landmarks = this.findLandmarks(document);
+    const htmlSection = (name: LandmarkName): HTMLSection => {
+      const element = landmarks.get(name);
+      return element
+        ? { ...this.blockOf(document, [element]), elements: this.extractElements(document, element) }
+        : { content: '', startLine: 0, endLine: 0, startOffset: 0, endOffset: 0, elements: [] };
+    };
+
+    // Inline blocks only; external scripts and stylesheets have no content here
+    const styles = document.elements.filter(element => element.tagName === 'style' && element.sourceCodeLocation);
+    const scripts = document.elements.filter(element =>
+      element.tagName === 'script' && element.sourceCodeLocation && document.attribute(element, 'src') === null
+    );
+
+    return {
+      header: htmlSection('header'),
+      navigation: htmlSection('navigation'),
+      main: htmlSection('main'),
+      footer: htmlSection('footer'),
+      styles: { ...this.blockOf(document, styles), rules: this.extractRules(document, styles) },
+      scripts: { ...this.blockOf(document, scripts), functions: this.extractFunctions(document, scripts) }
+    };
+  }
+
+  private extractRules(document: HtmlDocument, styles: HtmlElement[]): CSSRule[] {
+    return styles.flatMap(style => {
+      const origin = document.innerRangeOf(style).startOffset;
+      return StyleOutline.rules(document.innerHTML(style))
+        .map(rule => ({ ...rule, ...this.spanOf(document, origin + rule.startOffset, origin + rule.endOffset) }));
+    });
+  }
+
+  private extractFunctions(document: HtmlDocument, scripts: HtmlElement[]): JSFunction[] {
+    return scripts.flatMap(script => {
+      const type = (document.attribute(script, 'type') || '').trim();
+      if (!SCRIPT_TYPES.test(type)) return [];
+
+      const origin = document.innerRangeOf(script).startOffset;
+      return ScriptOutline.functions(document.innerHTML(script), { module: type.toLowerCase() === 'module' })
+        .map(fn => ({ ...fn, ...this.spanOf(document, origin + fn.startOffset, origin + fn.endOffset) }));
+    });
+  }
+
+  private spanOf(document: HtmlDocument, startOffset: number, endOffset: number): Omit<HTMLSection, 'content' | 'elements'> {
+    return {
+      startLine: document.lineAt(startOffset),
+      endLine: document.lineAt(Math.max(startOffset, endOffset - 1)),
+      startOffset,
+      endOffset
     };
+  }
 
-    let currentSection = '';
-    let sectionStart = 0;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      // Detect section comments
-      if (line.includes('<!-- HEADER') || line.includes('<header')) {
-        currentSection = 'header';
-        sectionStart = i;
-      } else if (line.includes('<!-- NAVIGATION') || line.includes('<nav')) {
-        currentSection = 'navigation';
-        sectionStart = i;
-      } else if (line.includes('<!-- MAIN') || line.includes('<main')) {
-        currentSection = 'main';
-        sectionStart = i;
-      } else if (line.includes('<!-- FOOTER') || line.includes('<footer')) {
-        currentSection = 'footer';
-        sectionStart = i;
-      } else if (line.includes('<style>')) {
-        currentSection = 'styles';
-        sectionStart = i;
-      } else if (line.includes('<script>')) {
-        currentSection = 'scripts';
-        sectionStart = i;
+  // First element per landmark, so nested landmarks (a nav inside the header) are found too
+  private findLandmarks(document: HtmlDocument): Map<LandmarkName, HtmlElement> {
+    const landmarks = new Map<LandmarkName, HtmlElement>();
+    for (const element of document.elements) {
+      if (!element.sourceCodeLocation) continue;
+      const name = this.landmarkOf(document, element);
+      if (name && !landmarks.has(name)) {
+        landmarks.set(name, element);
       }
+    }
+    return landmarks;
+  }
+
+  private landmarkOf(document: HtmlDocument, element: HtmlElement): LandmarkName | null {
+    const role = document.attribute(element, 'role');
+    const landmark = LANDMARKS.find(candidate => candidate.role === role || candidate.tag === element.tagName);
+    if (!landmark) return null;
 
-      // Detect section end
-      if (line.includes('<!-- END') || 
-          line.includes('</header>') || 
-          line.includes('</nav>') || 
-          line.includes('</main>') || 
-          line.includes('</footer>') ||
-          line.includes('</style>') ||
-          line.includes('</script>')) {
-        
-        if (currentSection && sections[currentSection as keyof typeof sections]) {
-          const section = sections[currentSection as keyof typeof sections];
-          section.startLine = sectionStart;
-          section.endLine = i;
-          section.content = lines.slice(sectionStart, i + 1).join('\n');
-          
-          if (currentSection !== 'styles' && currentSection !== 'scripts') {
-            (section as any).elements = this.extractElements(section.content);
-          }
-        }
-        currentSection = '';
+    if ((element.tagName === 'header' || element.tagName === 'footer') && role === null) {
+      for (let parent = document.parentElement(element); parent; parent = document.parentElement(parent)) {
+        if (SECTIONING_TAGS.has(parent.tagName)) return null;
       }
     }
+    return landmark.name;
+  }
+
+  /**
+   * Span of one or more blocks. Content is the blocks' inner text for <style>
+   * and <script>, the outer HTML otherwise; the range runs from the first block
+   * to the end of the last.
+   */
+  private blockOf(document: HtmlDocument, elements: HtmlElement[]): Omit<HTMLSection, 'elements'> {
+    const first = elements[0];
+    const last = elements[elements.length - 1];
+    if (!first || !last) {
+      return { content: '', startLine: 0, endLine: 0, startOffset: 0, endOffset: 0 };
+    }
+
+    const { startOffset } = document.rangeOf(first);
+    const { endOffset } = document.rangeOf(last);
+    const content = elements
+      .map(element => element.tagName === 'style' || element.tagName === 'script'
+        ? document.innerHTML(element)
+        : document.outerHTML(element))
+      .join('\n');
 
-    return sections;
+    return { content, ...this.spanOf(document, startOffset, endOffset) };
   }
 
-  private createElementMap(htmlContent: string): Map<string, ElementLocation> {
+  private createElementMap(document: HtmlDocument): Map<string, ElementLocation> {
     const elementMap = new Map<string, ElementLocation>();
-    const lines = htmlContent.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      
-      // Look for elements with IDs or classes that can be targeted
-      const idMatch = line.match(/id=["']([^"']+)["']/);
-      const classMatch = line.match(/class=["']([^"']+)["']/);
-      const tagMatch = line.match(/<(\w+)/);
-      
-      if (idMatch || classMatch || tagMatch) {
-        const elementId = idMatch?.[1] || 
-                         classMatch?.[1]?.split(' ')[0] || 
-                         tagMatch?.[1] || 
-                         `element-${i}`;
-        
-        const sectionName = this.determineSectionFromLine(i, lines);
-        
-        elementMap.set(elementId, {
-          sectionName,
-          startLine: i,
-          endLine: this.findElementEndLine(i, lines),
-          elementId,
-          elementType: tagMatch?.[1] || 'div'
-        });
-      }
+
+    for (const element of document.elements) {
+      if (!element.sourceCodeLocation || this.isDocumentScaffolding(document, element)) continue;
+
+      const elementId = this.elementIdOf(document, element);
+      const { startLine, endLine } = document.lineSpanOf(element);
+      const { startOffset, endOffset } = document.rangeOf(element);
+
+      elementMap.set(elementId, {
+        sectionName: this.sectionOf(document, element),
+        startLine,
+        endLine,
+        startOffset,
+        endOffset,
+        elementId,
+        elementType: element.tagName
+      });
     }
-    
+
     return elementMap;
   }
 
-  private extractElements(content: string): Array<{id: string, type: string, content: string}> {
-    const elements: Array<{id: string, type: string, content: string}> = [];
-    const lines = content.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const tagMatch = line.match(/<(\w+)([^>]*)>/);
-      
-      if (tagMatch && !line.includes('</')) {
-        const tag = tagMatch[1];
-        const attributes = tagMatch[2];
-        const idMatch = attributes.match(/id=["']([^"']+)["']/);
-        
-        elements.push({
-          id: idMatch?.[1] || `${tag}-${i}`,
-          type: tag,
-          content: line.trim()
-        });
-      }
-    }
-    
-    return elements;
+  private extractElements(document: HtmlDocument, container: HtmlElement): HTMLSection['elements'] {
+    return document.elements
+      .filter(element => element.sourceCodeLocation && this.isInside(document, element, container))
+      .map(element => ({
+        id: this.elementIdOf(document, element),
+        type: element.tagName,
+        content: document.startTag(element)
+      }));
+  }
+
+  // Elements are keyed by their data-pid, then id; unstamped anonymous elements by position, e.g. `p@160`
+  private elementIdOf(document: HtmlDocument, element: HtmlElement): string {
+    return document.attribute(element, PID_ATTRIBUTE) ||
+      document.attribute(element, 'id') ||
+      `${element.tagName}@${document.rangeOf(element).startOffset}`;
   }
 
-  private determineSectionFromLine(lineIndex: number, lines: string[]): string {
-    // Look backwards to find the section this line belongs to
-    for (let i = lineIndex; i >= 0; i--) {
-      const line = lines[i].toLowerCase();
-      
-      if (line.includes('header') || line.includes('<!-- header')) return 'header';
-      if (line.includes('nav') || line.includes('<!-- nav')) return 'navigation';
-      if (line.includes('main') || line.includes('<!-- main')) return 'main';
-      if (line.includes('footer') || line.includes('<!-- footer')) return 'footer';
-      if (line.includes('<style>')) return 'styles';
-      if (line.includes('<script>')) return 'scripts';
+  private sectionOf(document: HtmlDocument, element: HtmlElement): string {
+    for (let current: HtmlElement | null = element; current; current = document.parentElement(current)) {
+      if (current.tagName === 'style') return 'styles';
+      if (current.tagName === 'script') return 'scripts';
+      const landmark = this.landmarkOf(document, current);
+      if (landmark) return landmark;
     }
-    
+
     return 'main'; // default
   }
 
-  private findElementEndLine(startLine: number, lines: string[]): number {
-    const startTag = lines[startLine].match(/<(\w+)/)?.[1];
-    if (!startTag) return startLine;
-    
-    let depth = 0;
-    for (let i = startLine; i < lines.length; i++) {
-      const line = lines[i];
-      
-      if (line.includes(`<${startTag}`)) depth++;
-      if (line.includes(`</${startTag}>`)) {
-        depth--;
-        if (depth === 0) return i;
-      }
+  private isInside(document: HtmlDocument, element: HtmlElement, container: HtmlElement): boolean {
+    for (let parent = document.parentElement(element); parent; parent = document.parentElement(parent)) {
+      if (parent === container) return true;
+    }
+    return false;
+  }
+
+  private isDocumentScaffolding(document: HtmlDocument, element: HtmlElement): boolean {
+    if (['html', 'head', 'body'].includes(element.tagName)) return true;
+    for (let parent = document.parentElement(element); parent; parent = document.parentElement(parent)) {
+      if (parent.tagName === 'head') return element.tagName !== 'style' && element.tagName !== 'script';
     }
-    
-    return startLine;
+    return false;
   }
 
   generateSectionMap(codeSections: CodeSection[]): Map<string, CodeSection> {
     const sectionMap = new Map<string, CodeSection>();
-    
+
     for (const section of codeSections) {
       sectionMap.set(section.sectionName, section);
     }
-    
+
     return sectionMap;
   }
 
@@ -185,6 +227,7 @@ export class CodeOrganizationService {
     content: string;
     section: string;
   }> {
+    const document = HtmlDocument.parse(htmlContent);
     const elements: Array<{
       id: string;
       selector: string;
@@ -192,54 +235,49 @@ export class CodeOrganizationService {
       content: string;
       section: string;
     }> = [];
-    
-    const lines = htmlContent.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      
-      // Look for common editable elements
-      const editablePatterns = [
-        { pattern: /<h[1-6][^>]*>(.*?)<\/h[1-6]>/, type: 'heading' },
-        { pattern: /<p[^>]*>(.*?)<\/p>/, type: 'paragraph' },
-        { pattern: /<button[^>]*>(.*?)<\/button>/, type: 'button' },
-        { pattern: /<a[^>]*>(.*?)<\/a>/, type: 'link' },
-        { pattern: /<img[^>]*>/, type: 'image' },
-        { pattern: /<div[^>]*class="[^"]*card[^"]*"/, type: 'card' }
-      ];
-      
-      for (const { pattern, type } of editablePatterns) {
-        const match = line.match(pattern);
-        if (match) {
-          const elementId = `${type}-${i}`;
-          const selector = this.generateCSSSelector(line);
-          const section = this.determineSectionFromLine(i, lines);
-          
-          elements.push({
-            id: elementId,
-            selector,
-            type,
-            content: match[1] || match[0],
-            section
-          });
-        }
-      }
+
+    for (const element of document.elements) {
+      if (!element.sourceCodeLocation) continue;
+
+      const classes = (document.attribute(element, 'class') || '').split(/\s+/).filter(Boolean);
+      const editable = EDITABLE_TYPES.find(candidate => candidate.matches(element.tagName, classes));
+      if (!editable) continue;
+
+      elements.push({
+        id: this.elementIdOf(document, element),
+        selector: this.generateCSSSelector(document, element),
+        type: editable.type,
+        content: editable.type === 'image' ? document.outerHTML(element) : document.innerHTML(element).trim(),
+        section: this.sectionOf(document, element)
+      });
     }
-    
+
     return elements;
   }
 
-  private generateCSSSelector(htmlLine: string): string {
-    const idMatch = htmlLine.match(/id=["']([^"']+)["']/);
-    if (idMatch) return `#${idMatch[1]}`;
-    
-    const classMatch = htmlLine.match(/class=["']([^"']+)["']/);
-    if (classMatch) {
-      const firstClass = classMatch[1].split(' ')[0];
-      return `.${firstClass}`;
+  // Unique selector the element selector and edit endpoints resolve the same way
+  private generateCSSSelector(document: HtmlDocument, element: HtmlElement): string {
+    const pid = document.attribute(element, PID_ATTRIBUTE);
+    if (pid) return ElementPid.selector(pid);
+
+    const parts: string[] = [];
+    let current: HtmlElement | null = element;
+    for (; current && current.tagName !== 'body' && current.tagName !== 'html'; current = document.parentElement(current)) {
+      const id = document.attribute(current, 'id');
+      if (id && /^[A-Za-z][\w-]*$/.test(id)) {
+        parts.unshift(`#${id}`);
+        return parts.join(' > ');
+      }
+
+      const parent = document.parentElement(current);
+      const sameTag = parent
+        ? document.elements.filter(sibling => document.parentElement(sibling) === parent && sibling.tagName === current!.tagName)
+        : [current];
+      parts.unshift(sameTag.length > 1 ? `${current.tagName}:nth-of-type(${sameTag.indexOf(current) + 1})` : current.tagName);
     }
-    
-    const tagMatch = htmlLine.match(/<(\w+)/);
-    return tagMatch ? tagMatch[1] : 'div';
+
+    // Anchored at <body> in full documents, matching ElementSelector's paths
+    if (current) parts.unshift(current.tagName);
+    return parts.join(' > ');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,126 @@
+import { CommentRepository } from '../repositories/comment.repository.js';
+import { RevisionService } from './revision.service.js';
+import { CommentThread } from '../types/database.js';
+import { AuthUser } from '../types/auth.js';
+
+export class InvalidCommentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCommentError';
+  }
+}
+
+export interface StartThreadInput {
+  body: unknown;
+  selector: unknown;
+  // Revision the comment was made on; the project's latest when omitted
+  revision?: unknown;
+}
+
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_SELECTOR_LENGTH = 500;
+
+/**
+ * Review threads on a project. A thread is pinned to the element a selector
+ * picks out in the revision it was started on, so it keeps pointing at what
+ * the reviewer saw even after later edits move things around.
+ */
+export class CommentService {
+  constructor(
+    private commentRepo: CommentRepository = new CommentRepository(),
+    private revisionService: RevisionService = new RevisionService()
+  ) {}
+
+  async list(projectId: string, includeResolved = false): Promise<CommentThread[]> {
+    return this.commentRepo.findThreadsByProjectId(projectId, includeResolved);
+  }
+
+  async startThread(projectId: string, author: AuthUser, input: StartThreadInput): Promise<CommentThread> {
+    const body = this.validateBody(input.body);
+    const selector = this.validateSelector(input.selector);
+    const revision = await this.anchorRevision(projectId, input.revision);
+
+    const comment = await this.commentRepo.create({
+      projectId,
+      authorId: author.id,
+      parentId: null,
+      revision,
+      selector,
+      body,
+    });
+    console.log(`💬 ${author.id} started comment thread ${comment.id} on project ${projectId}`);
+
+    return (await this.commentRepo.findThread(comment.id))!;
+  }
+
+  /**
+   * Adds a reply to the thread the comment belongs to. Returns null when the
+   * comment is not part of the project.
+   */
+  async reply(projectId: string, commentId: string, author: AuthUser, body: unknown): Promise<CommentThread | null> {
+    const threadId = await this.threadIdOf(projectId, commentId);
+    if (!threadId) return null;
+
+    await this.commentRepo.create({
+      projectId,
+      authorId: author.id,
+      parentId: threadId,
+      revision: null,
+      selector: null,
+      body: this.validateBody(body),
+    });
+
+    return this.commentRepo.findThread(threadId);
+  }
+
+  // Resolves or reopens the thread the comment belongs to
+  async setResolved(projectId: string, commentId: string, resolved: boolean): Promise<CommentThread | null> {
+    const threadId = await this.threadIdOf(projectId, commentId);
+    if (!threadId) return null;
+
+    await this.commentRepo.setResolvedAt(threadId, resolved ? new Date() : null);
+    console.log(`💬 Comment thread ${threadId} ${resolved ? 'resolved' : 'reopened'}`);
+
+    return this.commentRepo.findThread(threadId);
+  }
+
+  private async threadIdOf(projectId: string, commentId: string): Promise<string | null> {
+    const comment = await this.commentRepo.findById(commentId);
+    if (!comment || comment.projectId !== projectId) return null;
+    return comment.parentId ?? comment.id;
+  }
+
+  private async anchorRevision(projectId: string, revision: unknown): Promise<number | null> {
+    if (revision === undefined || revision === null) {
+      const latest = await this.revisionService.latest(projectId);
+      return latest?.version ?? null;
+    }
+    if (typeof revision !== 'number' || !Number.isInteger(revision) || revision < 1) {
+      throw new InvalidCommentError('Revision must be a revision number');
+    }
+
+    // Throws RevisionNotFoundError for revisions the project does not have
+    await this.revisionService.get(projectId, revision);
+    return revision;
+  }
+
+  private validateBody(body: unknown): string {
+    if (typeof body !== 'string' || !body.trim()) {
+      throw new InvalidCommentError('Comment cannot be empty');
+    }
+    if (body.length > MAX_COMMENT_LENGTH) {
+      throw new InvalidCommentError(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+    }
+    return body.trim();
+  }
+
+  private validateSelector(selector: unknown): string {
+    if (typeof selector !== 'string' || !selector.trim()) {
+      throw new InvalidCommentError('Missing required field: selector');
+    }
+    if (selector.length > MAX_SELECTOR_LENGTH) {
+      throw new InvalidCommentError('Selector is too long');
+    }
+    return selector.trim();
+  }
+}
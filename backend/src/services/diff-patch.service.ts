@@ -1,7 +1,18 @@
 import { diff_match_patch } from 'diff-match-patch';
 import { CodeSection } from '../types/database';
-import { PatchResult, ElementPatch } from '../types/generation';
+import { PatchResult, ElementPatch, MergeConflict, MergeResult, MergeSide } from '../types/generation';
 import { SurgicalEditService } from './surgical-edit.service.js';
+import { LLMFactory } from './llm-factory.service.js';
+import { HtmlDocument, HtmlElement } from '../utils/html-document.js';
+import { ElementPid, PID_ATTRIBUTE } from '../utils/element-pid.js';
+
+// One contiguous change of an edited copy, located by the base range it replaces
+interface Change {
+  side: MergeSide;
+  baseStart: number;
+  baseEnd: number;
+  text: string;
+}
 
 export class DiffPatchService {
   private dmp: typeof diff_match_patch.prototype;
@@ -14,17 +25,13 @@ export class DiffPatchService {
   }
 
   // Method called by WebSocket integration service
-  async applyEdit(currentCode: string, editRequest: string): Promise<string> {
+  async applyEdit(currentCode: string, editRequest: string, selector?: string): Promise<string> {
     // Use the surgical edit service for AI-powered edits
-    const surgicalEditService = new SurgicalEditService({
-      apiKey: process.env.DEEPSEEK_API_KEY || '',
-      apiUrl: process.env.DEEPSEEK_API_URL || 'https://api.deepseek.com/v1',
-      model: process.env.DEEPSEEK_MODEL || 'deepseek-coder',
-      temperature: 0.1,
-      maxTokens: 4000
-    });
+    const surgicalEditService = new SurgicalEditService(LLMFactory.getInstance().getLLMService());
 
-    const result = await surgicalEditService.applySurgicalEdit(currentCode, editRequest);
+    const result = await surgicalEditService.applySurgicalEdit(currentCode, editRequest, {
+      ...(selector && { selector })
+    });
     return result.updatedCode;
   }
 
@@ -96,6 +103,16 @@ export class DiffPatchService {
     }
   }
 
+  /**
+   * Carries the change from `oldContent` to `newContent` over to `document`,
+   * which embeds `oldContent`. Returns null when the change does not apply.
+   */
+  carryOver(oldContent: string, newContent: string, document: string): string | null {
+    const patches = this.dmp.patch_make(oldContent, newContent);
+    const [updated, results] = this.dmp.patch_apply(patches, document);
+    return results.every((result: boolean) => result) ? updated : null;
+  }
+
   createElementPatch(
     elementSelector: string,
     oldContent: string,
@@ -142,92 +159,183 @@ export class DiffPatchService {
     };
   }
 
+  /**
+   * Three-way merge of `ours` and `theirs`, both edited from `base`. Changes
+   * to separate parts of the base combine exactly; changes to the same part
+   * are conflicts, settled by `resolutions` (by conflict id) or left at theirs.
+   */
+  mergeThreeWay(
+    base: string,
+    ours: string,
+    theirs: string,
+    resolutions: Record<number, MergeSide> = {}
+  ): MergeResult {
+    if (ours === base || ours === theirs) return { content: theirs, conflicts: [] };
+    if (theirs === base) return { content: ours, conflicts: [] };
+
+    const changes = [...this.changesOf(base, ours, 'ours'), ...this.changesOf(base, theirs, 'theirs')]
+      .sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+    // Changes touching the same part of the base, in base order
+    const clusters: Change[][] = [];
+    for (const change of changes) {
+      const cluster = clusters[clusters.length - 1];
+      if (cluster && this.touches(cluster, change)) {
+        cluster.push(change);
+      } else {
+        clusters.push([change]);
+      }
+    }
+
+    const replacements: Array<{ start: number; end: number; text: string }> = [];
+    const conflicts: MergeConflict[] = [];
+    let baseDocument: HtmlDocument | null = null;
+    let conflictId = 0;
+    // How far theirs has shifted from the base so far
+    let delta = 0;
+
+    for (const cluster of clusters) {
+      const start = Math.min(...cluster.map(change => change.baseStart));
+      const end = Math.max(...cluster.map(change => change.baseEnd));
+      const ourChanges = cluster.filter(change => change.side === 'ours');
+      const theirChanges = cluster.filter(change => change.side === 'theirs');
+
+      const theirsStart = start + delta;
+      const theirsText = this.rebuild(base, start, end, theirChanges);
+      delta += theirsText.length - (end - start);
+      if (ourChanges.length === 0) continue;
+
+      const oursText = this.rebuild(base, start, end, ourChanges);
+      const replacement = { start: theirsStart, end: theirsStart + theirsText.length, text: oursText };
+      if (theirChanges.length === 0) {
+        replacements.push(replacement);
+        continue;
+      }
+      if (oursText === theirsText) continue;
+
+      const id = conflictId++;
+      if (resolutions[id] === 'ours') {
+        replacements.push(replacement);
+      } else if (resolutions[id] !== 'theirs') {
+        baseDocument ??= HtmlDocument.parse(base);
+        conflicts.push({
+          id,
+          element: this.enclosingElement(baseDocument, start, end),
+          line: theirs.slice(0, theirsStart).split('\n').length - 1,
+          base: base.slice(start, end),
+          ours: oursText,
+          theirs: theirsText
+        });
+      }
+    }
+
+    let content = theirs;
+    for (const { start, end, text } of replacements.reverse()) {
+      content = content.slice(0, start) + text + content.slice(end);
+    }
+    return { content, conflicts };
+  }
+
+  private changesOf(base: string, edited: string, side: MergeSide): Change[] {
+    const diffs = this.dmp.diff_main(base, edited);
+    this.dmp.diff_cleanupSemantic(diffs);
+
+    const changes: Change[] = [];
+    let baseIndex = 0;
+    let current: Change | null = null;
+    for (const [operation, text] of diffs) {
+      if (operation === 0) {
+        current = null;
+        baseIndex += text.length;
+        continue;
+      }
+
+      if (!current) {
+        current = { side, baseStart: baseIndex, baseEnd: baseIndex, text: '' };
+        changes.push(current);
+      }
+      if (operation === -1) {
+        baseIndex += text.length;
+        current.baseEnd = baseIndex;
+      } else {
+        current.text += text;
+      }
+    }
+    return changes;
+  }
+
+  // Overlapping ranges touch, and so do insertions at the same point
+  private touches(cluster: Change[], change: Change): boolean {
+    const end = Math.max(...cluster.map(member => member.baseEnd));
+    if (change.baseStart < end) return true;
+    return change.baseStart === end &&
+      cluster.some(member => member.baseStart === end && member.baseEnd === end);
+  }
+
+  // The base range [start, end) with one side's changes applied
+  private rebuild(base: string, start: number, end: number, changes: Change[]): string {
+    let text = '';
+    let position = start;
+    for (const change of changes) {
+      text += base.slice(position, change.baseStart) + change.text;
+      position = change.baseEnd;
+    }
+    return text + base.slice(position, end);
+  }
+
+  private enclosingElement(document: HtmlDocument, start: number, end: number): MergeConflict['element'] {
+    // Document order puts the innermost enclosing element last
+    const element = document.elements
+      .filter(candidate => {
+        if (!candidate.sourceCodeLocation) return false;
+        const range = document.rangeOf(candidate);
+        return range.startOffset <= start && end <= range.endOffset;
+      })
+      .pop();
+    if (!element) return null;
+
+    const pid = document.attribute(element, PID_ATTRIBUTE);
+    const id = document.attribute(element, 'id');
+    return {
+      selector: pid ? ElementPid.selector(pid) : id && /^[A-Za-z][\w-]*$/.test(id) ? `#${id}` : null,
+      elementId: pid || id,
+      tagName: element.tagName
+    };
+  }
+
   private applyPatchToHTML(
     fullHTML: string,
     elementId: string,
     patches: any[]
   ): string {
-    const lines = fullHTML.split('\n');
-    const elementLocation = this.findElementInHTML(lines, elementId);
+    const document = HtmlDocument.parse(fullHTML);
+    const element = this.findElementInHTML(document, elementId);
     
-    if (!elementLocation) {
+    if (!element) {
       throw new Error(`Element ${elementId} not found in HTML`);
     }
     
-    // Extract the element content
-    const elementLines = lines.slice(elementLocation.startLine, elementLocation.endLine + 1);
-    const elementContent = elementLines.join('\n');
-    
-    // Apply patches to element content
-    const [patchedContent] = this.dmp.patch_apply(patches, elementContent);
-    
-    // Replace the element in the full HTML
-    const updatedLines = [
-      ...lines.slice(0, elementLocation.startLine),
-      ...patchedContent.split('\n'),
-      ...lines.slice(elementLocation.endLine + 1)
-    ];
-    
-    return updatedLines.join('\n');
+    // Apply patches to the element and splice it back in place
+    const [patchedContent] = this.dmp.patch_apply(patches, document.outerHTML(element));
+    return document.replaceElement(element, patchedContent);
   }
 
-  private findElementInHTML(
-    lines: string[],
-    elementId: string
-  ): { startLine: number; endLine: number } | null {
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      
-      if (!line) continue;
-      
-      // Look for element by ID, class, or data attribute
-      if (line.includes(`id="${elementId}"`) || 
-          line.includes(`class="${elementId}"`) ||
-          line.includes(`data-element="${elementId}"`)) {
-        
-        const startLine = i;
-        const endLine = this.findElementEndLine(lines, i, elementId);
-        
-        return { startLine, endLine };
-      }
-    }
-    
-    return null;
-  }
-
-  private findElementEndLine(lines: string[], startLine: number, _elementId: string): number {
-    const startTag = lines[startLine]?.match(/<(\w+)/)?.[1];
-    if (!startTag) return startLine;
-    
-    let depth = 0;
-    for (let i = startLine; i < lines.length; i++) {
-      const line = lines[i];
-      
-      if (!line) continue;
-      
-      // Count opening tags
-      const openTags = (line.match(new RegExp(`<${startTag}(?:\\s|>)`, 'g')) || []).length;
-      // Count closing tags
-      const closeTags = (line.match(new RegExp(`</${startTag}>`, 'g')) || []).length;
-      
-      depth += openTags - closeTags;
-      
-      if (depth === 0 && i > startLine) {
-        return i;
-      }
-    }
-    
-    return startLine;
+  // Elements are addressed by their data-pid; plain ids still work for unstamped markup
+  private findElementInHTML(document: HtmlDocument, elementId: string): HtmlElement | null {
+    return ElementPid.find(document, elementId) ||
+      document.elements.find(element => element.sourceCodeLocation && document.attribute(element, 'id') === elementId) ||
+      null;
   }
 
   private getAffectedLines(fullHTML: string, elementId: string): number[] {
-    const lines = fullHTML.split('\n');
-    const elementLocation = this.findElementInHTML(lines, elementId);
+    const document = HtmlDocument.parse(fullHTML);
+    const element = this.findElementInHTML(document, elementId);
     
-    if (!elementLocation) return [];
+    if (!element) return [];
     
+    const { startLine, endLine } = document.lineSpanOf(element);
     const affectedLines: number[] = [];
-    for (let i = elementLocation.startLine; i <= elementLocation.endLine; i++) {
+    for (let i = startLine; i <= endLine; i++) {
       affectedLines.push(i);
     }
     
@@ -2,6 +2,7 @@ import { LLMService } from './llm.service';
 import { CodeSection, GenerationPreferences } from '../types/database';
 import { ComponentDocumentation } from '../types/generation';
 import { PromptTemplates } from '../utils/prompt-templates';
+import { ElementPid } from '../utils/element-pid';
 
 export class DocumentationService {
   constructor(private llmService: LLMService) {}
@@ -29,17 +30,14 @@ export class DocumentationService {
     try {
       const prompt = PromptTemplates.createDocumentationPrompt(
         section.sectionName,
-        section.codeContent,
+        // Editor ids are not part of the component and must not end up in examples
+        ElementPid.strip(section.codeContent),
         ['responsive design', 'modern styling', 'semantic HTML']
       );
       
-      const response = await this.llmService.generateCompletion({
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.3,
-        maxTokens: 800
-      });
+      const response = await this.llmService.generateCompletion(prompt);
 
-      const parsedDoc = this.parseDocumentationResponse(response.content);
+      const parsedDoc = this.parseDocumentationResponse(response);
       
       return {
         id: crypto.randomUUID(),
@@ -208,13 +206,7 @@ Current content: ${currentContent}
 
 Give 3-4 specific suggestions for common edits (text, colors, sizing, etc.) in a concise format.`;
 
-      const response = await this.llmService.generateCompletion({
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.4,
-        maxTokens: 300
-      });
-
-      return response.content;
+      return await this.llmService.generateCompletion(prompt);
     } catch (error) {
       return this.getFallbackEditingHelp(elementType);
     }
@@ -0,0 +1,198 @@
+import { DiffPatchService } from './diff-patch.service.js';
+import { HtmlDocument, HtmlElement, InvalidSelectorError } from '../utils/html-document.js';
+import { ElementPid, PID_ATTRIBUTE } from '../utils/element-pid.js';
+import { EditOperation, EditOperationType, EditOperationsResult } from '../types/edit.js';
+
+export class InvalidEditOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidEditOperationError';
+  }
+}
+
+// Fields each operation needs besides `selector`; only `setStyle.value` may be null
+const OPERATION_FIELDS: Record<EditOperationType, string[]> = {
+  setText: ['text'],
+  setAttr: ['name', 'value'],
+  removeAttr: ['name'],
+  addClass: ['className'],
+  removeClass: ['className'],
+  setStyle: ['property', 'value'],
+  moveBefore: ['target'],
+  remove: [],
+  duplicate: [],
+};
+
+const ATTRIBUTE_NAME = /^[a-zA-Z_:][-a-zA-Z0-9_:.]*$/;
+const CLASS_NAME = /^\S+$/;
+const STYLE_PROPERTY = /^(?:--|-?[a-zA-Z])[-\w]*$/;
+
+/**
+ * Applies typed DOM operations to generated HTML without an LLM. Each
+ * operation is spliced into the source, so untouched markup keeps its exact
+ * formatting and the resulting patches stay minimal.
+ */
+export class DomEditService {
+  constructor(private diffPatchService = new DiffPatchService()) {}
+
+  applyOperations(code: string, operations: unknown): EditOperationsResult {
+    const validated = this.validateOperations(operations);
+
+    let updatedCode = code;
+    validated.forEach((operation, index) => {
+      updatedCode = this.applyOperation(updatedCode, operation, index);
+    });
+    // Duplicates need pids of their own
+    if (ElementPid.isStamped(code)) {
+      updatedCode = ElementPid.stamp(updatedCode);
+    }
+
+    const patches = this.diffPatchService.createPatch(code, updatedCode);
+    const { preview, stats } = this.diffPatchService.generatePreviewPatch(code, updatedCode);
+
+    return { updatedCode, patches, preview, stats, applied: validated.length };
+  }
+
+  private applyOperation(code: string, operation: EditOperation, index: number): string {
+    try {
+      return this.spliceOperation(code, operation, index);
+    } catch (error) {
+      if (error instanceof InvalidEditOperationError) throw error;
+      throw new InvalidEditOperationError(this.describe(operation, index, error instanceof Error ? error.message : 'edit failed'));
+    }
+  }
+
+  private spliceOperation(code: string, operation: EditOperation, index: number): string {
+    // Re-parsed per operation: earlier operations shift every offset after them
+    const document = HtmlDocument.parse(code);
+    const element = this.resolve(document, operation.selector, operation, index);
+
+    switch (operation.type) {
+      case 'setText':
+        return document.replaceInnerHTML(element, HtmlDocument.escapeText(operation.text));
+      case 'setAttr':
+        return document.setAttribute(element, operation.name, operation.value);
+      case 'removeAttr':
+        return document.removeAttribute(element, operation.name);
+      case 'addClass': {
+        const classes = this.classList(document, element);
+        if (classes.includes(operation.className)) return code;
+        return document.setAttribute(element, 'class', [...classes, operation.className].join(' '));
+      }
+      case 'removeClass': {
+        const classes = this.classList(document, element).filter(name => name !== operation.className);
+        return classes.length > 0
+          ? document.setAttribute(element, 'class', classes.join(' '))
+          : document.removeAttribute(element, 'class');
+      }
+      case 'setStyle': {
+        const style = this.setStyleProperty(document.attribute(element, 'style') || '', operation.property, operation.value);
+        return style
+          ? document.setAttribute(element, 'style', style)
+          : document.removeAttribute(element, 'style');
+      }
+      case 'moveBefore': {
+        const target = this.resolve(document, operation.target, operation, index);
+        return document.moveBefore(element, target);
+      }
+      case 'remove':
+        return document.removeElement(element);
+      case 'duplicate':
+        return document.insertAfter(element, this.lineBreakBefore(document, element) + this.copyOf(document.outerHTML(element)));
+    }
+  }
+
+  private resolve(document: HtmlDocument, selector: string, operation: EditOperation, index: number): HtmlElement {
+    try {
+      const element = document.querySelector(selector);
+      if (!element) {
+        throw new InvalidEditOperationError(this.describe(operation, index, `no element matches "${selector}"`));
+      }
+      return element;
+    } catch (error) {
+      if (error instanceof InvalidSelectorError) {
+        throw new InvalidEditOperationError(this.describe(operation, index, error.message));
+      }
+      throw error;
+    }
+  }
+
+  private classList(document: HtmlDocument, element: HtmlElement): string[] {
+    return (document.attribute(element, 'class') || '').split(/\s+/).filter(Boolean);
+  }
+
+  private setStyleProperty(style: string, property: string, value: string | null): string {
+    const declarations = style
+      .split(';')
+      .map(declaration => declaration.trim())
+      .filter(Boolean)
+      .filter(declaration => declaration.slice(0, declaration.indexOf(':')).trim().toLowerCase() !== property.toLowerCase());
+
+    if (value !== null && value.trim()) {
+      declarations.push(`${property}: ${value.trim()}`);
+    }
+    return declarations.join('; ');
+  }
+
+  // Keeps a duplicated block on its own line at the original's indentation
+  private lineBreakBefore(document: HtmlDocument, element: HtmlElement): string {
+    const indentation = document.indentationOf(element);
+    return indentation === null ? '' : `\n${indentation}`;
+  }
+
+  // A duplicate must not repeat the original's id or pids
+  private copyOf(html: string): string {
+    const copy = HtmlDocument.parse(ElementPid.strip(html));
+    const root = copy.elements[0];
+    return root && copy.attribute(root, 'id') !== null ? copy.removeAttribute(root, 'id') : copy.source;
+  }
+
+  private validateOperations(operations: unknown): EditOperation[] {
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw new InvalidEditOperationError('operations must be a non-empty array');
+    }
+
+    return operations.map((operation, index) => {
+      const position = `Operation ${index + 1}`;
+      if (!operation || typeof operation !== 'object') {
+        throw new InvalidEditOperationError(`${position} must be an object`);
+      }
+
+      const candidate = operation as Record<string, unknown>;
+      const type = candidate.type as EditOperationType;
+      if (typeof type !== 'string' || !Object.hasOwn(OPERATION_FIELDS, type)) {
+        throw new InvalidEditOperationError(`${position} has unknown type "${String(candidate.type)}"`);
+      }
+      if (typeof candidate.selector !== 'string' || !candidate.selector.trim()) {
+        throw new InvalidEditOperationError(`${position} (${type}) needs a selector`);
+      }
+
+      for (const field of OPERATION_FIELDS[type]) {
+        const value = candidate[field];
+        const nullable = type === 'setStyle' && field === 'value';
+        if (typeof value !== 'string' && !(nullable && value === null)) {
+          throw new InvalidEditOperationError(`${position} (${type}) needs a string "${field}"`);
+        }
+      }
+
+      if ((type === 'setAttr' || type === 'removeAttr') && !ATTRIBUTE_NAME.test(candidate.name as string)) {
+        throw new InvalidEditOperationError(`${position} (${type}) has an invalid attribute name`);
+      }
+      if ((type === 'setAttr' || type === 'removeAttr') && candidate.name === PID_ATTRIBUTE) {
+        throw new InvalidEditOperationError(`${position} (${type}) cannot change ${PID_ATTRIBUTE}, which the editor maintains`);
+      }
+      if ((type === 'addClass' || type === 'removeClass') && !CLASS_NAME.test(candidate.className as string)) {
+        throw new InvalidEditOperationError(`${position} (${type}) needs a single class name`);
+      }
+      if (type === 'setStyle' && !STYLE_PROPERTY.test(candidate.property as string)) {
+        throw new InvalidEditOperationError(`${position} (${type}) has an invalid CSS property`);
+      }
+
+      return candidate as unknown as EditOperation;
+    });
+  }
+
+  private describe(operation: EditOperation, index: number, reason: string): string {
+    return `Operation ${index + 1} (${operation.type}): ${reason}`;
+  }
+}
@@ -0,0 +1,318 @@
+import { GenerationLogRepository } from '../repositories/generation-log.repository.js';
+import { LogStatus, GenerationLog } from '../types/database.js';
+import {
+  GenerationJob,
+  GenerationJobPhase,
+  GenerationJobStatus,
+} from '../types/generation.js';
+import { GenerationControl } from '../utils/generation-control.js';
+
+// Step name of the log row that holds the job snapshot in its metadata
+const JOB_STEP_NAME = 'Code Generation';
+
+export class GenerationAlreadyRunningError extends Error {
+  constructor(projectId: string) {
+    super(`Generation already running for project ${projectId}`);
+    this.name = 'GenerationAlreadyRunningError';
+  }
+}
+
+interface TrackedJob {
+  job: GenerationJob;
+  control: GenerationControl;
+  logId: string;
+  // Snapshot writes are chained so they reach the database in order
+  pending: Promise<void>;
+}
+
+/**
+ * Registry of code generation runs, one per project. Live runs are kept in
+ * memory; every change is mirrored into a GenerationLog row so status survives
+ * a server restart.
+ */
+export class GenerationJobService {
+  private static instance: GenerationJobService;
+  private jobs: Map<string, TrackedJob> = new Map();
+  // Projects claimed for a run whose job is still being set up
+  private reserved: Set<string> = new Set();
+  private logRepo: GenerationLogRepository;
+
+  private constructor(logRepo: GenerationLogRepository = new GenerationLogRepository()) {
+    this.logRepo = logRepo;
+  }
+
+  static getInstance(): GenerationJobService {
+    if (!GenerationJobService.instance) {
+      GenerationJobService.instance = new GenerationJobService();
+    }
+    return GenerationJobService.instance;
+  }
+
+  // A registry of its own rather than the shared one, e.g. for tests
+  static create(logRepo: GenerationLogRepository): GenerationJobService {
+    return new GenerationJobService(logRepo);
+  }
+
+  // Starting, running or paused; either way the project cannot start another run
+  isActive(projectId: string): boolean {
+    if (this.reserved.has(projectId)) return true;
+
+    const status = this.jobs.get(projectId)?.job.status;
+    return status === 'running' || status === 'paused';
+  }
+
+  /**
+   * Claims the project for a run about to start. It is synchronous, so of two
+   * requests racing to start a run only one gets the claim. `startJob` needs
+   * and takes over the claim; callers release it if they give up before then.
+   */
+  reserve(projectId: string): void {
+    if (this.isActive(projectId)) {
+      throw new GenerationAlreadyRunningError(projectId);
+    }
+    this.reserved.add(projectId);
+  }
+
+  release(projectId: string): void {
+    this.reserved.delete(projectId);
+  }
+
+  async startJob(
+    projectId: string,
+    planId: string,
+    totalComponents: number,
+    resumedComponents: string[] = []
+  ): Promise<GenerationControl> {
+    // Reserving here would let a caller that lost the race run on the winner's claim
+    if (!this.reserved.has(projectId)) {
+      throw new Error(`Project ${projectId} must be reserved before starting a generation job`);
+    }
+
+    try {
+      return await this.createJob(projectId, planId, totalComponents, resumedComponents);
+    } finally {
+      // From here on the job itself, if it was created, keeps the project busy
+      this.release(projectId);
+    }
+  }
+
+  private async createJob(
+    projectId: string,
+    planId: string,
+    totalComponents: number,
+    resumedComponents: string[]
+  ): Promise<GenerationControl> {
+    const now = new Date().toISOString();
+    const job: GenerationJob = {
+      projectId,
+      planId,
+      status: 'running',
+      phase: 'generating',
+      currentComponent: null,
+      activeComponents: [],
+      completedComponents: [...resumedComponents],
+      totalComponents,
+      progress: 0,
+      resumed: resumedComponents.length > 0,
+      tokenUsage: { completionTokens: 0, estimated: true },
+      errors: [],
+      startedAt: now,
+      updatedAt: now,
+    };
+    job.progress = this.calculateProgress(job);
+
+    const log = await this.logRepo.logStep(
+      projectId,
+      job.phase,
+      JOB_STEP_NAME,
+      job.resumed
+        ? `Resuming plan ${planId} after ${resumedComponents.length} of ${totalComponents} components`
+        : `Generating ${totalComponents} components from plan ${planId}`,
+      LogStatus.STARTED,
+      job
+    );
+
+    const control = new GenerationControl();
+    this.jobs.set(projectId, { job, control, logId: log.id, pending: Promise.resolve() });
+    return control;
+  }
+
+  pauseJob(projectId: string): GenerationJob | null {
+    const tracked = this.jobs.get(projectId);
+    if (!tracked || tracked.job.status !== 'running') return null;
+
+    tracked.control.pause();
+    this.update(projectId, job => {
+      job.status = 'paused';
+    });
+    return structuredClone(tracked.job);
+  }
+
+  resumeJob(projectId: string): GenerationJob | null {
+    const tracked = this.jobs.get(projectId);
+    if (!tracked || tracked.job.status !== 'paused') return null;
+
+    tracked.control.resume();
+    this.update(projectId, job => {
+      job.status = 'running';
+    });
+    return structuredClone(tracked.job);
+  }
+
+  async cancelJob(projectId: string): Promise<GenerationJob | null> {
+    const tracked = this.jobs.get(projectId);
+    if (!tracked || !this.isActive(projectId)) return null;
+
+    tracked.control.cancel();
+    this.finish(projectId, 'cancelled');
+    await this.flush(projectId);
+    return structuredClone(tracked.job);
+  }
+
+  startComponent(projectId: string, componentName: string): void {
+    this.update(projectId, job => {
+      job.phase = 'generating';
+      job.activeComponents.push(componentName);
+      job.currentComponent = componentName;
+    });
+  }
+
+  setPhase(projectId: string, phase: GenerationJobPhase): void {
+    this.update(projectId, job => {
+      job.phase = phase;
+    });
+  }
+
+  completeComponent(projectId: string, componentName: string, output: string): void {
+    const tracked = this.jobs.get(projectId);
+    if (!tracked) return;
+
+    const tokens = this.estimateTokens(output);
+    this.update(projectId, job => {
+      job.completedComponents.push(componentName);
+      job.activeComponents = job.activeComponents.filter(name => name !== componentName);
+      job.currentComponent = job.activeComponents[job.activeComponents.length - 1] || null;
+      job.tokenUsage.completionTokens += tokens;
+      job.progress = this.calculateProgress(job);
+    });
+
+    this.logRepo.logStep(
+      projectId,
+      'generating',
+      componentName,
+      `Generated ${componentName}`,
+      LogStatus.COMPLETED,
+      { planId: tracked.job.planId, completionTokens: tokens }
+    ).catch(error => {
+      console.error(`❌ Failed to log component ${componentName}:`, error);
+    });
+  }
+
+  recordError(projectId: string, message: string, component?: string): void {
+    this.update(projectId, job => {
+      job.errors.push({
+        message,
+        ...(component && { component }),
+        occurredAt: new Date().toISOString(),
+      });
+    });
+  }
+
+  async completeJob(projectId: string): Promise<void> {
+    if (!this.isActive(projectId)) return;
+
+    this.finish(projectId, 'completed');
+    await this.flush(projectId);
+  }
+
+  async failJob(projectId: string, message: string): Promise<void> {
+    // Cancellation already recorded its own final state
+    if (!this.isActive(projectId)) return;
+
+    this.recordError(projectId, message);
+    this.finish(projectId, 'error');
+    await this.flush(projectId);
+  }
+
+  async getStatus(projectId: string): Promise<GenerationJob | null> {
+    const tracked = this.jobs.get(projectId);
+    if (tracked) {
+      return structuredClone(tracked.job);
+    }
+
+    const log = await this.logRepo.findLatestByStepName(projectId, JOB_STEP_NAME);
+    return log ? this.fromLog(log) : null;
+  }
+
+  private update(projectId: string, mutate: (job: GenerationJob) => void): void {
+    const tracked = this.jobs.get(projectId);
+    if (!tracked) return;
+
+    mutate(tracked.job);
+    tracked.job.updatedAt = new Date().toISOString();
+    this.persist(tracked);
+  }
+
+  private finish(projectId: string, status: GenerationJobStatus): void {
+    this.update(projectId, job => {
+      job.status = status;
+      job.currentComponent = null;
+      job.activeComponents = [];
+      if (status === 'completed') {
+        job.phase = 'completed';
+        job.progress = 100;
+      }
+      job.completedAt = new Date().toISOString();
+    });
+  }
+
+  private persist(tracked: TrackedJob): void {
+    const snapshot = structuredClone(tracked.job);
+    const logStatus = this.toLogStatus(snapshot.status);
+
+    tracked.pending = tracked.pending
+      .then(() => this.logRepo.updateStatus(tracked.logId, logStatus, snapshot))
+      .then(() => undefined)
+      .catch(error => {
+        console.error(`❌ Failed to persist generation status for ${snapshot.projectId}:`, error);
+      });
+  }
+
+  private async flush(projectId: string): Promise<void> {
+    await this.jobs.get(projectId)?.pending;
+  }
+
+  private fromLog(log: GenerationLog): GenerationJob {
+    const job = log.metadata as unknown as GenerationJob;
+
+    // A run that was still active in the database but is not in memory was
+    // cut short by a server restart
+    if (job.status === 'running' || job.status === 'paused') {
+      return { ...job, status: 'interrupted' };
+    }
+    return job;
+  }
+
+  private toLogStatus(status: GenerationJobStatus): LogStatus {
+    switch (status) {
+      case 'completed':
+        return LogStatus.COMPLETED;
+      case 'error':
+      case 'cancelled':
+        return LogStatus.ERROR;
+      default:
+        return LogStatus.IN_PROGRESS;
+    }
+  }
+
+  private calculateProgress(job: GenerationJob): number {
+    if (job.totalComponents === 0) return 0;
+    // Leave headroom for organizing the final HTML
+    return Math.round((job.completedComponents.length / job.totalComponents) * 95);
+  }
+
+  private estimateTokens(text: string): number {
+    // Roughly four characters per token for English text and markup
+    return Math.ceil(text.length / 4);
+  }
+}
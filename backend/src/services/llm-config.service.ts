@@ -1,4 +1,58 @@
-import { LLMConfig } from '../types/llm.js';
+import { LLMConfig, LLMProviderType } from '../types/llm.js';
+
+interface ProviderDefaults {
+  label: string;
+  gatewayUrl: string;
+  models: string[];
+  requiresApiKey: boolean;
+  // Local servers run whatever model the user has pulled, so any name is accepted
+  allowCustomModels: boolean;
+}
+
+const PROVIDER_DEFAULTS: Record<LLMProviderType, ProviderDefaults> = {
+  deepseek: {
+    label: 'DeepSeek',
+    gatewayUrl: 'https://api.deepseek.com/v1',
+    models: ['deepseek-chat', 'deepseek-coder'],
+    requiresApiKey: true,
+    allowCustomModels: false,
+  },
+  openai: {
+    label: 'OpenAI-compatible',
+    gatewayUrl: 'https://api.openai.com/v1',
+    models: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+    requiresApiKey: true,
+    allowCustomModels: true,
+  },
+  anthropic: {
+    label: 'Anthropic',
+    gatewayUrl: 'https://api.anthropic.com/v1',
+    models: ['claude-3-5-sonnet-latest', 'claude-3-5-haiku-latest', 'claude-3-opus-latest'],
+    requiresApiKey: true,
+    allowCustomModels: true,
+  },
+  ollama: {
+    label: 'Ollama (local)',
+    gatewayUrl: 'http://localhost:11434',
+    models: ['llama3.1', 'qwen2.5-coder', 'codellama', 'mistral'],
+    requiresApiKey: false,
+    allowCustomModels: true,
+  },
+  llamacpp: {
+    label: 'llama.cpp server (local)',
+    gatewayUrl: 'http://localhost:8080/v1',
+    models: ['local-model'],
+    requiresApiKey: false,
+    allowCustomModels: true,
+  },
+  mock: {
+    label: 'Mock (fixture replay)',
+    gatewayUrl: 'mock://fixtures',
+    models: ['mock-default'],
+    requiresApiKey: false,
+    allowCustomModels: true,
+  },
+};
 
 export class LLMConfigService {
   private static instance: LLMConfigService;
@@ -20,9 +74,13 @@ export class LLMConfigService {
   }
 
   updateConfig(updates: Partial<LLMConfig>): LLMConfig {
+    // A key is only ever sent to the gateway it was configured for; pointing
+    // the config at another gateway drops it unless a new key comes along
+    const gatewayChanged = updates.gatewayUrl !== undefined && updates.gatewayUrl !== this.config.gatewayUrl;
     this.config = {
       ...this.config,
       ...updates,
+      ...(gatewayChanged && updates.apiKey === undefined && { apiKey: undefined }),
     };
     return this.getConfig();
   }
@@ -45,15 +103,27 @@ export class LLMConfigService {
     return this.updateConfig({ maxTokens });
   }
 
-  getAvailableModels(): string[] {
-    return [
-      'deepseek-chat',
-      'deepseek-coder',
-    ];
+  getAvailableModels(provider: LLMProviderType = this.config.provider): string[] {
+    return [...PROVIDER_DEFAULTS[provider].models];
   }
 
-  validateModel(model: string): boolean {
-    return this.getAvailableModels().includes(model);
+  getProviders(): Array<{ id: LLMProviderType } & ProviderDefaults> {
+    return (Object.keys(PROVIDER_DEFAULTS) as LLMProviderType[]).map(id => ({
+      id,
+      ...PROVIDER_DEFAULTS[id],
+      models: this.getAvailableModels(id),
+    }));
+  }
+
+  isValidProvider(provider: string): provider is LLMProviderType {
+    return provider in PROVIDER_DEFAULTS;
+  }
+
+  validateModel(model: string, provider: LLMProviderType = this.config.provider): boolean {
+    if (PROVIDER_DEFAULTS[provider].allowCustomModels) {
+      return model.trim().length > 0;
+    }
+    return this.getAvailableModels(provider).includes(model);
   }
 
   resetToDefaults(): LLMConfig {
@@ -62,10 +132,15 @@ export class LLMConfigService {
   }
 
   private loadDefaultConfig(): LLMConfig {
+    const envProvider = process.env.LLM_PROVIDER || 'deepseek';
+    const provider: LLMProviderType = this.isValidProvider(envProvider) ? envProvider : 'deepseek';
+    const defaults = PROVIDER_DEFAULTS[provider];
+
     return {
-      gatewayUrl: process.env.DEEPSEEK_API_URL || 'https://api.deepseek.com/v1',
-      model: process.env.DEFAULT_MODEL || 'deepseek-chat',
-      apiKey: process.env.DEEPSEEK_API_KEY,
+      provider,
+      gatewayUrl: process.env.LLM_API_URL || process.env.DEEPSEEK_API_URL || defaults.gatewayUrl,
+      model: process.env.DEFAULT_MODEL || defaults.models[0] || '',
+      apiKey: process.env.LLM_API_KEY || process.env.DEEPSEEK_API_KEY,
       temperature: 0.7,
       maxTokens: 4000,
       stream: true,
@@ -76,6 +151,11 @@ export class LLMConfigService {
   validateConfig(): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
 
+    if (!this.isValidProvider(this.config.provider)) {
+      errors.push(`Invalid provider: ${this.config.provider}`);
+      return { valid: false, errors };
+    }
+
     if (!this.config.gatewayUrl) {
       errors.push('Gateway URL is required');
     }
@@ -86,6 +166,10 @@ export class LLMConfigService {
       errors.push(`Invalid model: ${this.config.model}`);
     }
 
+    if (PROVIDER_DEFAULTS[this.config.provider].requiresApiKey && !this.config.apiKey) {
+      errors.push(`API key is required for ${PROVIDER_DEFAULTS[this.config.provider].label}`);
+    }
+
     if (this.config.temperature < 0 || this.config.temperature > 2) {
       errors.push('Temperature must be between 0 and 2');
     }
@@ -99,34 +183,4 @@ export class LLMConfigService {
       errors,
     };
   }
-
-  // Test connection to DeepSeek API
-  async testConnection(): Promise<{ success: boolean; error?: string }> {
-    try {
-      const axios = (await import('axios')).default;
-      
-      const response = await axios.post(
-        `${this.config.gatewayUrl}/chat/completions`,
-        {
-          model: this.config.model,
-          messages: [{ role: 'user', content: 'Hello' }],
-          max_tokens: 10,
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this.config.apiKey}`,
-          },
-          timeout: 10000,
-        }
-      );
-
-      return { success: response.status === 200 };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: error.response?.data?.error?.message || error.message || 'Connection failed',
-      };
-    }
-  }
 }
\ No newline at end of file
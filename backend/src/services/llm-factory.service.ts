@@ -1,6 +1,11 @@
 import { LLMService } from './llm.service.js';
 import { LLMConfigService } from './llm-config.service.js';
-import { LLMConfig } from '../types/llm.js';
+import { DeepSeekService } from './deepseek.service.js';
+import { OpenAICompatibleService } from './openai-compatible.service.js';
+import { AnthropicService } from './anthropic.service.js';
+import { OllamaService } from './ollama.service.js';
+import { MockLLMService } from './mock-llm.service.js';
+import { LLMConfig, LLMProvider, LLMProviderConfig, LLMProviderType } from '../types/llm.js';
 
 export class LLMFactory {
   private static instance: LLMFactory;
@@ -26,7 +31,7 @@ export class LLMFactory {
     const key = this.createServiceKey(config);
 
     if (!this.services.has(key)) {
-      this.services.set(key, new LLMService(config));
+      this.services.set(key, new LLMService(config, this.createProvider(config)));
     }
 
     return this.services.get(key)!;
@@ -39,7 +44,7 @@ export class LLMFactory {
     const key = this.createServiceKey(config);
 
     if (!this.services.has(key)) {
-      this.services.set(key, new LLMService(config));
+      this.services.set(key, new LLMService(config, this.createProvider(config)));
     }
 
     return this.services.get(key)!;
@@ -54,18 +59,66 @@ export class LLMFactory {
     this.services.clear();
   }
 
+  /**
+   * Create the provider adapter selected by config.provider
+   */
+  createProvider(config: LLMConfig): LLMProvider {
+    const providerConfig: LLMProviderConfig = {
+      apiKey: config.apiKey || '',
+      apiUrl: config.gatewayUrl,
+      model: config.model,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+    };
+
+    switch (config.provider) {
+      case 'deepseek':
+        return new DeepSeekService(providerConfig);
+      case 'openai':
+        return new OpenAICompatibleService(providerConfig);
+      case 'anthropic':
+        return new AnthropicService(providerConfig);
+      case 'ollama':
+        return new OllamaService(providerConfig);
+      case 'llamacpp':
+        return new OpenAICompatibleService(providerConfig, 'llama.cpp server');
+      case 'mock':
+        return new MockLLMService(providerConfig, {
+          fixturePath: process.env.MOCK_LLM_FIXTURE,
+          latencyMs: parseInt(process.env.MOCK_LLM_LATENCY_MS || '0'),
+        });
+      default:
+        throw new Error(`Unsupported LLM provider: ${config.provider}`);
+    }
+  }
+
   /**
    * Test connection with current configuration
    */
   async testConnection(): Promise<{ success: boolean; error?: string }> {
-    return this.configService.testConnection();
+    const health = await this.healthCheck();
+
+    return health.status === 'healthy'
+      ? { success: true }
+      : { success: false, error: health.details };
   }
 
   /**
-   * Get available models
+   * Get available models for a provider (defaults to the configured one)
    */
-  getAvailableModels(): string[] {
-    return this.configService.getAvailableModels();
+  getAvailableModels(provider?: LLMProviderType): string[] {
+    return this.configService.getAvailableModels(provider);
+  }
+
+  /**
+   * Get the supported providers with their defaults
+   */
+  getProviders() {
+    return this.configService.getProviders();
+  }
+
+  isValidProvider(provider: string): provider is LLMProviderType {
+    return this.configService.isValidProvider(provider);
   }
 
   /**
@@ -105,6 +158,6 @@ export class LLMFactory {
   }
 
   private createServiceKey(config: LLMConfig): string {
-    return `${config.gatewayUrl}:${config.model}:${config.temperature}:${config.maxTokens}`;
+    return `${config.provider}:${config.gatewayUrl}:${config.model}:${config.temperature}:${config.maxTokens}`;
   }
 }
\ No newline at end of file
@@ -1,23 +1,22 @@
-import { DeepSeekService } from './deepseek.service.js';
 import {
   LLMConfig,
+  LLMProvider,
   GenerationPreferences,
   GenerationPlanData,
+  CodeStreamOptions,
 } from '../types/llm.js';
 
 export class LLMService {
-  private deepSeekService: DeepSeekService;
+  private provider: LLMProvider;
   private config: LLMConfig;
 
-  constructor(config: LLMConfig) {
+  constructor(config: LLMConfig, provider: LLMProvider) {
     this.config = config;
-    this.deepSeekService = new DeepSeekService({
-      apiKey: config.apiKey || '',
-      apiUrl: config.gatewayUrl,
-      model: config.model,
-      temperature: config.temperature,
-      maxTokens: config.maxTokens,
-    });
+    this.provider = provider;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
   }
 
   async generatePlan(
@@ -25,15 +24,16 @@ export class LLMService {
     preferences: GenerationPreferences,
     retries = 3
   ): Promise<GenerationPlanData> {
-    return this.deepSeekService.generatePlan(prompt, preferences, retries);
+    return this.provider.generatePlan(prompt, preferences, retries);
   }
 
   async *generateCodeStream(
     plan: GenerationPlanData,
     sectionName: string,
-    preferences: GenerationPreferences
+    preferences: GenerationPreferences,
+    options: CodeStreamOptions = {}
   ): AsyncGenerator<string, void, unknown> {
-    yield* this.deepSeekService.generateCodeStream(plan, sectionName, preferences);
+    yield* this.provider.generateCodeStream(plan, sectionName, preferences, options);
   }
 
   async generateDocumentation(
@@ -42,13 +42,15 @@ export class LLMService {
     preferences: GenerationPreferences,
     retries = 2
   ): Promise<string> {
-    return this.deepSeekService.generateDocumentation(codeContent, componentName, preferences, retries);
+    return this.provider.generateDocumentation(codeContent, componentName, preferences, retries);
   }
 
-
+  async generateCompletion(prompt: string): Promise<string> {
+    return this.provider.generateCompletion(prompt);
+  }
 
   // Health check method for monitoring
   async healthCheck(): Promise<{ status: 'healthy' | 'unhealthy'; details: string }> {
-    return this.deepSeekService.healthCheck();
+    return this.provider.healthCheck();
   }
-}
\ No newline at end of file
+}
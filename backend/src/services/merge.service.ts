@@ -0,0 +1,100 @@
+import { DiffPatchService } from './diff-patch.service.js';
+import { RevisionService, RevisionDetails } from './revision.service.js';
+import { CodeSection } from '../types/database.js';
+import { MergeConflict, MergeSide } from '../types/generation.js';
+
+export interface CommitOptions extends RevisionDetails {
+  // Revision the client's HTML was edited from; without it the save is unconditional
+  baseRevision?: number | null;
+  // Latest revision the client resolved conflicts against; stale resolutions are ignored
+  currentRevision?: number | null;
+  resolutions?: Record<number, MergeSide>;
+}
+
+export type CommitResult =
+  | {
+      status: 'saved' | 'merged';
+      section: CodeSection;
+      // Project revision now holding the HTML
+      revision: number | null;
+    }
+  | {
+      status: 'conflict';
+      baseRevision: number;
+      currentRevision: number;
+      conflicts: MergeConflict[];
+      // The client's HTML, for resolving and resubmitting
+      content: string;
+    };
+
+// Saves retried when other edits keep landing between merging and writing
+const MAX_COMMIT_ATTEMPTS = 5;
+
+/**
+ * Saves a project's complete HTML against the revision it was edited from.
+ * When another edit landed in between, the two are merged three ways against
+ * that base revision; overlapping changes come back as conflicts for the
+ * client to resolve instead of one edit silently overwriting the other. The
+ * write only succeeds against the revision that was merged with; if another
+ * one landed meanwhile, the merge is redone against it.
+ */
+export class MergeService {
+  constructor(
+    private revisionService: RevisionService = new RevisionService(),
+    private diffPatchService: DiffPatchService = new DiffPatchService()
+  ) {}
+
+  async commit(projectId: string, htmlContent: string, options: CommitOptions): Promise<CommitResult> {
+    const { baseRevision, currentRevision, resolutions, ...details } = options;
+
+    for (let attempt = 1; attempt <= MAX_COMMIT_ATTEMPTS; attempt++) {
+      const latest = await this.revisionService.latest(projectId);
+
+      let content = htmlContent;
+      let status: 'saved' | 'merged' = 'saved';
+      if (latest && baseRevision != null && baseRevision !== latest.version) {
+        const base = await this.revisionService.get(projectId, baseRevision);
+        const merge = this.diffPatchService.mergeThreeWay(
+          base.htmlContent,
+          htmlContent,
+          latest.htmlContent,
+          currentRevision === latest.version ? resolutions : undefined
+        );
+
+        if (merge.conflicts.length > 0) {
+          console.log(`⚔️ ${merge.conflicts.length} merge conflict(s) on project ${projectId} (base ${baseRevision}, current ${latest.version})`);
+          return {
+            status: 'conflict',
+            baseRevision,
+            currentRevision: latest.version,
+            conflicts: merge.conflicts,
+            content: htmlContent
+          };
+        }
+
+        content = merge.content;
+        status = 'merged';
+        console.log(`🔀 Merged edit from revision ${baseRevision} into revision ${latest.version} of project ${projectId}`);
+      }
+
+      // Only lands if `latest` is still the newest revision
+      const committed = await this.revisionService.commitCompleteHTML(projectId, content, latest?.version ?? null, {
+        ...details,
+        message: status === 'merged' && details.message
+          ? `${details.message} (merged with revision ${latest!.version})`
+          : details.message ?? null
+      });
+      if (committed) {
+        return {
+          status,
+          section: committed.section,
+          revision: committed.revision?.version ?? latest?.version ?? null
+        };
+      }
+
+      console.log(`🔁 Project ${projectId} moved past revision ${latest?.version ?? 0} while saving, merging again`);
+    }
+
+    throw new Error(`Project ${projectId} kept changing while saving; try again`);
+  }
+}
@@ -0,0 +1,150 @@
+import { readFileSync } from 'fs';
+import { BaseLLMService } from './base-llm.service.js';
+import { defaultMockFixture } from '../fixtures/mock-llm.fixture.js';
+import {
+  LLMMessage,
+  LLMProviderConfig,
+  LLMCompletionOptions,
+  LLMHealthStatus,
+  GenerationPlanData,
+} from '../types/llm.js';
+
+export type MockOperation = 'plan' | 'code' | 'documentation' | 'completion';
+
+export interface MockResponseEntry {
+  // Substring of the user prompt that selects this entry; omitted means "default"
+  match?: string;
+  chunks?: string[];
+  content?: string;
+}
+
+export interface MockLLMFixture {
+  name: string;
+  plan: GenerationPlanData;
+  code: MockResponseEntry[];
+  documentation?: MockResponseEntry[];
+  completions?: MockResponseEntry[];
+  // Operations that should throw; retried without delay, then the error reaches the caller
+  fail?: MockOperation[];
+}
+
+export interface MockLLMOptions {
+  fixturePath?: string | undefined;
+  // Used when no fixturePath is given, e.g. a fixture built by a test
+  fixture?: MockLLMFixture;
+  latencyMs?: number;
+  chunkSize?: number;
+}
+
+/**
+ * Deterministic provider that replays canned responses instead of calling a
+ * model. Responses still go through BaseLLMService, so plan parsing, streaming
+ * and documentation code paths run exactly as they would against a real API.
+ * Failures are not papered over with fallback content, so tests see them.
+ */
+export class MockLLMService extends BaseLLMService {
+  readonly name = 'Mock LLM';
+  protected override strict = true;
+  protected override retryDelayMs = 0;
+  private fixture: MockLLMFixture;
+  private latencyMs: number;
+  private chunkSize: number;
+
+  constructor(config: LLMProviderConfig, options: MockLLMOptions = {}) {
+    super(config);
+    this.fixture = options.fixturePath
+      ? MockLLMService.loadFixture(options.fixturePath)
+      : options.fixture ?? defaultMockFixture;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.chunkSize = options.chunkSize ?? 40;
+  }
+
+  static loadFixture(fixturePath: string): MockLLMFixture {
+    const fixture = JSON.parse(readFileSync(fixturePath, 'utf-8')) as MockLLMFixture;
+
+    if (!fixture.plan || !Array.isArray(fixture.code)) {
+      throw new Error(`Invalid mock LLM fixture at ${fixturePath}: "plan" and "code" are required`);
+    }
+
+    return fixture;
+  }
+
+  protected async complete(messages: LLMMessage[], _options?: LLMCompletionOptions): Promise<string> {
+    const operation = this.detectOperation(messages);
+    this.assertNotFailing(operation);
+    await this.delay(this.latencyMs);
+
+    if (operation === 'plan') {
+      return `\`\`\`json\n${JSON.stringify(this.fixture.plan, null, 2)}\n\`\`\``;
+    }
+
+    const entries = operation === 'documentation'
+      ? this.fixture.documentation
+      : this.fixture.completions;
+
+    return this.getChunks(this.findEntry(entries, messages)).join('');
+  }
+
+  protected async *streamComplete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    this.assertNotFailing('code');
+
+    for (const chunk of this.getChunks(this.findEntry(this.fixture.code, messages))) {
+      await this.delay(this.latencyMs);
+      if (options.signal?.aborted) {
+        throw new Error('Mock LLM stream aborted');
+      }
+      yield chunk;
+    }
+  }
+
+  async healthCheck(): Promise<LLMHealthStatus> {
+    return {
+      status: 'healthy',
+      details: `Replaying fixture "${this.fixture.name}" via ${this.name}`,
+    };
+  }
+
+  private detectOperation(messages: LLMMessage[]): MockOperation {
+    const system = messages.find(message => message.role === 'system')?.content || '';
+
+    if (system.includes('create a detailed plan')) return 'plan';
+    if (system.includes('technical writer')) return 'documentation';
+    return 'completion';
+  }
+
+  private assertNotFailing(operation: MockOperation): void {
+    if (this.fixture.fail?.includes(operation)) {
+      throw new Error(`Mock LLM scripted failure for ${operation}`);
+    }
+  }
+
+  private findEntry(
+    entries: MockResponseEntry[] | undefined,
+    messages: LLMMessage[]
+  ): MockResponseEntry | undefined {
+    if (!entries) return undefined;
+
+    const prompt = messages
+      .filter(message => message.role === 'user')
+      .map(message => message.content)
+      .join('\n');
+
+    return entries.find(entry => entry.match && prompt.includes(entry.match))
+      || entries.find(entry => !entry.match);
+  }
+
+  private getChunks(entry: MockResponseEntry | undefined): string[] {
+    if (!entry) return [];
+    if (entry.chunks) return entry.chunks;
+
+    const content = entry.content || '';
+    const chunks: string[] = [];
+    for (let i = 0; i < content.length; i += this.chunkSize) {
+      chunks.push(content.slice(i, i + this.chunkSize));
+    }
+    return chunks;
+  }
+}
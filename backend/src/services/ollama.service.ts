@@ -0,0 +1,134 @@
+import axios, { AxiosInstance } from 'axios';
+import { BaseLLMService } from './base-llm.service.js';
+import {
+  LLMMessage,
+  LLMProviderConfig,
+  LLMCompletionOptions,
+  LLMHealthStatus,
+} from '../types/llm.js';
+
+interface OllamaChatResponse {
+  model: string;
+  created_at: string;
+  message?: {
+    role: string;
+    content: string;
+  };
+  done: boolean;
+  error?: string;
+}
+
+interface OllamaTagsResponse {
+  models: {
+    name: string;
+    model?: string;
+  }[];
+}
+
+/**
+ * Adapter for a local Ollama server using its native `/api/chat` endpoint.
+ * Streaming responses are newline-delimited JSON rather than SSE.
+ */
+export class OllamaService extends BaseLLMService {
+  readonly name = 'Ollama';
+  private client: AxiosInstance;
+
+  constructor(config: LLMProviderConfig) {
+    super(config);
+    this.client = axios.create({
+      baseURL: config.apiUrl,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      timeout: 120000, // Local models on CPU can be slow to produce a first token
+    });
+  }
+
+  protected async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<string> {
+    const response = await this.client.post<OllamaChatResponse>(
+      '/api/chat',
+      this.createRequestBody(messages, options, false),
+      { ...(options.timeout && { timeout: Math.max(options.timeout, 120000) }) }
+    );
+
+    if (response.data.error) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data.message?.content || '';
+  }
+
+  protected async *streamComplete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    const response = await this.client.post(
+      '/api/chat',
+      this.createRequestBody(messages, options, true),
+      {
+        responseType: 'stream',
+        ...(options.timeout && { timeout: Math.max(options.timeout, 120000) }),
+        ...(options.signal && { signal: options.signal }),
+      }
+    );
+
+    for await (const line of this.readLines(response.data)) {
+      if (!line.trim()) continue;
+
+      let parsed: OllamaChatResponse;
+      try {
+        parsed = JSON.parse(line);
+      } catch (e) {
+        // Skip invalid JSON lines
+        continue;
+      }
+
+      if (parsed.error) {
+        throw new Error(parsed.error);
+      }
+      if (parsed.message?.content) {
+        yield parsed.message.content;
+      }
+      if (parsed.done) return;
+    }
+  }
+
+  async healthCheck(): Promise<LLMHealthStatus> {
+    try {
+      const response = await this.client.get<OllamaTagsResponse>('/api/tags', { timeout: 5000 });
+      const installed = response.data.models.map(model => model.name);
+      const hasModel = installed.some(name =>
+        name === this.config.model || name.split(':')[0] === this.config.model
+      );
+
+      if (!hasModel) {
+        return {
+          status: 'unhealthy',
+          details: `Model ${this.config.model} is not installed. Run "ollama pull ${this.config.model}"`,
+        };
+      }
+
+      return {
+        status: 'healthy',
+        details: `Connected to ${this.config.model} via ${this.name}`,
+      };
+    } catch (error: any) {
+      return {
+        status: 'unhealthy',
+        details: error.response?.data?.error || error.message || 'Connection failed',
+      };
+    }
+  }
+
+  private createRequestBody(messages: LLMMessage[], options: LLMCompletionOptions, stream: boolean) {
+    return {
+      model: this.config.model,
+      messages,
+      stream,
+      options: {
+        temperature: options.temperature ?? this.config.temperature,
+        num_predict: options.maxTokens ?? this.config.maxTokens,
+      },
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import axios, { AxiosInstance } from 'axios';
+import { BaseLLMService } from './base-llm.service.js';
+import {
+  LLMMessage,
+  LLMProviderConfig,
+  LLMCompletionOptions,
+  LLMHealthStatus,
+  LLMResponse,
+  LLMStreamChunk,
+} from '../types/llm.js';
+
+/**
+ * Adapter for any endpoint that speaks the OpenAI `/chat/completions` protocol:
+ * OpenAI itself, DeepSeek, LiteLLM gateways and llama.cpp's built-in server.
+ */
+export class OpenAICompatibleService extends BaseLLMService {
+  readonly name: string;
+  protected client: AxiosInstance;
+
+  constructor(config: LLMProviderConfig, name = 'OpenAI-compatible API') {
+    super(config);
+    this.name = name;
+    this.client = axios.create({
+      baseURL: config.apiUrl,
+      headers: {
+        'Content-Type': 'application/json',
+        // Local servers such as llama.cpp run without a key
+        ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
+      },
+      timeout: 60000, // 60 seconds timeout
+    });
+  }
+
+  protected async complete(messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<string> {
+    const response = await this.client.post<LLMResponse>('/chat/completions', {
+      model: this.config.model,
+      messages,
+      temperature: options.temperature ?? this.config.temperature,
+      max_tokens: options.maxTokens ?? this.config.maxTokens,
+      stream: false,
+    }, {
+      ...(options.timeout && { timeout: options.timeout }),
+    });
+
+    return response.data.choices[0]?.message?.content || '';
+  }
+
+  protected async *streamComplete(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    const response = await this.client.post('/chat/completions', {
+      model: this.config.model,
+      messages,
+      temperature: options.temperature ?? this.config.temperature,
+      max_tokens: options.maxTokens ?? this.config.maxTokens,
+      stream: true,
+    }, {
+      responseType: 'stream',
+      ...(options.timeout && { timeout: options.timeout }),
+      ...(options.signal && { signal: options.signal }),
+    });
+
+    for await (const line of this.readLines(response.data)) {
+      if (!line.startsWith('data: ')) continue;
+
+      const data = line.slice(6).trim();
+      if (data === '[DONE]') return;
+
+      try {
+        const parsed: LLMStreamChunk = JSON.parse(data);
+        const content = parsed.choices[0]?.delta?.content;
+        if (content) {
+          yield content;
+        }
+      } catch (e) {
+        // Skip invalid JSON lines
+        continue;
+      }
+    }
+  }
+
+  async healthCheck(): Promise<LLMHealthStatus> {
+    try {
+      await this.client.post('/chat/completions', {
+        model: this.config.model,
+        messages: [{ role: 'user', content: 'test' }],
+        max_tokens: 1,
+      }, { timeout: 5000 });
+
+      return {
+        status: 'healthy',
+        details: `Connected to ${this.config.model} via ${this.name}`,
+      };
+    } catch (error: any) {
+      return {
+        status: 'unhealthy',
+        details: this.describeError(error),
+      };
+    }
+  }
+}
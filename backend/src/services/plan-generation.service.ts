@@ -1,9 +1,17 @@
+import { Prisma } from '@prisma/client';
 import { LLMService } from './llm.service';
+import { GenerationPlanRepository } from '../repositories/generation-plan.repository.js';
 import { GenerationPlan, ComponentPlan, ArchitecturePlan } from '../types/generation';
-import { GenerationPreferences } from '../types/database';
+import { GenerationPreferences, GenerationPlan as GenerationPlanRecord } from '../types/database';
+
+// Plan fields kept in generation_plans.plan_data; the rest live in their own columns
+type StoredPlanData = Omit<GenerationPlan, 'id' | 'projectId' | 'version' | 'approved' | 'createdAt'>;
 
 export class PlanGenerationService {
-  constructor(private llmService: LLMService) {}
+  constructor(
+    private llmService: LLMService,
+    private planRepo: GenerationPlanRepository = new GenerationPlanRepository()
+  ) {}
 
   async generatePlan(
     prompt: string, 
@@ -28,7 +36,7 @@ export class PlanGenerationService {
           name: comp.name,
           type: this.mapComponentType(comp.type),
           description: comp.description,
-          dependencies: [],
+          dependencies: comp.dependencies || [],
           estimatedComplexity: comp.estimatedComplexity
         })),
         architecture: {
@@ -150,11 +158,65 @@ export class PlanGenerationService {
     return 'utility';
   }
 
+  /**
+   * Persist a generated plan as the next version for the project
+   */
+  async savePlan(projectId: string, plan: GenerationPlan): Promise<GenerationPlan> {
+    const record = await this.planRepo.createNextVersion(
+      projectId,
+      this.toStoredPlanData(plan) as unknown as Prisma.InputJsonValue
+    );
+    return this.toGenerationPlan(record);
+  }
+
+  async getPlan(planId: string): Promise<GenerationPlan | null> {
+    const record = await this.planRepo.findById(planId);
+    return record ? this.toGenerationPlan(record) : null;
+  }
+
+  async getPlanVersions(projectId: string): Promise<GenerationPlan[]> {
+    const records = await this.planRepo.findByProjectId(projectId);
+    return records.map(record => this.toGenerationPlan(record));
+  }
+
+  async approvePlan(planId: string): Promise<GenerationPlan | null> {
+    const record = await this.planRepo.findById(planId);
+    if (!record) return null;
+
+    return this.toGenerationPlan(await this.planRepo.approve(planId));
+  }
+
+  /**
+   * Modifications never touch an existing version; they are saved as a new,
+   * unapproved version so the approved plan stays reproducible.
+   */
   async updatePlan(
     planId: string, 
     modifications: Partial<GenerationPlan>
   ): Promise<GenerationPlan> {
-    // Implementation for plan updates
-    throw new Error('Plan update not implemented yet');
+    const existing = await this.getPlan(planId);
+    if (!existing || !existing.projectId) {
+      throw new Error(`Plan ${planId} not found`);
+    }
+
+    return this.savePlan(existing.projectId, { ...existing, ...modifications });
+  }
+
+  private toStoredPlanData(plan: GenerationPlan): StoredPlanData {
+    const { id, projectId, version, approved, createdAt, ...planData } = plan;
+    return planData;
+  }
+
+  private toGenerationPlan(record: GenerationPlanRecord): GenerationPlan {
+    const planData = record.planData as unknown as StoredPlanData;
+
+    return {
+      ...planData,
+      id: record.id,
+      projectId: record.projectId,
+      version: record.version,
+      approved: record.approved,
+      createdAt: record.createdAt
+    };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,200 @@
+import { ProjectRevisionRepository, ProjectRevisionSummary } from '../repositories/project-revision.repository.js';
+import { DiffPatchService } from './diff-patch.service.js';
+import { CodeSection, CreateCodeSectionInput, ProjectRevision, RevisionTrigger, SectionType } from '../types/database.js';
+
+export class RevisionNotFoundError extends Error {
+  constructor(projectId: string, version: number) {
+    super(`Revision ${version} not found for project ${projectId}`);
+    this.name = 'RevisionNotFoundError';
+  }
+}
+
+export interface RevisionDetails {
+  trigger: RevisionTrigger;
+  message?: string | null;
+  authorId?: string | null;
+}
+
+export interface RevisionDiff {
+  from: ProjectRevisionSummary;
+  to: ProjectRevisionSummary;
+  // diff-match-patch patch text turning `from` into `to`
+  patches: string;
+  preview: string;
+  stats: { additions: number; deletions: number; modifications: number };
+}
+
+// Fields of the page section besides its content; used when the project has none yet
+export type PageSection = Omit<CreateCodeSectionInput, 'projectId' | 'codeContent'>;
+
+export const COMPLETE_ELEMENT_ID = 'complete-html';
+const COMPLETE_SECTION: PageSection = {
+  elementId: COMPLETE_ELEMENT_ID,
+  sectionName: COMPLETE_ELEMENT_ID,
+  sectionType: SectionType.HTML,
+  documentation: 'Complete organized HTML with all components',
+  orderIndex: 999
+};
+
+// Writes that landed after the latest revision was read, before overwriting gives up
+const MAX_COMMIT_ATTEMPTS = 5;
+
+/**
+ * History of a project's complete HTML. Every write to the page is recorded as
+ * a numbered snapshot, so any earlier version can be compared or restored even
+ * after the section itself has been overwritten.
+ */
+export class RevisionService {
+  constructor(
+    private revisionRepo: ProjectRevisionRepository = new ProjectRevisionRepository(),
+    private diffPatchService: DiffPatchService = new DiffPatchService()
+  ) {}
+
+  // Stores `htmlContent` as the next revision; returns null when it matches the latest one
+  async record(projectId: string, htmlContent: string, details: RevisionDetails): Promise<ProjectRevision | null> {
+    const latest = await this.revisionRepo.findLatestByProjectId(projectId);
+    if (latest?.htmlContent === htmlContent) return null;
+
+    const revision = await this.revisionRepo.createNextVersion({
+      projectId,
+      htmlContent,
+      trigger: details.trigger,
+      message: details.message ?? null,
+      authorId: details.authorId ?? null,
+      restoredFrom: null,
+    });
+    console.log(`🕓 Recorded revision ${revision.version} (${revision.trigger}) for project ${projectId}`);
+    return revision;
+  }
+
+  /**
+   * Records a saved section when it holds the project's complete HTML. History
+   * is best effort here: a failure is logged rather than undoing the save.
+   */
+  async recordSection(section: CodeSection, details: RevisionDetails): Promise<ProjectRevision | null> {
+    if (section.elementId !== COMPLETE_ELEMENT_ID && section.sectionName !== COMPLETE_ELEMENT_ID) return null;
+
+    try {
+      return await this.record(section.projectId, section.codeContent, details);
+    } catch (error) {
+      console.warn(`⚠️ Failed to record revision for project ${section.projectId}:`, error);
+      return null;
+    }
+  }
+
+  async list(projectId: string): Promise<ProjectRevisionSummary[]> {
+    return this.revisionRepo.findByProjectId(projectId);
+  }
+
+  async get(projectId: string, version: number): Promise<ProjectRevision> {
+    const revision = await this.revisionRepo.findByVersion(projectId, version);
+    if (!revision) {
+      throw new RevisionNotFoundError(projectId, version);
+    }
+    return revision;
+  }
+
+  async latest(projectId: string): Promise<ProjectRevision | null> {
+    return this.revisionRepo.findLatestByProjectId(projectId);
+  }
+
+  async diff(projectId: string, fromVersion: number, toVersion: number): Promise<RevisionDiff> {
+    const from = await this.get(projectId, fromVersion);
+    const to = await this.get(projectId, toVersion);
+    const { preview, stats } = this.diffPatchService.generatePreviewPatch(from.htmlContent, to.htmlContent);
+
+    return {
+      from: this.summarize(from),
+      to: this.summarize(to),
+      patches: this.diffPatchService.createPatch(from.htmlContent, to.htmlContent),
+      preview,
+      stats
+    };
+  }
+
+  /**
+   * Writes a revision's snapshot back to the complete-html section and records
+   * that as a new revision, so the history itself is never rewritten. The
+   * revision is null when the snapshot matches the current page.
+   */
+  async restore(
+    projectId: string,
+    version: number,
+    details: Omit<RevisionDetails, 'trigger'> = {}
+  ): Promise<{ revision: ProjectRevision | null; section: CodeSection }> {
+    const source = await this.get(projectId, version);
+    const result = await this.overwriteCompleteHTML(projectId, source.htmlContent, {
+      trigger: RevisionTrigger.RESTORE,
+      message: details.message || `Restored revision ${version}`,
+      authorId: details.authorId ?? null
+    }, { restoredFrom: version });
+    console.log(`⏪ Restored revision ${version} of project ${projectId}`);
+
+    return result;
+  }
+
+  /**
+   * Replaces the complete-html section outright and records it as the newest
+   * revision, whatever revision it follows. For writes that do not build on
+   * an earlier page, like generation and restores; edits use
+   * `commitCompleteHTML` so concurrent changes are merged rather than lost.
+   */
+  async overwriteCompleteHTML(
+    projectId: string,
+    htmlContent: string,
+    details: RevisionDetails,
+    options: { page?: PageSection; restoredFrom?: number } = {}
+  ): Promise<{ section: CodeSection; revision: ProjectRevision | null }> {
+    for (let attempt = 1; attempt <= MAX_COMMIT_ATTEMPTS; attempt++) {
+      const latest = await this.revisionRepo.findLatestByProjectId(projectId);
+      const committed = await this.commit(projectId, htmlContent, latest?.version ?? null, details, options);
+      if (committed) return committed;
+    }
+
+    throw new Error(`Project ${projectId} kept changing while saving; try again`);
+  }
+
+  /**
+   * Saves the complete-html section and records it as the revision after
+   * `expectedVersion` together. Returns null, saving nothing, when the project
+   * has moved past `expectedVersion`; callers re-apply their change and retry.
+   */
+  async commitCompleteHTML(
+    projectId: string,
+    htmlContent: string,
+    expectedVersion: number | null,
+    details: RevisionDetails
+  ): Promise<{ section: CodeSection; revision: ProjectRevision | null } | null> {
+    return this.commit(projectId, htmlContent, expectedVersion, details);
+  }
+
+  private async commit(
+    projectId: string,
+    htmlContent: string,
+    expectedVersion: number | null,
+    details: RevisionDetails,
+    options: { page?: PageSection; restoredFrom?: number } = {}
+  ): Promise<{ section: CodeSection; revision: ProjectRevision | null } | null> {
+    const committed = await this.revisionRepo.commitPage(
+      expectedVersion,
+      {
+        projectId,
+        htmlContent,
+        trigger: details.trigger,
+        message: details.message ?? null,
+        authorId: details.authorId ?? null,
+        restoredFrom: options.restoredFrom ?? null,
+      },
+      options.page ?? COMPLETE_SECTION
+    );
+    if (committed?.revision) {
+      console.log(`🕓 Recorded revision ${committed.revision.version} (${committed.revision.trigger}) for project ${projectId}`);
+    }
+    return committed;
+  }
+
+  private summarize(revision: ProjectRevision): ProjectRevisionSummary {
+    const { htmlContent: _htmlContent, ...summary } = revision;
+    return summary;
+  }
+}
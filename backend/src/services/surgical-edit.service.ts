@@ -1,60 +1,174 @@
-import { DeepSeekService } from './deepseek.service.js';
+import { LLMService } from './llm.service.js';
 import { DiffPatchService } from './diff-patch.service.js';
+import { HtmlDocument, InvalidSelectorError } from '../utils/html-document.js';
+import { ElementPid } from '../utils/element-pid.js';
 
-interface SurgicalEditConfig {
-  apiKey: string;
-  apiUrl: string;
-  model: string;
-  temperature: number;
-  maxTokens: number;
+export interface SurgicalEditResult {
+  updatedCode: string;
+  // diff-match-patch patch text, applicable with patch_fromText/patch_apply
+  patches: string;
+  // diff-match-patch HTML rendering of the change, for review in the UI
+  preview: string;
+  stats: { additions: number; deletions: number; modifications: number };
+  changesSummary: string;
 }
 
-export class SurgicalEditService {
-  private deepSeekService: DeepSeekService;
-  private diffPatchService: DiffPatchService;
+export class SurgicalEditRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SurgicalEditRejectedError';
+  }
+}
 
-  constructor(config: SurgicalEditConfig) {
-    this.deepSeekService = new DeepSeekService(config);
-    this.diffPatchService = new DiffPatchService();
+export class SelectorNotFoundError extends Error {
+  constructor(selector: string) {
+    super(`No element matches selector "${selector}"`);
+    this.name = 'SelectorNotFoundError';
   }
+}
+
+export interface SurgicalEditOptions {
+  // Element to edit, as produced by ElementSelector; without it the whole document is sent
+  selector?: string;
+}
+
+/**
+ * Applies small LLM-written edits to generated HTML. LLM failures and answers
+ * that are not usable HTML are errors; the code is never changed by guesswork.
+ */
+export class SurgicalEditService {
+  constructor(
+    private llmService: LLMService,
+    private diffPatchService: DiffPatchService = new DiffPatchService()
+  ) {}
 
   async applySurgicalEdit(
     currentCode: string,
     editInstruction: string,
-    projectId?: string
-  ): Promise<{
-    updatedCode: string;
-    patches: any[];
-    changesSummary: string;
-  }> {
+    options: SurgicalEditOptions = {}
+  ): Promise<SurgicalEditResult> {
     try {
-      // Create a focused prompt for surgical editing
-      const surgicalPrompt = this.createSurgicalEditPrompt(currentCode, editInstruction);
-      
-      // Use DeepSeek to generate the minimal edit
-      const updatedCode = await this.generateSurgicalEdit(surgicalPrompt);
+      const editedCode = options.selector
+        ? await this.applyScopedEdit(currentCode, editInstruction, options.selector)
+        : await this.applyDocumentEdit(currentCode, editInstruction);
+      // Edited elements keep their pids; elements the edit added get their own
+      const updatedCode = ElementPid.isStamped(currentCode)
+        ? ElementPid.stamp(ElementPid.carryOver(currentCode, editedCode))
+        : editedCode;
+
+      if (updatedCode === currentCode) {
+        throw new SurgicalEditRejectedError('Edit did not change the code');
+      }
       
       // Create diff patches to track changes
       const patches = this.diffPatchService.createPatch(currentCode, updatedCode);
-      
-      // Validate that the edit is minimal and focused
-      const isValidEdit = this.validateSurgicalEdit(currentCode, updatedCode, editInstruction);
-      
-      if (!isValidEdit) {
-        throw new Error('Generated edit is too extensive for surgical editing');
-      }
+      const { preview, stats } = this.diffPatchService.generatePreviewPatch(currentCode, updatedCode);
 
       return {
         updatedCode,
         patches,
+        preview,
+        stats,
         changesSummary: `Applied surgical edit: ${editInstruction}`
       };
     } catch (error) {
       console.error('Surgical edit failed:', error);
+      if (
+        error instanceof SurgicalEditRejectedError ||
+        error instanceof InvalidSelectorError ||
+        error instanceof SelectorNotFoundError
+      ) {
+        throw error;
+      }
       throw new Error(`Surgical edit failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Sends only the selected element to the LLM and splices the returned
+   * fragment back into the document, so markup outside it cannot change.
+   */
+  private async applyScopedEdit(
+    currentCode: string,
+    editInstruction: string,
+    selector: string
+  ): Promise<string> {
+    const document = HtmlDocument.parse(currentCode);
+    const element = document.querySelector(selector);
+    if (!element) {
+      throw new SelectorNotFoundError(selector);
+    }
+
+    const fragment = document.outerHTML(element);
+    const parent = document.parentElement(element);
+    console.log(`🎯 Scoped surgical edit on ${document.describePath(element)} (${fragment.length} of ${currentCode.length} chars)`);
+
+    const prompt = this.createScopedEditPrompt(
+      fragment,
+      editInstruction,
+      document.describePath(element),
+      parent ? document.startTag(parent) : null
+    );
+    const editedFragment = await this.generateFragmentEdit(prompt);
+
+    return document.replaceElement(element, editedFragment);
+  }
+
+  private async applyDocumentEdit(currentCode: string, editInstruction: string): Promise<string> {
+    // Create a focused prompt for surgical editing
+    const surgicalPrompt = this.createSurgicalEditPrompt(currentCode, editInstruction);
+    
+    const updatedCode = await this.generateSurgicalEdit(surgicalPrompt, currentCode);
+    
+    // Validate that the edit is minimal and focused
+    const isValidEdit = this.validateSurgicalEdit(currentCode, updatedCode, editInstruction);
+    
+    if (!isValidEdit) {
+      throw new SurgicalEditRejectedError('Generated edit is too extensive for surgical editing');
+    }
+
+    return updatedCode;
+  }
+
+  private createScopedEditPrompt(
+    fragment: string,
+    editInstruction: string,
+    path: string,
+    parentTag: string | null
+  ): string {
+    return `You are a precise code editor that makes ONLY the specific change requested.
+
+IMPORTANT RULES:
+1. Edit ONLY the HTML element below; it will be put back in place of the original
+2. Return the complete edited element, starting with its opening tag
+3. Keep its tag, id and existing attributes (including every data-pid) unless the instruction asks to change them
+4. Do NOT return a full HTML document or any surrounding markup
+5. Return ONLY the HTML without explanations
+
+Location in page: ${path}
+${parentTag ? `Parent element: ${parentTag}\n` : ''}
+Element HTML:
+${fragment}
+
+Edit Instruction: ${editInstruction}
+
+Return the element with ONLY the requested change applied:`;
+  }
+
+  private async generateFragmentEdit(prompt: string): Promise<string> {
+    const response = await this.llmService.generateCompletion(prompt);
+    const editedFragment = this.cleanGeneratedFragment(response);
+
+    // Reject answers that are not a single element, e.g. an explanation or a whole new page
+    const parsed = HtmlDocument.parse(editedFragment);
+    const roots = parsed.elements.filter(element => !parsed.parentElement(element));
+    if (roots.length !== 1 || /<!doctype|<html[\s>]/i.test(editedFragment)) {
+      throw new SurgicalEditRejectedError('Generated edit is not a single HTML element');
+    }
+
+    return editedFragment;
+  }
+
   private createSurgicalEditPrompt(currentCode: string, editInstruction: string): string {
     return `You are a precise code editor that makes ONLY the specific change requested.
 
@@ -73,93 +187,18 @@ Edit Instruction: ${editInstruction}
 Return the HTML with ONLY the requested change applied:`;
   }
 
-  private async generateSurgicalEdit(prompt: string): Promise<string> {
-    try {
-      console.log('🤖 Generating surgical edit with DeepSeek...');
-      
-      // Use the simple text replacement approach first
-      const editResult = await this.performSimpleTextReplacement(prompt);
-      
-      return editResult;
-    } catch (error) {
-      console.error('Failed to generate surgical edit:', error);
-      throw error;
-    }
-  }
+  private async generateSurgicalEdit(prompt: string, originalCode: string): Promise<string> {
+    console.log(`🤖 Generating surgical edit with ${this.llmService.providerName}...`);
 
-  private async performSimpleTextReplacement(prompt: string): Promise<string> {
-    // Extract the original code and edit instruction from the prompt
-    const lines = prompt.split('\n');
-    const codeStartIndex = lines.findIndex(line => line.includes('Current HTML:'));
-    const instructionIndex = lines.findIndex(line => line.includes('Edit Instruction:'));
-    
-    if (codeStartIndex === -1 || instructionIndex === -1) {
-      throw new Error('Invalid prompt format for surgical edit');
-    }
-    
-    const originalCode = lines.slice(codeStartIndex + 1, instructionIndex).join('\n').trim();
-    const instruction = lines.slice(instructionIndex + 1).join('\n').trim();
-    
-    console.log('🔍 Performing surgical edit for:', instruction);
-    
-    // Use DeepSeek to perform the actual edit
-    try {
-      const response = await this.deepSeekService.generateCompletion(prompt);
-      const editedCode = this.cleanGeneratedCode(response);
-      
-      // Validate that we got actual HTML back
-      if (!editedCode.includes('<') || editedCode.length < originalCode.length * 0.5) {
-        console.warn('Generated code seems invalid, falling back to simple text replacement');
-        return this.performBasicTextReplacement(originalCode, instruction);
-      }
-      
-      return editedCode;
-    } catch (error) {
-      console.error('AI-powered edit failed, falling back to basic replacement:', error);
-      return this.performBasicTextReplacement(originalCode, instruction);
-    }
-  }
+    const response = await this.llmService.generateCompletion(prompt);
+    const editedCode = this.cleanGeneratedCode(response);
 
-  private performBasicTextReplacement(originalCode: string, instruction: string): string {
-    // Perform basic text replacements for common edit patterns
-    const lowerInstruction = instruction.toLowerCase();
-    
-    // Handle text content changes
-    if (lowerInstruction.includes('change text') || lowerInstruction.includes('update text')) {
-      const textMatch = instruction.match(/(?:to|with)\s*['"](.*?)['"]|(?:to|with)\s*(.+?)(?:\.|$)/i);
-      if (textMatch) {
-        const newText = textMatch[1] || textMatch[2];
-        // Find and replace text content in HTML elements
-        return originalCode.replace(/>([^<]+)</g, (match, content) => {
-          if (content.trim() && !content.includes('<')) {
-            return `>${newText}<`;
-          }
-          return match;
-        });
-      }
+    // Validate that we got actual HTML back
+    if (!editedCode.includes('<') || editedCode.length < originalCode.length * 0.5) {
+      throw new SurgicalEditRejectedError('Generated edit is not a valid HTML document');
     }
-    
-    // Handle color changes
-    if (lowerInstruction.includes('color')) {
-      const colorMatch = instruction.match(/(?:to|with)\s*([a-zA-Z]+|#[0-9a-fA-F]{3,6})/i);
-      if (colorMatch) {
-        const newColor = colorMatch[1];
-        return originalCode.replace(/color:\s*[^;]+/gi, `color: ${newColor}`);
-      }
-    }
-    
-    // Handle class changes
-    if (lowerInstruction.includes('class')) {
-      const classMatch = instruction.match(/(?:to|with)\s*['"](.*?)['"]|(?:to|with)\s*([a-zA-Z0-9\s-]+)/i);
-      if (classMatch) {
-        const newClass = classMatch[1] || classMatch[2];
-        return originalCode.replace(/class="[^"]*"/gi, `class="${newClass}"`);
-      }
-    }
-    
-    // If no specific pattern matches, return original code
-    console.warn('No matching pattern found for instruction:', instruction);
-    return originalCode;
+
+    return editedCode;
   }
 
   private cleanGeneratedCode(code: string): string {
@@ -179,15 +218,25 @@ Return the HTML with ONLY the requested change applied:`;
     return cleaned.trim();
   }
 
+  private cleanGeneratedFragment(code: string): string {
+    const fenced = code.match(/```(?:html)?\n([\s\S]*?)\n?```/);
+    const cleaned = fenced && fenced[1] !== undefined ? fenced[1] : code;
+
+    // Drop any prose before the first tag or after the last one
+    const start = cleaned.indexOf('<');
+    const end = cleaned.lastIndexOf('>');
+    return start === -1 || end < start ? cleaned.trim() : cleaned.slice(start, end + 1);
+  }
+
   private validateSurgicalEdit(
     originalCode: string,
     updatedCode: string,
     editInstruction: string
   ): boolean {
     // Calculate the percentage of code that changed
-    const patches = this.diffPatchService.createPatch(originalCode, updatedCode);
+    const { stats } = this.diffPatchService.generatePreviewPatch(originalCode, updatedCode);
     const totalLines = originalCode.split('\n').length;
-    const changedLines = patches.length;
+    const changedLines = stats.additions + stats.deletions + stats.modifications;
     const changePercentage = (changedLines / totalLines) * 100;
 
     // If more than 20% of the code changed, it's probably not a surgical edit
@@ -0,0 +1,337 @@
+import { Prisma } from '@prisma/client';
+import { ProjectRepository } from '../repositories/project.repository.js';
+import { CodeSectionRepository } from '../repositories/code-section.repository.js';
+import { RevisionService } from './revision.service.js';
+import { CodeSection, RevisionTrigger } from '../types/database.js';
+import { ProjectTheme, ProjectThemeUpdate, ThemeFont } from '../types/theme.js';
+
+export class InvalidThemeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidThemeError';
+  }
+}
+
+const NEUTRAL_FAMILIES = ['slate', 'gray', 'zinc', 'neutral', 'stone'];
+const COLOR_FAMILIES = [
+  ...NEUTRAL_FAMILIES,
+  'red', 'orange', 'amber', 'yellow', 'lime', 'green', 'emerald', 'teal', 'cyan',
+  'sky', 'blue', 'indigo', 'violet', 'purple', 'fuchsia', 'pink', 'rose',
+];
+const FONTS: ThemeFont[] = ['sans', 'serif', 'mono'];
+const RADII = ['none', 'sm', 'DEFAULT', 'md', 'lg', 'xl', '2xl', '3xl'];
+const SPACING_SCALE = [
+  0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 16,
+  20, 24, 28, 32, 36, 40, 44, 48, 52, 56, 60, 64, 72, 80, 96,
+];
+
+const COMPLETE_ELEMENT_ID = 'complete-html';
+// Page rewrites retried when edits keep landing while the theme is applied
+const MAX_PAGE_ATTEMPTS = 5;
+
+const DEFAULT_THEME: ProjectTheme = {
+  colors: { primary: 'blue', accent: null, neutral: 'gray' },
+  customColors: [],
+  font: 'sans',
+  radius: 'md',
+  spacing: 4,
+};
+
+// Class tokens start after whitespace or a quote and may carry variants such as `md:hover:`
+const TOKEN_START = '(?<=^|[\\s"\'`])((?:[\\w-]+:)*-?)';
+const TOKEN_END = '(?=$|[\\s"\'`/])';
+
+const COLOR_TOKEN = new RegExp(
+  `${TOKEN_START}(bg|text|border|from|via|to|ring-offset|ring|outline|divide|fill|stroke|placeholder|decoration|accent|caret|shadow)-(${COLOR_FAMILIES.join('|')})-(\\d{2,3})${TOKEN_END}`,
+  'g'
+);
+const FONT_TOKEN = new RegExp(`${TOKEN_START}font-(sans|serif|mono)${TOKEN_END}`, 'g');
+const RADIUS_TOKEN = new RegExp(
+  `${TOKEN_START}rounded(-(?:tl|tr|br|bl|ss|se|es|ee|t|r|b|l|s|e))?(?:-(none|sm|md|lg|xl|2xl|3xl|full))?${TOKEN_END}`,
+  'g'
+);
+const SPACING_TOKEN = new RegExp(
+  `${TOKEN_START}(px|py|pt|pr|pb|pl|ps|pe|p|mx|my|mt|mr|mb|ml|ms|me|m|gap-x|gap-y|gap|space-x|space-y)-(\\d+(?:\\.5)?)${TOKEN_END}`,
+  'g'
+);
+// Only hex values in CSS position, so fragment links such as href="#add" are left alone
+const HEX_COLOR = /(?<=[:\s,(])#(?:[0-9a-fA-F]{6}|[0-9a-fA-F]{3})\b/g;
+
+/**
+ * Extracts a project theme (colour roles, font, radius, spacing, custom CSS
+ * colours) from generated code and re-applies edits to it deterministically by
+ * rewriting the matching tokens, without an LLM round trip.
+ */
+export class ThemeService {
+  constructor(
+    private projectRepo: ProjectRepository = new ProjectRepository(),
+    private codeRepo: CodeSectionRepository = new CodeSectionRepository(),
+    private revisionService: RevisionService = new RevisionService()
+  ) {}
+
+  // Returns the stored theme, extracting it from the project's sections the first time
+  async getTheme(projectId: string): Promise<ProjectTheme | null> {
+    const project = await this.projectRepo.findById(projectId);
+    if (!project) return null;
+
+    const stored = this.readPreferences(project.preferences).theme as ProjectTheme | undefined;
+    if (stored) return stored;
+
+    return this.extractProjectTheme(projectId);
+  }
+
+  async extractProjectTheme(projectId: string): Promise<ProjectTheme | null> {
+    const project = await this.projectRepo.findById(projectId);
+    if (!project) return null;
+
+    const sections = await this.codeRepo.findByProjectId(projectId);
+    const theme = this.extractTheme(sections.map(section => section.codeContent));
+    await this.saveTheme(projectId, project.preferences, theme);
+
+    console.log(`🎨 Extracted theme for project ${projectId}: ${theme.colors.primary}/${theme.colors.neutral}`);
+    return theme;
+  }
+
+  /**
+   * Merges `changes` into the current theme and rewrites every code section of
+   * the project to match; the complete HTML is saved as a new revision. Returns
+   * null when the project does not exist.
+   */
+  async updateTheme(
+    projectId: string,
+    changes: ProjectThemeUpdate,
+    authorId: string | null = null
+  ): Promise<{ theme: ProjectTheme; updatedSections: CodeSection[] } | null> {
+    const current = await this.getTheme(projectId);
+    if (!current) return null;
+
+    const theme: ProjectTheme = {
+      ...current,
+      ...changes,
+      colors: { ...current.colors, ...changes.colors },
+    };
+    this.validateTheme(theme, current);
+
+    const sections = await this.codeRepo.findByProjectId(projectId);
+    const updatedSections: CodeSection[] = [];
+    for (const section of sections) {
+      if (section.elementId === COMPLETE_ELEMENT_ID) {
+        const page = await this.applyThemeToPage(projectId, section.id, current, theme, authorId);
+        if (page) updatedSections.push(page);
+        continue;
+      }
+
+      const codeContent = this.applyTheme(section.codeContent, current, theme);
+      if (codeContent !== section.codeContent) {
+        updatedSections.push(await this.codeRepo.updateContent(section.id, codeContent));
+      }
+    }
+
+    const project = await this.projectRepo.findById(projectId);
+    await this.saveTheme(projectId, project?.preferences ?? {}, theme);
+
+    console.log(`🎨 Applied theme to ${updatedSections.length}/${sections.length} sections of project ${projectId}`);
+    return { theme, updatedSections };
+  }
+
+  /**
+   * Rewrites the complete HTML as a revision of the version it was read at, so
+   * an edit saved meanwhile is re-themed rather than overwritten. Returns null
+   * when the theme changes nothing on the page.
+   */
+  private async applyThemeToPage(
+    projectId: string,
+    sectionId: string,
+    from: ProjectTheme,
+    to: ProjectTheme,
+    authorId: string | null
+  ): Promise<CodeSection | null> {
+    for (let attempt = 1; attempt <= MAX_PAGE_ATTEMPTS; attempt++) {
+      // Read before the page, so a save in between shows up as a moved version
+      const latest = await this.revisionService.latest(projectId);
+      const page = await this.codeRepo.findById(sectionId);
+      if (!page) return null;
+
+      const codeContent = this.applyTheme(page.codeContent, from, to);
+      if (codeContent === page.codeContent) return null;
+
+      const committed = await this.revisionService.commitCompleteHTML(projectId, codeContent, latest?.version ?? null, {
+        trigger: RevisionTrigger.MANUAL_EDIT,
+        message: 'Updated theme',
+        authorId
+      });
+      if (committed) return committed.section;
+    }
+
+    throw new Error(`Project ${projectId} kept changing while applying the theme; try again`);
+  }
+
+  extractTheme(codes: string[]): ProjectTheme {
+    const families = new Map<string, number>();
+    const fonts = new Map<string, number>();
+    const radii = new Map<string, number>();
+    const paddings = new Map<string, number>();
+    const hexColors = new Map<string, number>();
+
+    for (const code of codes) {
+      for (const [, , , family] of code.matchAll(COLOR_TOKEN)) {
+        this.increment(families, family!);
+      }
+      for (const [, , font] of code.matchAll(FONT_TOKEN)) {
+        this.increment(fonts, font!);
+      }
+      for (const [, , , size] of code.matchAll(RADIUS_TOKEN)) {
+        // Pills and avatars use rounded-full regardless of the design's corner style
+        if (size !== 'full') this.increment(radii, size || 'DEFAULT');
+      }
+      for (const [, variants, utility, step] of code.matchAll(SPACING_TOKEN)) {
+        if (!variants && utility!.startsWith('p')) this.increment(paddings, step!);
+      }
+      for (const [hex] of code.matchAll(HEX_COLOR)) {
+        this.increment(hexColors, hex.toLowerCase());
+      }
+    }
+
+    const ranked = this.rank(families);
+    const brand = ranked.filter(family => !NEUTRAL_FAMILIES.includes(family));
+    const spacing = Number(this.rank(paddings)[0]);
+
+    return {
+      colors: {
+        primary: brand[0] || DEFAULT_THEME.colors.primary,
+        accent: brand[1] || DEFAULT_THEME.colors.accent,
+        neutral: ranked.find(family => NEUTRAL_FAMILIES.includes(family)) || DEFAULT_THEME.colors.neutral,
+      },
+      customColors: this.rank(hexColors),
+      font: (this.rank(fonts)[0] as ThemeFont | undefined) || DEFAULT_THEME.font,
+      radius: this.rank(radii)[0] || DEFAULT_THEME.radius,
+      spacing: SPACING_SCALE.includes(spacing) ? spacing : DEFAULT_THEME.spacing,
+    };
+  }
+
+  /**
+   * Rewrites the tokens that differ between `from` and `to`. Colour families
+   * keep their shades, spacing is scaled and snapped to the Tailwind scale,
+   * and custom colours are swapped by position.
+   */
+  applyTheme(code: string, from: ProjectTheme, to: ProjectTheme): string {
+    let result = code;
+
+    const familyMap = new Map<string, string>();
+    for (const role of ['primary', 'accent', 'neutral'] as const) {
+      const oldFamily = from.colors[role];
+      const newFamily = to.colors[role];
+      if (oldFamily && newFamily && oldFamily !== newFamily && !familyMap.has(oldFamily)) {
+        familyMap.set(oldFamily, newFamily);
+      }
+    }
+    if (familyMap.size > 0) {
+      // Single pass, so swapping two families does not undo itself
+      result = result.replace(COLOR_TOKEN, (token, variants, utility, family, shade) =>
+        familyMap.has(family) ? `${variants}${utility}-${familyMap.get(family)}-${shade}` : token
+      );
+    }
+
+    if (from.font !== to.font) {
+      const hasFont = FONT_TOKEN.test(result);
+      FONT_TOKEN.lastIndex = 0;
+      result = hasFont
+        ? result.replace(FONT_TOKEN, (token, variants, font) =>
+            font === from.font ? `${variants}font-${to.font}` : token
+          )
+        : this.addBodyClass(result, `font-${to.font}`);
+    }
+
+    if (from.radius !== to.radius) {
+      result = result.replace(RADIUS_TOKEN, (token, variants, side = '', size) =>
+        (size || 'DEFAULT') === from.radius
+          ? `${variants}rounded${side}${to.radius === 'DEFAULT' ? '' : `-${to.radius}`}`
+          : token
+      );
+    }
+
+    if (from.spacing !== to.spacing) {
+      const ratio = to.spacing / from.spacing;
+      result = result.replace(SPACING_TOKEN, (token, variants, utility, step) =>
+        Number(step) === 0 ? token : `${variants}${utility}-${this.snapSpacing(Number(step) * ratio)}`
+      );
+    }
+
+    const hexMap = new Map<string, string>();
+    from.customColors.forEach((hex, index) => {
+      const replacement = to.customColors[index];
+      if (replacement && replacement.toLowerCase() !== hex.toLowerCase()) {
+        hexMap.set(hex.toLowerCase(), replacement);
+      }
+    });
+    if (hexMap.size > 0) {
+      result = result.replace(HEX_COLOR, hex => hexMap.get(hex.toLowerCase()) || hex);
+    }
+
+    return result;
+  }
+
+  private validateTheme(theme: ProjectTheme, current: ProjectTheme): void {
+    for (const role of ['primary', 'neutral'] as const) {
+      if (!COLOR_FAMILIES.includes(theme.colors[role])) {
+        throw new InvalidThemeError(`Unknown colour family for ${role}: ${theme.colors[role]}`);
+      }
+    }
+    if (theme.colors.accent !== null && !COLOR_FAMILIES.includes(theme.colors.accent)) {
+      throw new InvalidThemeError(`Unknown colour family for accent: ${theme.colors.accent}`);
+    }
+    if (!FONTS.includes(theme.font)) {
+      throw new InvalidThemeError(`Font must be one of ${FONTS.join(', ')}`);
+    }
+    if (!RADII.includes(theme.radius)) {
+      throw new InvalidThemeError(`Radius must be one of ${RADII.join(', ')}`);
+    }
+    if (!SPACING_SCALE.includes(theme.spacing)) {
+      throw new InvalidThemeError(`Spacing must be a step on the Tailwind spacing scale, got ${theme.spacing}`);
+    }
+    if (
+      !Array.isArray(theme.customColors) ||
+      theme.customColors.length !== current.customColors.length ||
+      theme.customColors.some(hex => !/^#(?:[0-9a-fA-F]{6}|[0-9a-fA-F]{3})$/.test(hex))
+    ) {
+      throw new InvalidThemeError(`customColors must list ${current.customColors.length} hex colours, one per extracted colour`);
+    }
+  }
+
+  private async saveTheme(projectId: string, preferences: Prisma.JsonValue, theme: ProjectTheme): Promise<void> {
+    await this.projectRepo.update(projectId, {
+      preferences: { ...this.readPreferences(preferences), theme } as unknown as Prisma.JsonValue,
+    });
+  }
+
+  private readPreferences(preferences: Prisma.JsonValue): Record<string, unknown> {
+    return preferences && typeof preferences === 'object' && !Array.isArray(preferences)
+      ? (preferences as Record<string, unknown>)
+      : {};
+  }
+
+  private addBodyClass(code: string, className: string): string {
+    return code.replace(/<body\b([^>]*)>/i, (tag, attributes: string) =>
+      /\bclass=["']/.test(attributes)
+        ? tag.replace(/\bclass=(["'])/, `class=$1${className} `)
+        : `<body${attributes} class="${className}">`
+    );
+  }
+
+  private snapSpacing(value: number): string {
+    const step = SPACING_SCALE.reduce((best, candidate) =>
+      Math.abs(candidate - value) < Math.abs(best - value) ? candidate : best
+    );
+    return String(step);
+  }
+
+  private increment(counts: Map<string, number>, key: string): void {
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  private rank(counts: Map<string, number>): string[] {
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([key]) => key);
+  }
+}
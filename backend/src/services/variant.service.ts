@@ -0,0 +1,174 @@
+import { ProjectRepository } from '../repositories/project.repository.js';
+import { CodeSectionRepository } from '../repositories/code-section.repository.js';
+import { GenerationPlanRepository } from '../repositories/generation-plan.repository.js';
+import { RevisionService } from './revision.service.js';
+import { CodeSection, CreateCodeSectionInput, Project, RevisionTrigger, SectionType } from '../types/database.js';
+
+export class InvalidVariantError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidVariantError';
+  }
+}
+
+export interface ForkVariantInput {
+  name: string;
+  // Revision of the source project to fork; its latest when omitted
+  revision?: number;
+  authorId?: string | null;
+}
+
+const COMPLETE_ELEMENT_ID = 'complete-html';
+const MAX_VARIANT_NAME_LENGTH = 60;
+
+/**
+ * Named variants of a prototype. A variant is a project of its own, forked
+ * from a revision of another one, so generation, edits and history all work
+ * on it independently; `parentId` links the family together.
+ */
+export class VariantService {
+  constructor(
+    private projectRepo: ProjectRepository = new ProjectRepository(),
+    private codeRepo: CodeSectionRepository = new CodeSectionRepository(),
+    private planRepo: GenerationPlanRepository = new GenerationPlanRepository(),
+    private revisionService: RevisionService = new RevisionService()
+  ) {}
+
+  /**
+   * Forks the project into a new variant: the chosen revision's HTML, the
+   * current component sections and a copy of the latest plan. Returns null when
+   * the project does not exist.
+   */
+  async fork(projectId: string, input: ForkVariantInput): Promise<Project | null> {
+    const source = await this.projectRepo.findById(projectId);
+    if (!source) return null;
+
+    const family = await this.list(projectId);
+    const name = this.validateName(input.name, family);
+
+    const sections = await this.codeRepo.findByProjectId(source.id);
+    const snapshot = await this.snapshotOf(source.id, sections, input.revision);
+    const plan = await this.planRepo.findLatestByProjectId(source.id);
+    const root = family[0]!;
+
+    const variant = await this.projectRepo.create({
+      userId: source.userId,
+      workspaceId: source.workspaceId,
+      name: `${root.name} · ${name}`,
+      description: source.description,
+      prompt: source.prompt,
+      preferences: source.preferences ?? {},
+      status: source.status,
+      parentId: source.id,
+      variantName: name,
+      forkedRevision: snapshot.version,
+      forkedPlanVersion: plan?.version ?? null,
+    });
+
+    if (plan) {
+      const copy = await this.planRepo.createNextVersion(variant.id, plan.planData ?? {});
+      if (plan.approved) {
+        await this.planRepo.approve(copy.id);
+      }
+    }
+
+    await this.codeRepo.createMany(this.copySections(variant.id, sections, snapshot.htmlContent));
+    await this.revisionService.record(variant.id, snapshot.htmlContent, {
+      trigger: RevisionTrigger.FORK,
+      authorId: input.authorId ?? null,
+      message: snapshot.version
+        ? `Forked "${name}" from ${source.name} revision ${snapshot.version}`
+        : `Forked "${name}" from ${source.name}`
+    });
+
+    console.log(`🌿 Forked variant "${name}" (${variant.id}) from project ${source.id}`);
+    return variant;
+  }
+
+  /**
+   * Every project in the family the project belongs to: the original first,
+   * then its variants in fork order, depth first.
+   */
+  async list(projectId: string): Promise<Project[]> {
+    let root = await this.projectRepo.findById(projectId);
+    if (!root) return [];
+
+    // Forks of forks are allowed; the family is everything under the original
+    const seen = new Set([root.id]);
+    while (root.parentId) {
+      const parent: Project | null = await this.projectRepo.findById(root.parentId);
+      if (!parent || seen.has(parent.id)) break;
+      seen.add(parent.id);
+      root = parent;
+    }
+
+    const family: Project[] = [];
+    const visit = async (project: Project) => {
+      family.push(project);
+      for (const variant of await this.projectRepo.findVariants(project.id)) {
+        await visit(variant);
+      }
+    };
+    await visit(root);
+    return family;
+  }
+
+  private validateName(name: unknown, family: Project[]): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) {
+      throw new InvalidVariantError('Variant name is required');
+    }
+    if (trimmed.length > MAX_VARIANT_NAME_LENGTH) {
+      throw new InvalidVariantError(`Variant name must be at most ${MAX_VARIANT_NAME_LENGTH} characters`);
+    }
+    if (family.some(project => project.variantName?.toLowerCase() === trimmed.toLowerCase())) {
+      throw new InvalidVariantError(`A variant named "${trimmed}" already exists`);
+    }
+    return trimmed;
+  }
+
+  // The HTML to fork: a given revision, else the latest one, else the saved page
+  private async snapshotOf(
+    projectId: string,
+    sections: CodeSection[],
+    version?: number
+  ): Promise<{ htmlContent: string; version: number | null }> {
+    const revision = version !== undefined
+      ? await this.revisionService.get(projectId, version)
+      : await this.revisionService.latest(projectId);
+    if (revision) {
+      return { htmlContent: revision.htmlContent, version: revision.version };
+    }
+
+    const completeHTML = sections.find(section => section.elementId === COMPLETE_ELEMENT_ID);
+    if (!completeHTML) {
+      throw new InvalidVariantError('Project has no generated HTML to fork');
+    }
+    return { htmlContent: completeHTML.codeContent, version: null };
+  }
+
+  private copySections(projectId: string, sections: CodeSection[], htmlContent: string): CreateCodeSectionInput[] {
+    const copies: CreateCodeSectionInput[] = sections.map(section => ({
+      projectId,
+      sectionName: section.sectionName,
+      sectionType: section.sectionType,
+      codeContent: section.elementId === COMPLETE_ELEMENT_ID ? htmlContent : section.codeContent,
+      documentation: section.documentation,
+      orderIndex: section.orderIndex,
+      elementId: section.elementId,
+    }));
+
+    if (!sections.some(section => section.elementId === COMPLETE_ELEMENT_ID)) {
+      copies.push({
+        projectId,
+        sectionName: COMPLETE_ELEMENT_ID,
+        sectionType: SectionType.HTML,
+        codeContent: htmlContent,
+        documentation: 'Complete organized HTML with all components',
+        orderIndex: 999,
+        elementId: COMPLETE_ELEMENT_ID,
+      });
+    }
+    return copies;
+  }
+}
@@ -4,12 +4,14 @@ import { PlanGenerationService } from './plan-generation.service.js';
 import { CodeGenerationService } from './code-generation.service.js';
 import { DocumentationService } from './documentation.service.js';
 import { DiffPatchService } from './diff-patch.service.js';
+import { RevisionService } from './revision.service.js';
+import { GenerationJobService } from './generation-job.service.js';
 import { ProjectRepository } from '../repositories/project.repository.js';
 import { GenerationLogRepository } from '../repositories/generation-log.repository.js';
 import { GenerationPlanRepository } from '../repositories/generation-plan.repository.js';
 import { CodeSectionRepository } from '../repositories/code-section.repository.js';
 import { GenerationPreferences } from '../types/llm.js';
-import { ProjectStatus, LogStatus } from '../types/database.js';
+import { ProjectStatus, LogStatus, RevisionTrigger } from '../types/database.js';
 
 export class WebSocketIntegrationService {
   private wsHandlers: WebSocketHandlers;
@@ -18,10 +20,12 @@ export class WebSocketIntegrationService {
   private codeService: CodeGenerationService;
   private docService: DocumentationService;
   private diffService: DiffPatchService;
+  private jobService: GenerationJobService;
   private projectRepo: ProjectRepository;
   private logRepo: GenerationLogRepository;
   private planRepo: GenerationPlanRepository;
   private codeRepo: CodeSectionRepository;
+  private revisionService: RevisionService;
 
   constructor(wsHandlers: WebSocketHandlers) {
     this.wsHandlers = wsHandlers;
@@ -30,10 +34,12 @@ export class WebSocketIntegrationService {
     this.codeService = new CodeGenerationService();
     this.docService = new DocumentationService();
     this.diffService = new DiffPatchService();
+    this.jobService = GenerationJobService.getInstance();
     this.projectRepo = new ProjectRepository();
     this.logRepo = new GenerationLogRepository();
     this.planRepo = new GenerationPlanRepository();
     this.codeRepo = new CodeSectionRepository();
+    this.revisionService = new RevisionService();
   }
 
   async handleStartGeneration(
@@ -210,19 +216,22 @@ export class WebSocketIntegrationService {
   async handleEditElement(
     projectId: string,
     elementId: string,
-    editRequest: string
+    editRequest: string,
+    selector?: string
   ): Promise<void> {
     try {
-      // Find the code section
-      const codeSection = await this.codeRepo.findByElementId(elementId);
+      // Find the code section; element ids like 'complete-html' repeat across projects
+      const sections = await this.codeRepo.findByProjectId(projectId);
+      const codeSection = sections.find(section => section.elementId === elementId);
       if (!codeSection) {
         throw new Error('Element not found');
       }
 
-      // Generate the edit
+      // Generate the edit, scoped to one element when a selector is given
       const editedContent = await this.diffService.applyEdit(
         codeSection.codeContent,
-        editRequest
+        editRequest,
+        selector
       );
 
       // Create patch
@@ -231,8 +240,12 @@ export class WebSocketIntegrationService {
         editedContent
       );
 
-      // Update the code section
-      await this.codeRepo.updateContent(codeSection.id, editedContent);
+      // Save the edit as the section's next revision
+      const savedSection = await this.codeRepo.saveRevision(codeSection.id, editedContent);
+      await this.revisionService.recordSection(savedSection, {
+        trigger: RevisionTrigger.SURGICAL_EDIT,
+        message: editRequest
+      });
 
       // Send patch update
       this.wsHandlers.sendPatchUpdate(projectId, {
@@ -257,34 +270,43 @@ export class WebSocketIntegrationService {
   }
 
   async handlePauseGeneration(projectId: string): Promise<void> {
-    // Implementation for pausing generation
-    console.log(`Pausing generation for project ${projectId}`);
-    
-    this.wsHandlers.sendGenerationProgress(projectId, {
-      projectId,
-      phase: 'generating',
-      currentStep: 'Paused',
-      completedSteps: [],
-      totalSteps: 1,
-      explanation: 'Generation has been paused',
-      estimatedTimeRemaining: 0,
-      percentage: 0,
-    });
+    const job = this.jobService.pauseJob(projectId);
+    if (!job) {
+      this.sendNoActiveGeneration(projectId, 'pause');
+      return;
+    }
+
+    console.log(`⏸️ Pausing generation for project ${projectId}`);
+    this.wsHandlers.sendGenerationStatus(projectId, job);
   }
 
   async handleResumeGeneration(projectId: string): Promise<void> {
-    // Implementation for resuming generation
-    console.log(`Resuming generation for project ${projectId}`);
-    
-    this.wsHandlers.sendGenerationProgress(projectId, {
+    const job = this.jobService.resumeJob(projectId);
+    if (!job) {
+      this.sendNoActiveGeneration(projectId, 'resume');
+      return;
+    }
+
+    console.log(`▶️ Resuming generation for project ${projectId}`);
+    this.wsHandlers.sendGenerationStatus(projectId, job);
+  }
+
+  async handleCancelGeneration(projectId: string): Promise<void> {
+    const job = await this.jobService.cancelJob(projectId);
+    if (!job) {
+      this.sendNoActiveGeneration(projectId, 'cancel');
+      return;
+    }
+
+    console.log(`🛑 Cancelling generation for project ${projectId}`);
+    this.wsHandlers.sendGenerationStatus(projectId, job);
+  }
+
+  private sendNoActiveGeneration(projectId: string, action: string): void {
+    this.wsHandlers.sendGenerationError(projectId, {
       projectId,
-      phase: 'generating',
-      currentStep: 'Resuming',
-      completedSteps: [],
-      totalSteps: 1,
-      explanation: 'Resuming generation...',
-      estimatedTimeRemaining: 120,
-      percentage: 0,
+      error: `No generation to ${action} for this project`,
+      recoverable: true,
     });
   }
 
@@ -0,0 +1,243 @@
+import { createHash, randomBytes } from 'crypto';
+import { WorkspaceRepository, WorkspaceMembership } from '../repositories/workspace.repository.js';
+import { ProjectRepository } from '../repositories/project.repository.js';
+import { VariantService } from './variant.service.js';
+import {
+  Project,
+  Workspace,
+  WorkspaceInviteSummary,
+  WorkspaceMember,
+  WorkspaceMemberWithUser,
+  WorkspaceRole,
+} from '../types/database.js';
+import { AuthUser } from '../types/auth.js';
+
+export class InvalidWorkspaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidWorkspaceError';
+  }
+}
+
+export class InsufficientRoleError extends Error {
+  constructor(public required: WorkspaceRole) {
+    super(`This requires the ${required.toLowerCase()} role`);
+    this.name = 'InsufficientRoleError';
+  }
+}
+
+// Each role can do everything the ones below it can
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  [WorkspaceRole.VIEWER]: 0,
+  [WorkspaceRole.EDITOR]: 1,
+  [WorkspaceRole.OWNER]: 2,
+};
+
+export const hasRole = (role: WorkspaceRole, required: WorkspaceRole): boolean =>
+  ROLE_RANK[role] >= ROLE_RANK[required];
+
+const MAX_WORKSPACE_NAME_LENGTH = 60;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Email addresses are not verified, so holding the invited address is not
+// enough to join: the invitee also needs the code the owner passed on
+const hashInviteToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+// A new invite and its code, which is only ever returned here
+export type CreatedInvite = WorkspaceInviteSummary & { token: string };
+
+/**
+ * Workspaces own projects and decide who can do what with them: viewers can
+ * preview and export, editors can also generate and edit, owners can also
+ * manage members and move projects between workspaces.
+ */
+export class WorkspaceService {
+  constructor(
+    private workspaceRepo: WorkspaceRepository = new WorkspaceRepository(),
+    private projectRepo: ProjectRepository = new ProjectRepository(),
+    private variantService: VariantService = new VariantService(projectRepo)
+  ) {}
+
+  async list(userId: string): Promise<WorkspaceMembership[]> {
+    return this.workspaceRepo.findByUserId(userId);
+  }
+
+  async create(user: AuthUser, name: unknown): Promise<Workspace> {
+    const workspace = await this.workspaceRepo.create(this.validateName(name), user.id);
+    console.log(`🏢 Created workspace ${workspace.id} for user ${user.id}`);
+    return workspace;
+  }
+
+  /**
+   * The workspace new projects go to when none is given: the user's oldest
+   * owned one, created on first use for accounts that have none yet.
+   */
+  async defaultWorkspace(user: AuthUser): Promise<Workspace> {
+    const owned = (await this.workspaceRepo.findByUserId(user.id))
+      .find(workspace => workspace.role === WorkspaceRole.OWNER);
+    if (owned) {
+      const { role: _role, memberCount: _memberCount, ...workspace } = owned;
+      return workspace;
+    }
+
+    return this.create(user, `${user.name}'s workspace`);
+  }
+
+  // The workspace a new project goes to; the user must be able to edit there
+  async workspaceForNewProject(user: AuthUser, workspaceId?: unknown): Promise<string> {
+    if (workspaceId === undefined || workspaceId === null || workspaceId === '') {
+      return (await this.defaultWorkspace(user)).id;
+    }
+    return this.requireEditorIn(workspaceId, user);
+  }
+
+  // The user's role in the workspace, or null when they are not a member
+  async roleIn(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+    const membership = await this.workspaceRepo.findMembership(workspaceId, userId);
+    return membership?.role ?? null;
+  }
+
+  async projectAccess(projectId: string, userId: string): Promise<{ project: Project; role: WorkspaceRole } | null> {
+    return this.projectRepo.findWithRole(projectId, userId);
+  }
+
+  async members(workspaceId: string): Promise<{ members: WorkspaceMemberWithUser[]; invites: WorkspaceInviteSummary[] }> {
+    const [members, invites] = await Promise.all([
+      this.workspaceRepo.findMembers(workspaceId),
+      this.workspaceRepo.findInvitesByWorkspace(workspaceId),
+    ]);
+    return { members, invites };
+  }
+
+  async invite(workspaceId: string, inviter: AuthUser, email: unknown, role: unknown): Promise<CreatedInvite> {
+    const normalized = typeof email === 'string' ? email.trim().toLowerCase() : '';
+    if (!EMAIL_PATTERN.test(normalized)) {
+      throw new InvalidWorkspaceError('A valid email address is required');
+    }
+
+    const token = randomBytes(24).toString('base64url');
+    const invite = await this.workspaceRepo.upsertInvite({
+      workspaceId,
+      email: normalized,
+      role: this.validateRole(role),
+      tokenHash: hashInviteToken(token),
+      invitedById: inviter.id,
+    });
+    console.log(`✉️ Invited ${normalized} to workspace ${workspaceId} as ${invite.role}`);
+    return { ...invite, token };
+  }
+
+  /**
+   * Joins the workspace of the invite `token` belongs to. The invite is used
+   * up; returns null when the token is unknown or was made out to another
+   * email address.
+   */
+  async acceptInvite(token: unknown, user: AuthUser): Promise<WorkspaceMember | null> {
+    if (typeof token !== 'string' || !token) return null;
+
+    const invite = await this.workspaceRepo.findInviteByTokenHash(hashInviteToken(token));
+    if (!invite || invite.email !== user.email) return null;
+
+    // Never demotes: an owner accepting an editor invite stays an owner
+    const member = await this.workspaceRepo.acceptInvite(
+      invite,
+      user.id,
+      (role, current) => ROLE_RANK[role] > ROLE_RANK[current]
+    );
+    console.log(`🤝 User ${user.id} joined workspace ${invite.workspaceId} as ${member.role}`);
+    return member;
+  }
+
+  async revokeInvite(workspaceId: string, inviteId: string): Promise<boolean> {
+    const invite = await this.workspaceRepo.findInviteById(inviteId);
+    if (!invite || invite.workspaceId !== workspaceId) return false;
+
+    await this.workspaceRepo.deleteInvite(inviteId);
+    return true;
+  }
+
+  async updateRole(workspaceId: string, userId: string, role: unknown): Promise<WorkspaceMember | null> {
+    const membership = await this.workspaceRepo.findMembership(workspaceId, userId);
+    if (!membership) return null;
+
+    const nextRole = this.validateRole(role);
+    if (membership.role === WorkspaceRole.OWNER && nextRole !== WorkspaceRole.OWNER) {
+      await this.ensureAnotherOwner(workspaceId);
+    }
+    return this.workspaceRepo.updateMemberRole(workspaceId, userId, nextRole);
+  }
+
+  async removeMember(workspaceId: string, userId: string): Promise<boolean> {
+    const membership = await this.workspaceRepo.findMembership(workspaceId, userId);
+    if (!membership) return false;
+
+    if (membership.role === WorkspaceRole.OWNER) {
+      await this.ensureAnotherOwner(workspaceId);
+    }
+    await this.workspaceRepo.removeMember(workspaceId, userId);
+    return true;
+  }
+
+  /**
+   * Shares a project by moving it, with its whole variant family, into another
+   * workspace; the family always lives in one workspace so variant listings
+   * never reach outside it. The caller must own every project of the family
+   * and be able to edit in the target.
+   */
+  async moveProject(projectId: string, workspaceId: unknown, user: AuthUser): Promise<Project[]> {
+    const targetId = await this.requireEditorIn(workspaceId, user);
+
+    const family = await this.variantService.list(projectId);
+    for (const member of family) {
+      const access = await this.projectAccess(member.id, user.id);
+      if (!access || !hasRole(access.role, WorkspaceRole.OWNER)) {
+        throw new InsufficientRoleError(WorkspaceRole.OWNER);
+      }
+    }
+    await this.projectRepo.moveToWorkspace(family.map(project => project.id), targetId);
+    console.log(`📦 Moved ${family.length} project(s) of ${projectId} to workspace ${targetId}`);
+
+    return family.map(project => ({ ...project, workspaceId: targetId }));
+  }
+
+  private async requireEditorIn(workspaceId: unknown, user: AuthUser): Promise<string> {
+    if (typeof workspaceId !== 'string' || !workspaceId) {
+      throw new InvalidWorkspaceError('Missing required field: workspaceId');
+    }
+
+    const role = await this.roleIn(workspaceId, user.id);
+    if (!role) {
+      throw new InvalidWorkspaceError('You are not a member of this workspace');
+    }
+    if (!hasRole(role, WorkspaceRole.EDITOR)) {
+      throw new InsufficientRoleError(WorkspaceRole.EDITOR);
+    }
+    return workspaceId;
+  }
+
+  private async ensureAnotherOwner(workspaceId: string): Promise<void> {
+    if (await this.workspaceRepo.countOwners(workspaceId) <= 1) {
+      throw new InvalidWorkspaceError('A workspace needs at least one owner');
+    }
+  }
+
+  private validateName(name: unknown): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) {
+      throw new InvalidWorkspaceError('Workspace name is required');
+    }
+    if (trimmed.length > MAX_WORKSPACE_NAME_LENGTH) {
+      throw new InvalidWorkspaceError(`Workspace name must be at most ${MAX_WORKSPACE_NAME_LENGTH} characters`);
+    }
+    return trimmed;
+  }
+
+  private validateRole(role: unknown): WorkspaceRole {
+    const normalized = typeof role === 'string' ? role.toUpperCase() : '';
+    if (!(normalized in ROLE_RANK)) {
+      throw new InvalidWorkspaceError(`Role must be one of: ${Object.keys(ROLE_RANK).join(', ').toLowerCase()}`);
+    }
+    return normalized as WorkspaceRole;
+  }
+}
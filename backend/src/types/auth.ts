@@ -0,0 +1,27 @@
+import { WorkspaceRole } from './database.js';
+
+// The signed-in user, as attached to requests and returned by /api/auth
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  avatarUrl: string | null;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  // Opaque session token; the server only keeps its hash and clients only get it as a cookie
+  token: string;
+  expiresAt: Date;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by the authenticate middleware
+      user?: AuthUser;
+      // The user's role in the workspace of the project or workspace in the path
+      accessRole?: WorkspaceRole;
+    }
+  }
+}
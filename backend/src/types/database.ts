@@ -6,6 +6,18 @@ export type Project = Prisma.ProjectGetPayload<{}>;
 export type GenerationPlan = Prisma.GenerationPlanGetPayload<{}>;
 export type CodeSection = Prisma.CodeSectionGetPayload<{}>;
 export type GenerationLog = Prisma.GenerationLogGetPayload<{}>;
+export type ProjectRevision = Prisma.ProjectRevisionGetPayload<{}>;
+export type Session = Prisma.SessionGetPayload<{}>;
+export type Workspace = Prisma.WorkspaceGetPayload<{}>;
+export type WorkspaceMember = Prisma.WorkspaceMemberGetPayload<{}>;
+export type WorkspaceInvite = Prisma.WorkspaceInviteGetPayload<{}>;
+export type Comment = Prisma.CommentGetPayload<{}>;
+
+export type SessionWithUser = Prisma.SessionGetPayload<{
+  include: {
+    user: true;
+  };
+}>;
 
 // Extended types with relations
 export type ProjectWithRelations = Prisma.ProjectGetPayload<{
@@ -38,15 +50,48 @@ export type ProjectWithLatestPlan = Prisma.ProjectGetPayload<{
   };
 }>;
 
+export type WorkspaceMemberWithUser = Prisma.WorkspaceMemberGetPayload<{
+  include: {
+    user: {
+      select: { id: true; email: true; name: true; avatarUrl: true };
+    };
+  };
+}>;
+
+// An invite as owners see it; the token hash never leaves the server
+export type WorkspaceInviteSummary = Omit<WorkspaceInvite, 'tokenHash'>;
+
+export type CommentWithAuthor = Prisma.CommentGetPayload<{
+  include: {
+    author: {
+      select: { id: true; name: true; avatarUrl: true };
+    };
+  };
+}>;
+
+// A thread's first comment with its replies, oldest first
+export type CommentThread = CommentWithAuthor & {
+  replies: CommentWithAuthor[];
+};
+
 // Enums
-export { ProjectStatus, SectionType, LogStatus } from '@prisma/client';
+export { ProjectStatus, SectionType, LogStatus, RevisionTrigger, WorkspaceRole } from '@prisma/client';
+
+// Set only when forking a variant
+type ProjectVariantFields = 'parentId' | 'variantName' | 'forkedRevision' | 'forkedPlanVersion';
 
 // Input types for creation
-export type CreateProjectInput = Omit<Project, 'id' | 'createdAt' | 'updatedAt'>;
-export type CreateCodeSectionInput = Omit<CodeSection, 'id' | 'createdAt' | 'updatedAt'>;
+export type CreateProjectInput = Omit<Project, 'id' | 'createdAt' | 'updatedAt' | ProjectVariantFields> &
+  Partial<Pick<Project, ProjectVariantFields>>;
+export type CreateCodeSectionInput = Omit<CodeSection, 'id' | 'revision' | 'createdAt' | 'updatedAt'>;
 export type CreateGenerationPlanInput = Omit<GenerationPlan, 'id' | 'createdAt'>;
 export type CreateGenerationLogInput = Omit<GenerationLog, 'id' | 'createdAt'>;
+export type CreateProjectRevisionInput = Omit<ProjectRevision, 'id' | 'version' | 'createdAt'>;
+export type CreateUserInput = Pick<User, 'email' | 'name' | 'passwordHash'>;
+export type CreateSessionInput = Omit<Session, 'id' | 'createdAt'>;
+export type CreateWorkspaceInviteInput = Omit<WorkspaceInvite, 'id' | 'createdAt'>;
+export type CreateCommentInput = Omit<Comment, 'id' | 'resolvedAt' | 'createdAt' | 'updatedAt'>;
 
 // Update types
-export type UpdateProjectInput = Partial<Omit<Project, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>;
+export type UpdateProjectInput = Partial<Omit<Project, 'id' | 'userId' | 'workspaceId' | 'createdAt' | 'updatedAt' | ProjectVariantFields>>;
 export type UpdateCodeSectionInput = Partial<Omit<CodeSection, 'id' | 'projectId' | 'createdAt' | 'updatedAt'>>;
\ No newline at end of file
@@ -0,0 +1,23 @@
+// Deterministic DOM edits; every operation addresses its element with a CSS selector
+export type EditOperation =
+  | { type: 'setText'; selector: string; text: string }
+  | { type: 'setAttr'; selector: string; name: string; value: string }
+  | { type: 'removeAttr'; selector: string; name: string }
+  | { type: 'addClass'; selector: string; className: string }
+  | { type: 'removeClass'; selector: string; className: string }
+  // A null value removes the property
+  | { type: 'setStyle'; selector: string; property: string; value: string | null }
+  | { type: 'moveBefore'; selector: string; target: string }
+  | { type: 'remove'; selector: string }
+  | { type: 'duplicate'; selector: string };
+
+export type EditOperationType = EditOperation['type'];
+
+export interface EditOperationsResult {
+  updatedCode: string;
+  // diff-match-patch patch text for the whole batch
+  patches: string;
+  preview: string;
+  stats: { additions: number; deletions: number; modifications: number };
+  applied: number;
+}
@@ -1,5 +1,7 @@
 export interface GenerationPlan {
   id: string;
+  projectId?: string;
+  version?: number;
   components: ComponentPlan[];
   architecture: ArchitecturePlan;
   timeline: {
@@ -39,10 +41,21 @@ export interface OrganizedHTML {
   elementMap: Map<string, ElementLocation>;
 }
 
+// OrganizedHTML of a project's saved complete HTML, as served by GET /api/projects/:id/structure
+export interface ProjectStructure {
+  sectionId: string;
+  revision: number;
+  sections: OrganizedHTML['sections'];
+  elements: ElementLocation[];
+}
+
 export interface HTMLSection {
   content: string;
   startLine: number;
   endLine: number;
+  // Character offsets into the organized HTML, end exclusive
+  startOffset: number;
+  endOffset: number;
   elements: Array<{
     id: string;
     type: string;
@@ -54,26 +67,55 @@ export interface CSSSection {
   content: string;
   startLine: number;
   endLine: number;
-  rules: Array<{
-    selector: string;
-    properties: string;
-  }>;
+  // Character offsets into the organized HTML, end exclusive
+  startOffset: number;
+  endOffset: number;
+  rules: CSSRule[];
+}
+
+export interface CSSRule {
+  selector: string;
+  // Declarations as written, e.g. `color: red; margin: 0`
+  properties: string;
+  declarations: Array<{ property: string; value: string; important: boolean }>;
+  // Enclosing at-rules, outermost first, e.g. `@media (min-width: 768px)`
+  atRules: string[];
+  startLine: number;
+  endLine: number;
+  startOffset: number;
+  endOffset: number;
 }
 
 export interface JSSection {
   content: string;
   startLine: number;
   endLine: number;
-  functions: Array<{
-    name: string;
-    content: string;
-  }>;
+  // Character offsets into the organized HTML, end exclusive
+  startOffset: number;
+  endOffset: number;
+  functions: JSFunction[];
+}
+
+export interface JSFunction {
+  name: string;
+  // Handlers are listeners attached with addEventListener or an on<event> property
+  kind: 'function' | 'handler';
+  params: string[];
+  event?: string;
+  target?: string;
+  content: string;
+  startLine: number;
+  endLine: number;
+  startOffset: number;
+  endOffset: number;
 }
 
 export interface ElementLocation {
   sectionName: string;
   startLine: number;
   endLine: number;
+  startOffset: number;
+  endOffset: number;
   elementId: string;
   elementType: string;
 }
@@ -88,6 +130,31 @@ export interface PatchResult {
   error?: string;
 }
 
+// Three-way merge of two edits made from the same base revision
+export type MergeSide = 'ours' | 'theirs';
+
+export interface MergeConflict {
+  // Stable for the same base, ours and theirs; resolutions refer to it
+  id: number;
+  // Innermost element of the base enclosing the conflicting changes
+  element: {
+    selector: string | null;
+    elementId: string | null;
+    tagName: string;
+  } | null;
+  // 0-based line of the conflict in theirs
+  line: number;
+  base: string;
+  ours: string;
+  theirs: string;
+}
+
+export interface MergeResult {
+  // Unresolved conflicts keep theirs
+  content: string;
+  conflicts: MergeConflict[];
+}
+
 export interface ElementPatch {
   elementSelector: string;
   patchData: string;
@@ -113,4 +180,43 @@ export interface ComponentDocumentation {
     code: string;
   }>;
   createdAt: Date;
-}
\ No newline at end of file
+}
+export type GenerationJobStatus =
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'cancelled'
+  | 'error'
+  | 'interrupted';
+
+export type GenerationJobPhase = 'generating' | 'documenting' | 'organizing' | 'completed';
+
+export interface GenerationJobError {
+  message: string;
+  component?: string;
+  occurredAt: string;
+}
+
+export interface GenerationJob {
+  projectId: string;
+  planId: string;
+  status: GenerationJobStatus;
+  phase: GenerationJobPhase;
+  currentComponent: string | null;
+  // Components being generated right now; several when running in parallel
+  activeComponents: string[];
+  completedComponents: string[];
+  totalComponents: number;
+  progress: number;
+  // Started from sections saved by an earlier run of the same plan
+  resumed: boolean;
+  tokenUsage: {
+    // Estimated from generated output; providers do not report usage on streams
+    completionTokens: number;
+    estimated: boolean;
+  };
+  errors: GenerationJobError[];
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
@@ -1,4 +1,7 @@
+export type LLMProviderType = 'deepseek' | 'openai' | 'anthropic' | 'ollama' | 'llamacpp' | 'mock';
+
 export interface LLMConfig {
+  provider: LLMProviderType;
   gatewayUrl: string;
   model: string;
   apiKey?: string | undefined;
@@ -47,6 +50,56 @@ export interface LLMStreamChunk {
   }[];
 }
 
+export interface LLMProviderConfig {
+  apiKey: string;
+  apiUrl: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  timeout?: number;
+  // Aborts the underlying HTTP request when the generation is cancelled
+  signal?: AbortSignal;
+}
+
+export interface CodeStreamOptions {
+  signal?: AbortSignal;
+  // Summary of sections generated earlier in the run, forwarded to the prompt
+  context?: string;
+}
+
+export interface LLMHealthStatus {
+  status: 'healthy' | 'unhealthy';
+  details: string;
+}
+
+/**
+ * Contract every LLM backend adapter implements. LLMService delegates to
+ * whichever provider LLMFactory selected from LLMConfig.provider.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  generatePlan(prompt: string, preferences: GenerationPreferences, retries?: number): Promise<GenerationPlanData>;
+  generateCodeStream(
+    plan: GenerationPlanData,
+    sectionName: string,
+    preferences: GenerationPreferences,
+    options?: CodeStreamOptions
+  ): AsyncGenerator<string, void, unknown>;
+  generateDocumentation(
+    codeContent: string,
+    componentName: string,
+    preferences: GenerationPreferences,
+    retries?: number
+  ): Promise<string>;
+  generateCompletion(prompt: string): Promise<string>;
+  healthCheck(): Promise<LLMHealthStatus>;
+}
+
 export interface GenerationPreferences {
   outputType: 'html-js' | 'react';
   framework: 'vanilla' | 'react' | 'vue';
@@ -70,6 +123,8 @@ export interface ComponentPlan {
   description: string;
   features: string[];
   estimatedComplexity: 'low' | 'medium' | 'high';
+  // Ids of components that must be generated first
+  dependencies?: string[];
 }
 
 export interface ArchitecturePlan {
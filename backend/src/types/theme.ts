@@ -0,0 +1,21 @@
+export type ThemeFont = 'sans' | 'serif' | 'mono';
+
+export interface ProjectTheme {
+  // Tailwind colour families, e.g. 'indigo'; shades are kept when re-applied
+  colors: {
+    primary: string;
+    accent: string | null;
+    neutral: string;
+  };
+  // Hex colours used in plain CSS, most used first
+  customColors: string[];
+  font: ThemeFont;
+  // Size suffix of `rounded-*` classes; 'DEFAULT' stands for a bare `rounded`
+  radius: string;
+  // Most common padding step on the Tailwind spacing scale
+  spacing: number;
+}
+
+export type ProjectThemeUpdate = Partial<Omit<ProjectTheme, 'colors'>> & {
+  colors?: Partial<ProjectTheme['colors']>;
+};
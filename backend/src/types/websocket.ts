@@ -11,6 +11,8 @@ export interface StreamingUpdate {
   elementId?: string;
   sectionName?: string;
   isComplete: boolean;
+  // Content is a code chunk to append to the output of `elementId`
+  delta?: boolean;
 }
 
 export interface ElementGenerated {
@@ -69,6 +71,26 @@ export interface PreviewRefresh {
   elementId?: string;
 }
 
+// What a collaborator is looking at in a project
+export interface PresenceFocus {
+  // ElementSelector selector of the element they selected in the preview
+  selectedElement: string | null;
+  // CodeEditor section they have open
+  openSection: string | null;
+}
+
+export interface PresenceMember extends PresenceFocus {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+}
+
+export interface ProjectPresence {
+  projectId: string;
+  members: PresenceMember[];
+}
+
 // WebSocket event types
 export const WS_EVENTS = {
   // Client to Server
@@ -77,17 +99,22 @@ export const WS_EVENTS = {
   START_GENERATION: 'start_generation',
   PAUSE_GENERATION: 'pause_generation',
   RESUME_GENERATION: 'resume_generation',
+  CANCEL_GENERATION: 'cancel_generation',
   EDIT_ELEMENT: 'edit_element',
+  UPDATE_PRESENCE: 'update_presence',
   
   // Server to Client
   GENERATION_STREAM: 'generation:stream',
   GENERATION_PROGRESS: 'generation:progress',
+  GENERATION_STATUS: 'generation:status',
   GENERATION_COMPLETE: 'generation:complete',
   GENERATION_ERROR: 'generation:error',
   ELEMENT_GENERATED: 'element:generated',
   EDIT_PATCH: 'edit:patch',
   EDIT_COMPLETE: 'edit:complete',
   PREVIEW_UPDATE: 'preview:update',
+  PRESENCE_STATE: 'presence:state',
+  COMMENT_THREAD: 'comment:thread',
   
   // Connection events
   CONNECTED: 'connected',
@@ -0,0 +1,13 @@
+export class ComponentName {
+  // 'hero section' -> 'HeroSection'; identifiers cannot start with a digit
+  static fromPlanName(name: string): string {
+    const pascal = name
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map(word => word[0]!.toUpperCase() + word.slice(1))
+      .join('');
+
+    if (!pascal) return 'Section';
+    return /^[0-9]/.test(pascal) ? `Section${pascal}` : pascal;
+  }
+}
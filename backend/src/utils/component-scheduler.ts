@@ -0,0 +1,83 @@
+export interface SchedulableComponent {
+  id: string;
+  dependencies: string[];
+}
+
+/**
+ * Runs plan components with bounded concurrency. A component starts only once
+ * every component it depends on has finished; dependency ids that are not in
+ * the plan are ignored. Results come back in plan order regardless of the
+ * order in which components finish.
+ */
+export class ComponentScheduler {
+  constructor(private concurrency: number) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+    }
+  }
+
+  run<T extends SchedulableComponent, R>(
+    components: T[],
+    worker: (component: T, index: number) => Promise<R>
+  ): Promise<R[]> {
+    const ids = new Set(components.map(component => component.id));
+    const waitingOn = components.map(component =>
+      new Set(component.dependencies.filter(dep => ids.has(dep) && dep !== component.id))
+    );
+    const results: R[] = new Array(components.length);
+    const pending = new Set(components.map((_, index) => index));
+    let running = 0;
+    let failure: { error: unknown } | null = null;
+
+    return new Promise<R[]>((resolve, reject) => {
+      const schedule = () => {
+        if (failure) {
+          // Stop starting new work, but let running components settle first
+          if (running === 0) reject(failure.error);
+          return;
+        }
+
+        if (pending.size === 0 && running === 0) {
+          resolve(results);
+          return;
+        }
+
+        for (const index of [...pending]) {
+          if (running >= this.concurrency) break;
+          if (waitingOn[index]!.size > 0) continue;
+          start(index);
+        }
+
+        // Nothing can start and nothing is running: the remaining components
+        // depend on each other. Release the earliest one in plan order.
+        if (running === 0 && pending.size > 0) {
+          const [next] = pending;
+          console.warn(`⚠️ Dependency cycle in plan, starting ${components[next!]!.id} early`);
+          waitingOn[next!]!.clear();
+          schedule();
+        }
+      };
+
+      const start = (index: number) => {
+        const component = components[index]!;
+        pending.delete(index);
+        running++;
+
+        worker(component, index)
+          .then(result => {
+            results[index] = result;
+            waitingOn.forEach(deps => deps.delete(component.id));
+          })
+          .catch(error => {
+            failure = failure || { error };
+          })
+          .finally(() => {
+            running--;
+            schedule();
+          });
+      };
+
+      schedule();
+    });
+  }
+}
@@ -0,0 +1,113 @@
+import { randomBytes } from 'crypto';
+import { HtmlDocument, HtmlElement } from './html-document.js';
+
+export const PID_ATTRIBUTE = 'data-pid';
+
+// Never edit targets: document scaffolding, raw-text elements and line breaks
+const UNSTAMPED_TAGS = new Set([
+  'html', 'head', 'body', 'meta', 'link', 'title', 'base',
+  'script', 'style', 'noscript', 'template', 'br', 'wbr',
+]);
+// Their descendants are addressed through the container, e.g. an icon's <path>
+const OPAQUE_TAGS = new Set(['head', 'svg', 'math']);
+
+/**
+ * Stable element ids (`data-pid`) for generated HTML. Generation stamps every
+ * meaningful element once; edits keep existing pids and stamp whatever they
+ * add, so an element can be addressed across edits. Exports strip them.
+ */
+export class ElementPid {
+  static stamp(html: string): string {
+    const document = HtmlDocument.parse(html);
+    const seen = new Set<string>();
+    const changes: Array<{ element: HtmlElement; name: string; value: string }> = [];
+
+    for (const element of document.elements) {
+      if (!this.isStampable(document, element)) continue;
+
+      // Copies made by an edit repeat their original's pid; they get their own
+      const pid = document.attribute(element, PID_ATTRIBUTE);
+      if (pid && !seen.has(pid)) {
+        seen.add(pid);
+        continue;
+      }
+
+      const fresh = this.create(seen);
+      seen.add(fresh);
+      changes.push({ element, name: PID_ATTRIBUTE, value: fresh });
+    }
+
+    return changes.length > 0 ? document.setAttributes(changes) : html;
+  }
+
+  /**
+   * Gives elements of `edited` that lost their pid the pid of the matching
+   * element in `original`, matched by tag in document order. Used after LLM
+   * edits, which rewrite markup and do not reliably keep attributes.
+   */
+  static carryOver(original: string, edited: string): string {
+    if (!this.isStamped(original)) return edited;
+
+    const before = HtmlDocument.parse(original);
+    const after = HtmlDocument.parse(edited);
+    const kept = new Set(after.elements
+      .map(element => after.attribute(element, PID_ATTRIBUTE))
+      .filter((pid): pid is string => pid !== null));
+
+    // Unclaimed pids of the original, queued per tag
+    const available = new Map<string, string[]>();
+    for (const element of before.elements) {
+      const pid = before.attribute(element, PID_ATTRIBUTE);
+      if (!pid || kept.has(pid)) continue;
+      available.set(element.tagName, [...(available.get(element.tagName) || []), pid]);
+    }
+
+    const changes = after.elements
+      .filter(element => this.isStampable(after, element) && after.attribute(element, PID_ATTRIBUTE) === null)
+      .map(element => ({ element, name: PID_ATTRIBUTE, value: available.get(element.tagName)?.shift() }))
+      .filter((change): change is { element: HtmlElement; name: string; value: string } => change.value !== undefined);
+
+    return changes.length > 0 ? after.setAttributes(changes) : edited;
+  }
+
+  static strip(html: string): string {
+    if (!this.isStamped(html)) return html;
+
+    const document = HtmlDocument.parse(html);
+    return document.setAttributes(document.elements
+      .filter(element => element.sourceCodeLocation && document.attribute(element, PID_ATTRIBUTE) !== null)
+      .map(element => ({ element, name: PID_ATTRIBUTE, value: null })));
+  }
+
+  // Edits only maintain pids in code that generation stamped, never in e.g. JSX
+  static isStamped(code: string): boolean {
+    return code.includes(`${PID_ATTRIBUTE}=`);
+  }
+
+  static selector(pid: string): string {
+    return `[${PID_ATTRIBUTE}="${pid}"]`;
+  }
+
+  static find(document: HtmlDocument, pid: string): HtmlElement | null {
+    return document.elements.find(element =>
+      element.sourceCodeLocation && document.attribute(element, PID_ATTRIBUTE) === pid
+    ) || null;
+  }
+
+  private static isStampable(document: HtmlDocument, element: HtmlElement): boolean {
+    if (!element.sourceCodeLocation || UNSTAMPED_TAGS.has(element.tagName)) return false;
+
+    for (let parent = document.parentElement(element); parent; parent = document.parentElement(parent)) {
+      if (OPAQUE_TAGS.has(parent.tagName)) return false;
+    }
+    return true;
+  }
+
+  private static create(taken: Set<string>): string {
+    let pid: string;
+    do {
+      pid = `p-${randomBytes(4).toString('hex')}`;
+    } while (taken.has(pid));
+    return pid;
+  }
+}
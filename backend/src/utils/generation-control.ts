@@ -0,0 +1,68 @@
+export class GenerationCancelledError extends Error {
+  constructor(message = 'Generation cancelled') {
+    super(message);
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+/**
+ * Cooperative pause/cancel token for a single generation run. Cancelling aborts
+ * the in-flight LLM request through `signal`; pausing takes effect at the next
+ * `checkpoint()`, i.e. between components.
+ */
+export class GenerationControl {
+  private abortController = new AbortController();
+  private paused = false;
+  private resumeWaiters: Array<() => void> = [];
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  pause(): void {
+    if (this.isCancelled) return;
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.releaseWaiters();
+  }
+
+  cancel(): void {
+    this.paused = false;
+    this.abortController.abort();
+    this.releaseWaiters();
+  }
+
+  throwIfCancelled(): void {
+    if (this.isCancelled) {
+      throw new GenerationCancelledError();
+    }
+  }
+
+  // Blocks while paused; throws once the run has been cancelled
+  async checkpoint(): Promise<void> {
+    this.throwIfCancelled();
+
+    while (this.paused) {
+      await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+    }
+
+    this.throwIfCancelled();
+  }
+
+  private releaseWaiters(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
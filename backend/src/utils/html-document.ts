@@ -0,0 +1,380 @@
+import { parse, parseFragment, DefaultTreeAdapterTypes } from 'parse5';
+
+export type HtmlElement = DefaultTreeAdapterTypes.Element;
+type HtmlParentNode = DefaultTreeAdapterTypes.ParentNode;
+
+interface CompoundSelector {
+  tag: string | null;
+  ids: string[];
+  classes: string[];
+  attributes: Array<{ name: string; value: string | null }>;
+  pseudos: Array<{ name: string; index: number }>;
+}
+
+interface ComplexSelector {
+  compounds: CompoundSelector[];
+  // combinators[i] joins compounds[i] and compounds[i + 1]
+  combinators: Array<'>' | ' '>;
+}
+
+export class InvalidSelectorError extends Error {
+  constructor(selector: string, reason: string) {
+    super(`Invalid selector "${selector}": ${reason}`);
+    this.name = 'InvalidSelectorError';
+  }
+}
+
+// Identifiers may contain CSS escapes, e.g. Tailwind's `md\:flex` or `w-1\/2`
+const IDENT = '(?:\\\\.|[\\w-])+';
+const SIMPLE_SELECTOR = new RegExp(
+  `^(?:(\\*|${IDENT})|#(${IDENT})|\\.(${IDENT})|\\[\\s*(${IDENT})\\s*(?:=\\s*(?:"([^"]*)"|'([^']*)'|(${IDENT}))\\s*)?\\]|:(nth-child|nth-of-type)\\(\\s*(\\d+)\\s*\\)|:(first-child|last-child))`
+);
+
+/**
+ * Parsed HTML with source offsets. Elements can be looked up with a CSS
+ * selector and replaced in the original text, so everything outside the
+ * edited element keeps its exact formatting.
+ */
+export class HtmlDocument {
+  private root: HtmlParentNode;
+
+  private constructor(readonly source: string) {
+    // Full documents get html/head/body handling; snippets are parsed as a fragment
+    this.root = /<!doctype|<html[\s>]/i.test(source)
+      ? parse(source, { sourceCodeLocationInfo: true })
+      : parseFragment(source, { sourceCodeLocationInfo: true });
+  }
+
+  static parse(source: string): HtmlDocument {
+    return new HtmlDocument(source);
+  }
+
+  get elements(): HtmlElement[] {
+    const elements: HtmlElement[] = [];
+    const walk = (node: HtmlParentNode) => {
+      for (const child of this.childrenOf(node)) {
+        elements.push(child);
+        walk(child);
+        // <template> content lives in a separate fragment
+        if (child.tagName === 'template' && 'content' in child) {
+          walk((child as DefaultTreeAdapterTypes.Template).content);
+        }
+      }
+    };
+    walk(this.root);
+    return elements;
+  }
+
+  // Elements that appear in the source; implied html/head/body wrappers have no location
+  querySelector(selector: string): HtmlElement | null {
+    const selectors = this.parseSelectorList(selector);
+    return this.elements.find(element =>
+      element.sourceCodeLocation && selectors.some(complex => this.matches(element, complex))
+    ) || null;
+  }
+
+  outerHTML(element: HtmlElement): string {
+    const location = this.locationOf(element);
+    return this.source.slice(location.startOffset, location.endOffset);
+  }
+
+  innerHTML(element: HtmlElement): string {
+    const location = this.locationOf(element);
+    if (!location.startTag || !location.endTag) return '';
+    return this.source.slice(location.startTag.endOffset, location.endTag.startOffset);
+  }
+
+  startTag(element: HtmlElement): string {
+    const location = this.locationOf(element);
+    return location.startTag
+      ? this.source.slice(location.startTag.startOffset, location.startTag.endOffset)
+      : `<${element.tagName}>`;
+  }
+
+  // Returns the source with the element's outer HTML swapped for `html`
+  replaceElement(element: HtmlElement, html: string): string {
+    const location = this.locationOf(element);
+    return this.splice(location.startOffset, location.endOffset, html);
+  }
+
+  replaceInnerHTML(element: HtmlElement, html: string): string {
+    const location = this.locationOf(element);
+    if (!location.startTag || !location.endTag) {
+      throw new Error(`<${element.tagName}> has no closing tag to put content in`);
+    }
+    return this.splice(location.startTag.endOffset, location.endTag.startOffset, html);
+  }
+
+  // Removes the element together with its line when it sits on a line of its own
+  removeElement(element: HtmlElement): string {
+    const [start, end] = this.lineRange(element);
+    return this.splice(start, end, '');
+  }
+
+  insertBefore(element: HtmlElement, html: string): string {
+    const { startOffset } = this.locationOf(element);
+    return this.splice(startOffset, startOffset, html);
+  }
+
+  insertAfter(element: HtmlElement, html: string): string {
+    const { endOffset } = this.locationOf(element);
+    return this.splice(endOffset, endOffset, html);
+  }
+
+  // Moves the element's outer HTML in front of `reference` in a single pass,
+  // taking its line along when both sit on lines of their own
+  moveBefore(element: HtmlElement, reference: HtmlElement): string {
+    const from = this.locationOf(element);
+    const to = this.locationOf(reference).startOffset;
+    if (to >= from.startOffset && to < from.endOffset) {
+      throw new Error(`Cannot move <${element.tagName}> into itself`);
+    }
+
+    const [start, end] = this.lineRange(element);
+    const indentation = this.indentationOf(reference);
+    const moved = this.source.slice(from.startOffset, from.endOffset) +
+      (indentation !== null && start !== from.startOffset ? `\n${indentation}` : '');
+
+    if (to < start) {
+      return this.source.slice(0, to) + moved + this.source.slice(to, start) + this.source.slice(end);
+    }
+    return this.source.slice(0, start) + this.source.slice(end, to) + moved + this.source.slice(to);
+  }
+
+  // Attribute edits rewrite only the attribute itself; the rest of the start tag stays as written
+  setAttribute(element: HtmlElement, name: string, value: string): string {
+    return this.setAttributes([{ element, name, value }]);
+  }
+
+  removeAttribute(element: HtmlElement, name: string): string {
+    return this.setAttributes([{ element, name, value: null }]);
+  }
+
+  // Applies many attribute changes in one pass; a null value removes the attribute
+  setAttributes(changes: Array<{ element: HtmlElement; name: string; value: string | null }>): string {
+    const splices = changes
+      .map(({ element, name, value }) => this.attributeSplice(element, name, value))
+      .filter((splice): splice is [number, number, string] => splice !== null)
+      .sort((a, b) => b[0] - a[0]);
+
+    let result = this.source;
+    for (const [start, end, text] of splices) {
+      result = result.slice(0, start) + text + result.slice(end);
+    }
+    return result;
+  }
+
+  // Character offsets of the element's outer HTML, end exclusive
+  rangeOf(element: HtmlElement): { startOffset: number; endOffset: number } {
+    const { startOffset, endOffset } = this.locationOf(element);
+    return { startOffset, endOffset };
+  }
+
+  // Character offsets of the element's inner HTML; empty at the end of a void element
+  innerRangeOf(element: HtmlElement): { startOffset: number; endOffset: number } {
+    const location = this.locationOf(element);
+    if (!location.startTag || !location.endTag) {
+      return { startOffset: location.endOffset, endOffset: location.endOffset };
+    }
+    return { startOffset: location.startTag.endOffset, endOffset: location.endTag.startOffset };
+  }
+
+  // 0-based lines the element spans, for line-oriented consumers
+  lineSpanOf(element: HtmlElement): { startLine: number; endLine: number } {
+    const { startOffset, endOffset } = this.locationOf(element);
+    return { startLine: this.lineAt(startOffset), endLine: this.lineAt(Math.max(startOffset, endOffset - 1)) };
+  }
+
+  // 0-based line of a character offset
+  lineAt(offset: number): number {
+    return this.source.slice(0, offset).split('\n').length - 1;
+  }
+
+  // Whitespace before the element when it starts its own line, otherwise null
+  indentationOf(element: HtmlElement): string | null {
+    const { startOffset } = this.locationOf(element);
+    const lineStart = this.source.lastIndexOf('\n', startOffset - 1) + 1;
+    const indentation = this.source.slice(lineStart, startOffset);
+    return lineStart > 0 && /^[ \t]*$/.test(indentation) ? indentation : null;
+  }
+
+  parentElement(element: HtmlElement): HtmlElement | null {
+    const parent = element.parentNode;
+    return parent && 'tagName' in parent ? (parent as HtmlElement) : null;
+  }
+
+  // e.g. `body > main > section#pricing.py-16`, for prompts and logs
+  describePath(element: HtmlElement): string {
+    const parts: string[] = [];
+    let current: HtmlElement | null = element;
+    while (current && current.tagName !== 'html') {
+      const id = this.attribute(current, 'id');
+      const classes = (this.attribute(current, 'class') || '').split(/\s+/).filter(Boolean).slice(0, 2);
+      parts.unshift(`${current.tagName}${id ? `#${id}` : ''}${classes.map(name => `.${name}`).join('')}`);
+      current = this.parentElement(current);
+    }
+    return parts.join(' > ');
+  }
+
+  attribute(element: HtmlElement, name: string): string | null {
+    return element.attrs.find(attr => attr.name === name)?.value ?? null;
+  }
+
+  private attributeSplice(element: HtmlElement, name: string, value: string | null): [number, number, string] | null {
+    const location = this.locationOf(element);
+    const existing = location.attrs?.[name];
+
+    if (value === null) {
+      if (!existing) return null;
+      let start = existing.startOffset;
+      while (start > 0 && /\s/.test(this.source[start - 1]!)) start--;
+      return [start, existing.endOffset, ''];
+    }
+
+    const attribute = `${name}="${HtmlDocument.escapeAttribute(value)}"`;
+    if (existing) {
+      return [existing.startOffset, existing.endOffset, attribute];
+    }
+
+    const startTag = location.startTag || location;
+    const closing = this.source.slice(startTag.startOffset, startTag.endOffset).endsWith('/>') ? 2 : 1;
+    const offset = startTag.endOffset - closing;
+    return [offset, offset, ` ${attribute}`];
+  }
+
+  // The element's range, widened to its whole line (from the preceding line break) when nothing else is on it
+  private lineRange(element: HtmlElement): [number, number] {
+    const { startOffset, endOffset } = this.locationOf(element);
+    const indentation = this.indentationOf(element);
+    const rest = this.source.slice(endOffset).match(/^[ \t]*(?=\r?\n|$)/);
+    if (indentation === null || !rest) return [startOffset, endOffset];
+    return [startOffset - indentation.length - 1, endOffset + rest[0].length];
+  }
+
+  static escapeText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  static escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  }
+
+  private splice(start: number, end: number, text: string): string {
+    return this.source.slice(0, start) + text + this.source.slice(end);
+  }
+
+  private childrenOf(node: HtmlParentNode): HtmlElement[] {
+    return node.childNodes.filter((child): child is HtmlElement => 'tagName' in child);
+  }
+
+  private locationOf(element: HtmlElement) {
+    if (!element.sourceCodeLocation) {
+      throw new Error(`<${element.tagName}> has no position in the source`);
+    }
+    return element.sourceCodeLocation;
+  }
+
+  private matches(element: HtmlElement, selector: ComplexSelector): boolean {
+    const last = selector.compounds.length - 1;
+    return this.matchesFrom(element, selector, last);
+  }
+
+  // Right-to-left matching with backtracking over descendant combinators
+  private matchesFrom(element: HtmlElement, selector: ComplexSelector, index: number): boolean {
+    if (!this.matchesCompound(element, selector.compounds[index]!)) return false;
+    if (index === 0) return true;
+
+    const combinator = selector.combinators[index - 1];
+    let ancestor = this.parentElement(element);
+    if (combinator === '>') {
+      return ancestor !== null && this.matchesFrom(ancestor, selector, index - 1);
+    }
+
+    while (ancestor) {
+      if (this.matchesFrom(ancestor, selector, index - 1)) return true;
+      ancestor = this.parentElement(ancestor);
+    }
+    return false;
+  }
+
+  private matchesCompound(element: HtmlElement, compound: CompoundSelector): boolean {
+    if (compound.tag && compound.tag !== '*' && compound.tag !== element.tagName) return false;
+
+    const id = this.attribute(element, 'id');
+    if (compound.ids.some(expected => expected !== id)) return false;
+
+    const classes = new Set((this.attribute(element, 'class') || '').split(/\s+/));
+    if (compound.classes.some(name => !classes.has(name))) return false;
+
+    for (const { name, value } of compound.attributes) {
+      const actual = this.attribute(element, name);
+      if (actual === null || (value !== null && actual !== value)) return false;
+    }
+
+    const siblings = element.parentNode ? this.childrenOf(element.parentNode) : [element];
+    for (const { name, index } of compound.pseudos) {
+      const pool = name === 'nth-of-type'
+        ? siblings.filter(sibling => sibling.tagName === element.tagName)
+        : siblings;
+      const position = name === 'last-child' ? pool.length - pool.indexOf(element) : pool.indexOf(element) + 1;
+      if (position !== index) return false;
+    }
+
+    return true;
+  }
+
+  private parseSelectorList(selector: string): ComplexSelector[] {
+    const list = selector.split(/,(?![^[]*\])/).map(part => part.trim()).filter(Boolean);
+    if (list.length === 0) {
+      throw new InvalidSelectorError(selector, 'empty selector');
+    }
+    return list.map(part => this.parseComplexSelector(part));
+  }
+
+  private parseComplexSelector(selector: string): ComplexSelector {
+    const compounds: CompoundSelector[] = [];
+    const combinators: Array<'>' | ' '> = [];
+    let rest = selector;
+
+    while (rest.length > 0) {
+      const compound: CompoundSelector = { tag: null, ids: [], classes: [], attributes: [], pseudos: [] };
+      let consumed = false;
+      let match: RegExpMatchArray | null;
+
+      while ((match = rest.match(SIMPLE_SELECTOR))) {
+        const [text, tag, id, className, attrName, quoted, singleQuoted, bare, nth, nthIndex, edge] = match;
+        if (tag) compound.tag = tag.toLowerCase();
+        if (id) compound.ids.push(this.unescape(id));
+        if (className) compound.classes.push(this.unescape(className));
+        if (attrName) {
+          const value = quoted ?? singleQuoted ?? (bare ? this.unescape(bare) : null);
+          compound.attributes.push({ name: attrName.toLowerCase(), value });
+        }
+        if (nth) compound.pseudos.push({ name: nth, index: Number(nthIndex) });
+        if (edge) compound.pseudos.push({ name: edge, index: 1 });
+
+        rest = rest.slice(text.length);
+        consumed = true;
+      }
+
+      if (!consumed) {
+        throw new InvalidSelectorError(selector, `unsupported syntax near "${rest}"`);
+      }
+      compounds.push(compound);
+
+      const combinator = rest.match(/^\s*>\s*|^\s+/);
+      if (!combinator) break;
+      rest = rest.slice(combinator[0].length);
+      combinators.push(combinator[0].includes('>') ? '>' : ' ');
+    }
+
+    if (rest.length > 0 || combinators.length !== compounds.length - 1) {
+      throw new InvalidSelectorError(selector, `unsupported syntax near "${rest}"`);
+    }
+    return { compounds, combinators };
+  }
+
+  private unescape(identifier: string): string {
+    return identifier.replace(/\\(.)/g, '$1');
+  }
+}
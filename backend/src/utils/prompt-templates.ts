@@ -1,4 +1,5 @@
 import { GenerationPreferences, ComponentPlan } from '../types/llm.js';
+import { ComponentName } from './component-name.js';
 
 export class PromptTemplates {
   static createPlanningPrompt(prompt: string, preferences: GenerationPreferences): string {
@@ -70,9 +71,13 @@ Focus on modern, clean design patterns and ensure all components work together c
 ${context ? `**Context:** ${context}` : ''}
 
 **Output Requirements:**
-1. Clean, semantic HTML structure
+${preferences.outputType === 'react' ? `1. A single React function component named \`${ComponentName.fromPlanName(component.name)}\`, written in TypeScript (TSX) and exported as the default export
+2. Import only from 'react'; no other packages
+3. ${preferences.styling === 'tailwind' ? 'TailwindCSS utility classes in `className`' : 'CSS styling'}` : preferences.framework === 'vue' ? `1. A single Vue 3 single-file component for \`${ComponentName.fromPlanName(component.name)}.vue\`: a \`<template>\` block and a \`<script setup>\` block using the Composition API
+2. Import only from 'vue'; no other packages
+3. ${preferences.styling === 'tailwind' ? 'TailwindCSS utility classes' : 'Component CSS in a `<style scoped>` block'}` : `1. Clean, semantic HTML structure
 2. ${preferences.styling === 'tailwind' ? 'TailwindCSS utility classes' : 'CSS styling'}
-3. ${preferences.framework === 'vanilla' ? 'Vanilla JavaScript' : `${preferences.framework} components`}
+3. ${preferences.framework === 'vanilla' ? 'Vanilla JavaScript' : `${preferences.framework} components`}`}
 4. Well-organized code with clear section comments
 5. Production-ready without additional setup
 
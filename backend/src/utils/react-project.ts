@@ -0,0 +1,121 @@
+export interface ReactModule {
+  componentName: string;
+  code: string;
+}
+
+const REACT_CDN = {
+  react: 'https://unpkg.com/react@18/umd/react.development.js',
+  reactDom: 'https://unpkg.com/react-dom@18/umd/react-dom.development.js',
+  babel: 'https://unpkg.com/@babel/standalone@7/babel.min.js',
+  tailwind: 'https://cdn.tailwindcss.com',
+};
+
+// Hooks and helpers generated components commonly import from 'react'
+const REACT_GLOBALS = [
+  'useState', 'useEffect', 'useRef', 'useMemo', 'useCallback', 'useReducer',
+  'useContext', 'createContext', 'Fragment',
+];
+
+/**
+ * Assembles generated React components into an `App` entry and into a
+ * self-contained preview document that transpiles the TSX in the browser.
+ */
+export class ReactProjectBuilder {
+  static createAppEntry(componentNames: string[]): string {
+    const imports = componentNames
+      .map(name => `import ${name} from './components/${name}';`)
+      .join('\n');
+    const children = componentNames
+      .map(name => `      <${name} />`)
+      .join('\n');
+
+    return `import React from 'react';
+${imports}
+
+export default function App() {
+  return (
+    <div className="min-h-screen">
+${children}
+    </div>
+  );
+}`;
+  }
+
+  static createPreviewDocument(modules: ReactModule[], app: string, styling: string): string {
+    const bundle = [
+      `const { ${REACT_GLOBALS.join(', ')} } = React;`,
+      ...modules.map(module => this.toPreviewModule(module.code, module.componentName)),
+      this.toPreviewModule(app, 'App'),
+      `ReactDOM.createRoot(document.getElementById('root')).render(<App />);`,
+    ].join('\n\n');
+
+    // Escaping `<` keeps `</script>` inside component code from closing the tag
+    const source = JSON.stringify(bundle).replace(/</g, '\\u003c');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Generated Prototype</title>
+${styling === 'tailwind' ? `    <script src="${REACT_CDN.tailwind}"></script>\n` : ''}    <script crossorigin src="${REACT_CDN.react}"></script>
+    <script crossorigin src="${REACT_CDN.reactDom}"></script>
+    <script src="${REACT_CDN.babel}"></script>
+</head>
+<body>
+    <div id="root"></div>
+    <script>
+        (function () {
+            var source = ${source};
+            try {
+                var compiled = Babel.transform(source, {
+                    filename: 'App.tsx',
+                    presets: [['typescript', { isTSX: true, allExtensions: true }], 'react']
+                }).code;
+                var script = document.createElement('script');
+                script.textContent = compiled;
+                document.body.appendChild(script);
+            } catch (error) {
+                var pre = document.createElement('pre');
+                pre.style.cssText = 'color:#b91c1c;padding:16px;white-space:pre-wrap';
+                pre.textContent = 'Preview failed to compile:\\n' + error.message;
+                document.getElementById('root').appendChild(pre);
+            }
+        })();
+    </script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Turns a component module into a scoped block that defines `componentName`.
+   * Imports are dropped (React comes from the UMD globals) and the default
+   * export is bound to the expected name, whatever the model called it.
+   */
+  private static toPreviewModule(code: string, componentName: string): string {
+    let defaultName: string | null = null;
+
+    const body = code
+      .replace(/^\s*import\s[\s\S]*?from\s*['"][^'"]+['"];?[ \t]*$/gm, '')
+      .replace(/^\s*import\s*['"][^'"]+['"];?[ \t]*$/gm, '')
+      .replace(/export\s+default\s+(?:async\s+)?(function|class)\s+([A-Za-z_$][\w$]*)/g, (_match, kind: string, name: string) => {
+        defaultName = name;
+        return `${kind} ${name}`;
+      })
+      .replace(/^\s*export\s+default\s+([A-Za-z_$][\w$]*)\s*;?[ \t]*$/gm, (_match, name: string) => {
+        defaultName = name;
+        return '';
+      })
+      .replace(/export\s+default\s+/g, () => {
+        defaultName = '__default';
+        return 'const __default = ';
+      })
+      .replace(/^(\s*)export\s+(?=const|let|function|class|interface|type|enum)/gm, '$1');
+
+    const exported = defaultName || componentName;
+    return `const ${componentName} = (() => {
+${body.trim()}
+return ${exported};
+})();`;
+  }
+}
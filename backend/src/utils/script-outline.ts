@@ -0,0 +1,123 @@
+import {
+  parse, AnyNode, ArrowFunctionExpression, Function as FunctionNode, FunctionExpression, MemberExpression, Node
+} from 'acorn';
+import { ancestor } from 'acorn-walk';
+
+export interface ScriptFunctionOutline {
+  name: string;
+  kind: 'function' | 'handler';
+  params: string[];
+  // Handlers only: the event and the source of the expression it is attached to
+  event?: string;
+  target?: string;
+  content: string;
+  // Character offsets into the script, end exclusive
+  startOffset: number;
+  endOffset: number;
+}
+
+type FunctionValue = FunctionExpression | ArrowFunctionExpression;
+
+/**
+ * Lists the named functions of a script and the event handlers it attaches,
+ * via `addEventListener` or an `on<event>` property. A script that does not
+ * parse has no outline rather than a partial one.
+ */
+export class ScriptOutline {
+  static functions(js: string, options: { module?: boolean } = {}): ScriptFunctionOutline[] {
+    let program: Node;
+    try {
+      program = parse(js, { ecmaVersion: 'latest', sourceType: options.module ? 'module' : 'script' });
+    } catch {
+      return [];
+    }
+
+    const source = (node: Node) => js.slice(node.start, node.end);
+    const outline = (
+      span: Node,
+      fn: FunctionNode,
+      record: Pick<ScriptFunctionOutline, 'name' | 'kind' | 'event' | 'target'>
+    ): ScriptFunctionOutline => ({
+      ...record,
+      params: fn.params.map(source),
+      content: source(span),
+      startOffset: span.start,
+      endOffset: span.end
+    });
+    // The enclosing statement, so `const open = () => {}` keeps its `const`
+    const statementOf = (node: Node, ancestors: Node[]): Node => {
+      const parent = ancestors[ancestors.length - 2] as AnyNode | undefined;
+      if (parent?.type === 'ExpressionStatement') return parent;
+      if (parent?.type === 'VariableDeclaration' && parent.declarations.length === 1) return parent;
+      return node;
+    };
+
+    const functions: ScriptFunctionOutline[] = [];
+    ancestor(program, {
+      FunctionDeclaration(node) {
+        if (node.id) {
+          functions.push(outline(node, node, { name: node.id.name, kind: 'function' }));
+        }
+      },
+      VariableDeclarator(node, _state, ancestors) {
+        if (node.id.type === 'Identifier' && ScriptOutline.isFunction(node.init)) {
+          functions.push(outline(statementOf(node, ancestors), node.init, { name: node.id.name, kind: 'function' }));
+        }
+      },
+      AssignmentExpression(node, _state, ancestors) {
+        if (node.left.type !== 'MemberExpression' || !ScriptOutline.isFunction(node.right)) return;
+
+        const property = ScriptOutline.propertyName(node.left);
+        const span = statementOf(node, ancestors);
+        if (property && /^on[a-z]+$/.test(property)) {
+          const event = property.slice(2);
+          functions.push(outline(span, node.right, {
+            name: ScriptOutline.handlerName(event, node.right),
+            kind: 'handler',
+            event,
+            target: source(node.left.object)
+          }));
+        } else {
+          functions.push(outline(span, node.right, { name: source(node.left), kind: 'function' }));
+        }
+      },
+      CallExpression(node, _state, ancestors) {
+        const [eventArgument, listener] = node.arguments;
+        if (
+          node.callee.type !== 'MemberExpression' ||
+          ScriptOutline.propertyName(node.callee) !== 'addEventListener' ||
+          eventArgument?.type !== 'Literal' || typeof eventArgument.value !== 'string' ||
+          !listener
+        ) return;
+
+        const event = eventArgument.value;
+        const span = statementOf(node, ancestors);
+        const record = { kind: 'handler' as const, event, target: source(node.callee.object) };
+        if (ScriptOutline.isFunction(listener)) {
+          functions.push(outline(span, listener, { ...record, name: ScriptOutline.handlerName(event, listener) }));
+        } else if (listener.type === 'Identifier') {
+          // A named listener; its own definition is listed as a function
+          functions.push({ ...record, name: listener.name, params: [], content: source(span), startOffset: span.start, endOffset: span.end });
+        }
+      }
+    });
+
+    // The walk visits children before parents
+    return functions.sort((a, b) => a.startOffset - b.startOffset);
+  }
+
+  private static isFunction(node: AnyNode | null | undefined): node is FunctionValue {
+    return node?.type === 'FunctionExpression' || node?.type === 'ArrowFunctionExpression';
+  }
+
+  private static propertyName(node: MemberExpression): string | null {
+    if (!node.computed && node.property.type === 'Identifier') return node.property.name;
+    if (node.property.type === 'Literal' && typeof node.property.value === 'string') return node.property.value;
+    return null;
+  }
+
+  // Anonymous handlers are named after their event, e.g. `click handler`
+  private static handlerName(event: string, fn: FunctionValue): string {
+    return fn.type === 'FunctionExpression' && fn.id ? fn.id.name : `${event} handler`;
+  }
+}
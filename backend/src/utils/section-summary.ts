@@ -0,0 +1,96 @@
+export interface SummarizableSection {
+  sectionName: string;
+  codeContent: string;
+}
+
+// Tailwind utilities that carry the visual language of a page
+const COLOR_CLASS = /^(?:bg|text|border|from|via|to|ring|fill|stroke)-([a-z]+-\d{2,3}|white|black)$/;
+const TOKEN_CLASS = /^(?:font-(?:sans|serif|mono)|rounded(?:-[a-z0-9]+)?|shadow(?:-[a-z]+)?|max-w-[a-z0-9]+|tracking-[a-z]+|leading-[a-z0-9]+)$/;
+
+/**
+ * Builds a compact, prompt-sized summary of generated sections: the colour
+ * palette, recurring class names and element ids already in use. Passed to
+ * the LLM as context so later components match earlier ones.
+ */
+export class SectionSummary {
+  static summarize(sections: SummarizableSection[], limits = { colors: 8, classes: 30, ids: 40 }): string {
+    if (sections.length === 0) return '';
+
+    const classCounts = new Map<string, number>();
+    const colorCounts = new Map<string, number>();
+    const tokenClasses = new Set<string>();
+    const ids = new Set<string>();
+    const hexColors = new Map<string, number>();
+
+    for (const section of sections) {
+      for (const className of this.extractClasses(section.codeContent)) {
+        classCounts.set(className, (classCounts.get(className) || 0) + 1);
+
+        // Variants such as `hover:` or `md:` share the palette of the base utility
+        const utility = className.split(':').pop()!;
+        const color = utility.match(COLOR_CLASS)?.[1];
+        if (color) {
+          colorCounts.set(color, (colorCounts.get(color) || 0) + 1);
+        }
+        if (TOKEN_CLASS.test(utility)) {
+          tokenClasses.add(utility);
+        }
+      }
+
+      for (const match of section.codeContent.matchAll(/\sid=["']([^"']+)["']/g)) {
+        ids.add(match[1]!);
+      }
+
+      for (const match of section.codeContent.matchAll(/#[0-9a-fA-F]{6}\b|#[0-9a-fA-F]{3}\b/g)) {
+        const hex = match[0].toLowerCase();
+        hexColors.set(hex, (hexColors.get(hex) || 0) + 1);
+      }
+    }
+
+    const lines = [
+      `Already generated: ${sections.map(section => section.sectionName).join(', ')}.`,
+    ];
+
+    const palette = this.topKeys(colorCounts, limits.colors);
+    if (palette.length > 0) {
+      lines.push(`Colour palette (most used first): ${palette.join(', ')}.`);
+    }
+
+    const hex = this.topKeys(hexColors, limits.colors);
+    if (hex.length > 0) {
+      lines.push(`Custom colours: ${hex.join(', ')}.`);
+    }
+
+    if (tokenClasses.size > 0) {
+      lines.push(`Typography, radius, shadow and width tokens: ${[...tokenClasses].sort().join(' ')}.`);
+    }
+
+    const vocabulary = this.topKeys(classCounts, limits.classes);
+    if (vocabulary.length > 0) {
+      lines.push(`Common classes: ${vocabulary.join(' ')}.`);
+    }
+
+    if (ids.size > 0) {
+      lines.push(`Ids already in use, do not reuse: ${[...ids].slice(0, limits.ids).join(', ')}.`);
+    }
+
+    lines.push('Reuse this palette and class vocabulary so the new section matches the existing ones.');
+    return lines.join('\n');
+  }
+
+  private static extractClasses(code: string): string[] {
+    const classes: string[] = [];
+    // Covers both HTML `class` and JSX `className` attributes
+    for (const match of code.matchAll(/\bclass(?:Name)?=["'`]([^"'`]+)["'`]/g)) {
+      classes.push(...match[1]!.split(/\s+/).filter(Boolean));
+    }
+    return classes;
+  }
+
+  private static topKeys(counts: Map<string, number>, limit: number): string[] {
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, limit)
+      .map(([key]) => key);
+  }
+}
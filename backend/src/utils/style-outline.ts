@@ -0,0 +1,69 @@
+import postcss, { AtRule, Root, Rule } from 'postcss';
+
+export interface StyleRuleOutline {
+  selector: string;
+  // Declarations as written, e.g. `color: red; margin: 0`
+  properties: string;
+  declarations: Array<{ property: string; value: string; important: boolean }>;
+  // Enclosing at-rules, outermost first, e.g. `@media (min-width: 768px)`
+  atRules: string[];
+  // Character offsets into the stylesheet, end exclusive
+  startOffset: number;
+  endOffset: number;
+}
+
+// Their children are keyframe steps (`from`, `50%`), not selectors
+const KEYFRAMES = /^(?:-\w+-)?keyframes$/i;
+
+/**
+ * Lists the rules of a stylesheet with their declarations and source offsets.
+ * A stylesheet that does not parse has no outline rather than a partial one.
+ */
+export class StyleOutline {
+  static rules(css: string): StyleRuleOutline[] {
+    let root: Root;
+    try {
+      root = postcss.parse(css);
+    } catch {
+      return [];
+    }
+
+    const rules: StyleRuleOutline[] = [];
+    root.walkRules(rule => {
+      const atRules = this.atRulesOf(rule);
+      if (atRules === null || !rule.source?.start || !rule.source.end) return;
+
+      const declarations: StyleRuleOutline['declarations'] = [];
+      rule.each(node => {
+        if (node.type === 'decl') {
+          declarations.push({ property: node.prop, value: node.value, important: node.important });
+        }
+      });
+
+      rules.push({
+        selector: rule.selector.replace(/\s+/g, ' ').trim(),
+        properties: declarations
+          .map(({ property, value, important }) => `${property}: ${value}${important ? ' !important' : ''}`)
+          .join('; '),
+        declarations,
+        atRules,
+        startOffset: rule.source.start.offset,
+        endOffset: rule.source.end.offset
+      });
+    });
+
+    return rules;
+  }
+
+  // Null when the rule sits inside @keyframes
+  private static atRulesOf(rule: Rule): string[] | null {
+    const atRules: string[] = [];
+    for (let parent = rule.parent; parent && parent.type !== 'root'; parent = parent.parent) {
+      if (parent.type !== 'atrule') continue;
+      const atRule = parent as AtRule;
+      if (KEYFRAMES.test(atRule.name)) return null;
+      atRules.unshift(`@${atRule.name}${atRule.params ? ` ${atRule.params}` : ''}`);
+    }
+    return atRules;
+  }
+}
@@ -0,0 +1,81 @@
+export interface VueComponentFile {
+  componentName: string;
+  code: string;
+}
+
+const VUE_CDN = {
+  vue: 'https://unpkg.com/vue@3/dist/vue.global.js',
+  sfcLoader: 'https://cdn.jsdelivr.net/npm/vue3-sfc-loader@0.9/dist/vue3-sfc-loader.js',
+  tailwind: 'https://cdn.tailwindcss.com',
+};
+
+/**
+ * Assembles generated Vue single-file components into an `App.vue` entry and
+ * into a preview document that compiles the SFCs in the browser.
+ */
+export class VueProjectBuilder {
+  static createAppEntry(componentNames: string[]): string {
+    const imports = componentNames
+      .map(name => `import ${name} from './components/${name}.vue';`)
+      .join('\n');
+    const children = componentNames
+      .map(name => `    <${name} />`)
+      .join('\n');
+
+    return `<script setup>
+${imports}
+</script>
+
+<template>
+  <div class="min-h-screen">
+${children}
+  </div>
+</template>`;
+  }
+
+  static createPreviewDocument(components: VueComponentFile[], app: string, styling: string): string {
+    // Same layout as the exported project, so App.vue's relative imports resolve
+    const files: Record<string, string> = { '/App.vue': app };
+    for (const component of components) {
+      files[`/components/${component.componentName}.vue`] = component.code;
+    }
+
+    // Escaping `<` keeps `</script>` inside component code from closing the tag
+    const source = JSON.stringify(files).replace(/</g, '\\u003c');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Generated Prototype</title>
+${styling === 'tailwind' ? `    <script src="${VUE_CDN.tailwind}"></script>\n` : ''}    <script src="${VUE_CDN.vue}"></script>
+    <script src="${VUE_CDN.sfcLoader}"></script>
+</head>
+<body>
+    <div id="app"></div>
+    <script>
+        (function () {
+            var files = ${source};
+            var options = {
+                moduleCache: { vue: Vue },
+                getFile: function (url) {
+                    if (!(url in files)) throw new Error('Unknown component file ' + url);
+                    return files[url];
+                },
+                addStyle: function (textContent) {
+                    var style = document.createElement('style');
+                    style.textContent = textContent;
+                    document.head.appendChild(style);
+                }
+            };
+            var loadModule = window['vue3-sfc-loader'].loadModule;
+            Vue.createApp(Vue.defineAsyncComponent(function () {
+                return loadModule('/App.vue', options);
+            })).mount('#app');
+        })();
+    </script>
+</body>
+</html>`;
+  }
+}
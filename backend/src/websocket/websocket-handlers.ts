@@ -8,6 +8,7 @@ import {
   GenerationError,
   PreviewRefresh,
 } from '../types/websocket.js';
+import { GenerationJob } from '../types/generation.js';
 
 export class WebSocketHandlers {
   constructor(private wsServer: WSServer) {}
@@ -38,6 +39,10 @@ export class WebSocketHandlers {
     this.wsServer.sendToProject(projectId, WS_EVENTS.GENERATION_ERROR, error);
   }
 
+  public sendGenerationStatus(projectId: string, job: GenerationJob): void {
+    this.wsServer.sendToProject(projectId, WS_EVENTS.GENERATION_STATUS, job);
+  }
+
   // Edit and patch handlers
 
   public sendPatchUpdate(projectId: string, patch: PatchUpdate): void {
@@ -21,6 +21,10 @@ export class WebSocketRouter {
           await this.handleResumeGeneration(message.payload);
           break;
 
+        case WS_EVENTS.CANCEL_GENERATION:
+          await this.handleCancelGeneration(message.payload);
+          break;
+
         case WS_EVENTS.EDIT_ELEMENT:
           await this.handleEditElement(message.payload);
           break;
@@ -65,14 +69,24 @@ export class WebSocketRouter {
     await this.integrationService.handleResumeGeneration(projectId);
   }
 
+  private async handleCancelGeneration(payload: any): Promise<void> {
+    const { projectId } = payload;
+    
+    if (!projectId) {
+      throw new Error('Missing projectId for cancel');
+    }
+
+    await this.integrationService.handleCancelGeneration(projectId);
+  }
+
   private async handleEditElement(payload: any): Promise<void> {
-    const { projectId, elementId, editRequest } = payload;
+    const { projectId, elementId, editRequest, selector } = payload;
     
     if (!projectId || !elementId || !editRequest) {
       throw new Error('Missing required fields for edit');
     }
 
-    await this.integrationService.handleEditElement(projectId, elementId, editRequest);
+    await this.integrationService.handleEditElement(projectId, elementId, editRequest, selector);
   }
 
   // Validation helpers
@@ -1,33 +1,85 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { IncomingMessage } from 'http';
 import { parse } from 'url';
-import { WebSocketMessage, WS_EVENTS, WSEventType } from '../types/websocket.js';
+import { WebSocketMessage, WS_EVENTS, WSEventType, PresenceFocus, PresenceMember } from '../types/websocket.js';
+import { AuthService } from '../services/auth.service.js';
+import { WorkspaceService, hasRole } from '../services/workspace.service.js';
+import { sessionTokenFrom } from '../middleware/auth.middleware.js';
+import { AuthUser } from '../types/auth.js';
+import { WorkspaceRole } from '../types/database.js';
 
 export interface ExtendedWebSocket extends WebSocket {
   id: string;
   projectId?: string;
+  // Role in the joined project's workspace, looked up again for every edit
+  projectRole?: WorkspaceRole;
   userId?: string;
+  // Shown to collaborators in the same project room
+  userName?: string;
+  presence: PresenceFocus;
   isAlive: boolean;
 }
 
+// Client messages that change a project; only editors of the joined project may send them
+const EDIT_EVENTS: ReadonlySet<string> = new Set([
+  WS_EVENTS.START_GENERATION,
+  WS_EVENTS.PAUSE_GENERATION,
+  WS_EVENTS.RESUME_GENERATION,
+  WS_EVENTS.CANCEL_GENERATION,
+  WS_EVENTS.EDIT_ELEMENT,
+]);
+
+const EMPTY_PRESENCE: PresenceFocus = { selectedElement: null, openSection: null };
+
+// Outline colors for collaborators; a user keeps the same color in every project
+const PRESENCE_COLORS = ['#ef4444', '#f59e0b', '#10b981', '#06b6d4', '#8b5cf6', '#ec4899', '#84cc16', '#f97316'];
+
+const presenceColor = (userId: string): string => {
+  let hash = 0;
+  for (const char of userId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return PRESENCE_COLORS[hash % PRESENCE_COLORS.length]!;
+};
+
+// Handshake request once verifyClient has authenticated it
+interface AuthenticatedRequest extends IncomingMessage {
+  user?: AuthUser;
+}
+
 export class WSServer {
   private wss: WebSocketServer;
   private clients: Map<string, ExtendedWebSocket> = new Map();
   private projectRooms: Map<string, Set<string>> = new Map();
 
-  constructor(port: number) {
-    this.wss = new WebSocketServer({ port });
+  constructor(
+    port: number,
+    private authService: AuthService = new AuthService(),
+    private workspaceService: WorkspaceService = new WorkspaceService()
+  ) {
+    this.wss = new WebSocketServer({
+      port,
+      verifyClient: (info, callback) => {
+        this.authenticateHandshake(info.req)
+          .then(authenticated => authenticated ? callback(true) : callback(false, 401, 'Unauthorized'))
+          .catch(error => {
+            console.error('WebSocket authentication error:', error);
+            callback(false, 500, 'Authentication failed');
+          });
+      },
+    });
     this.setupServer();
     console.log(`🔌 WebSocket server running on port ${port}`);
   }
 
   private setupServer(): void {
-    this.wss.on('connection', (ws: ExtendedWebSocket, request: IncomingMessage) => {
-      const { query } = parse(request.url || '', true);
+    this.wss.on('connection', (ws: ExtendedWebSocket, request: AuthenticatedRequest) => {
       const clientId = this.generateClientId();
       
       ws.id = clientId;
-      ws.userId = query.userId as string || 'user-12345'; // Default user for MVP
+      ws.userId = request.user!.id;
+      ws.userName = request.user!.name;
+      ws.presence = { ...EMPTY_PRESENCE };
       ws.isAlive = true;
       
       this.clients.set(clientId, ws);
@@ -106,17 +158,43 @@ export class WSServer {
     });
   }
 
+  /**
+   * Accepts the handshake only with a valid session: the session cookie, a
+   * bearer token, or a `token` query parameter for clients that cannot set
+   * headers.
+   */
+  private async authenticateHandshake(request: AuthenticatedRequest): Promise<boolean> {
+    const { query } = parse(request.url || '', true);
+    const token = sessionTokenFrom(request.headers) ?? (typeof query.token === 'string' ? query.token : null);
+
+    const user = await this.authService.authenticate(token);
+    if (!user) {
+      console.log('🚫 Rejected unauthenticated WebSocket connection');
+      return false;
+    }
+
+    request.user = user;
+    return true;
+  }
+
   private handleMessage(clientId: string, message: WebSocketMessage): void {
     const client = this.clients.get(clientId);
     if (!client) return;
 
     switch (message.type) {
       case WS_EVENTS.JOIN_PROJECT:
-        this.handleJoinProject(clientId, message.payload.projectId);
+        this.handleJoinProject(clientId, message.payload?.projectId).catch(error => {
+          console.error(`Failed to join project for client ${clientId}:`, error);
+          this.sendError(clientId, 'Failed to join project');
+        });
         break;
         
       case WS_EVENTS.LEAVE_PROJECT:
-        this.handleLeaveProject(clientId, message.payload.projectId);
+        this.handleLeaveProject(clientId);
+        break;
+        
+      case WS_EVENTS.UPDATE_PRESENCE:
+        this.handleUpdatePresence(clientId, message.payload);
         break;
         
       default:
@@ -126,17 +204,39 @@ export class WSServer {
     }
   }
 
-  private handleJoinProject(clientId: string, projectId: string): void {
+  /**
+   * Admits the client to a project's room once its user is a member of the
+   * project's workspace. Rooms receive the project's generated code and
+   * edits, so a denied join leaves the client in no room at all.
+   */
+  private async handleJoinProject(clientId: string, projectId: unknown): Promise<void> {
     const client = this.clients.get(clientId);
     if (!client) return;
 
     // Leave previous project if any
     if (client.projectId) {
-      this.handleLeaveProject(clientId, client.projectId);
+      this.handleLeaveProject(clientId);
+    }
+    // Focus sent while access is checked below already belongs to the new project
+    client.presence = { ...EMPTY_PRESENCE };
+
+    if (typeof projectId !== 'string' || !projectId) {
+      this.sendError(clientId, 'Missing projectId');
+      return;
+    }
+
+    const access = await this.workspaceService.projectAccess(projectId, client.userId!);
+    if (!access) {
+      console.log(`🚫 Client ${clientId} denied access to project ${projectId}`);
+      this.sendError(clientId, 'Project not found');
+      return;
     }
+    // The client may have disconnected or joined elsewhere while access was checked
+    if (!this.clients.has(clientId) || client.projectId) return;
 
     // Join new project
     client.projectId = projectId;
+    client.projectRole = access.role;
     
     if (!this.projectRooms.has(projectId)) {
       this.projectRooms.set(projectId, new Set());
@@ -144,18 +244,24 @@ export class WSServer {
     
     this.projectRooms.get(projectId)!.add(clientId);
     
-    console.log(`📂 Client ${clientId} joined project ${projectId}`);
+    console.log(`📂 Client ${clientId} joined project ${projectId} as ${access.role}`);
     
     // Confirm project join
     this.sendToClient(clientId, 'project:joined', {
       projectId,
+      role: access.role,
       timestamp: Date.now(),
     });
+
+    this.projectJoinHandler?.(clientId, projectId);
+    this.broadcastPresence(projectId);
   }
 
-  private handleLeaveProject(clientId: string, projectId: string): void {
+  // Leaves the client's current room; a client can only ever be in its own
+  private handleLeaveProject(clientId: string): void {
     const client = this.clients.get(clientId);
-    if (!client) return;
+    const projectId = client?.projectId;
+    if (!client || !projectId) return;
 
     const room = this.projectRooms.get(projectId);
     if (room) {
@@ -166,8 +272,51 @@ export class WSServer {
     }
 
     client.projectId = undefined;
+    delete client.projectRole;
     
     console.log(`📂 Client ${clientId} left project ${projectId}`);
+    this.broadcastPresence(projectId);
+  }
+
+  // Merges what the client is looking at and shows it to the rest of its room
+  private handleUpdatePresence(clientId: string, payload: Partial<PresenceFocus> | undefined): void {
+    const client = this.clients.get(clientId);
+    if (!client || !payload) return;
+
+    const focus = { ...client.presence };
+    for (const key of ['selectedElement', 'openSection'] as const) {
+      const value = payload[key];
+      if (value === null || typeof value === 'string') {
+        focus[key] = value;
+      }
+    }
+    client.presence = focus;
+
+    if (client.projectId) {
+      this.broadcastPresence(client.projectId);
+    }
+  }
+
+  // Sends everyone in the room the full list of who is there and what they are looking at
+  private broadcastPresence(projectId: string): void {
+    const room = this.projectRooms.get(projectId);
+    if (!room) return;
+
+    const members: PresenceMember[] = [];
+    room.forEach(clientId => {
+      const client = this.clients.get(clientId);
+      if (!client?.userId) return;
+
+      members.push({
+        clientId,
+        userId: client.userId,
+        name: client.userName || 'Anonymous',
+        color: presenceColor(client.userId),
+        ...client.presence,
+      });
+    });
+
+    this.sendToProject(projectId, WS_EVENTS.PRESENCE_STATE, { projectId, members });
   }
 
   private handleDisconnect(clientId: string): void {
@@ -176,7 +325,7 @@ export class WSServer {
 
     // Leave project room if in one
     if (client.projectId) {
-      this.handleLeaveProject(clientId, client.projectId);
+      this.handleLeaveProject(clientId);
     }
 
     // Remove client
@@ -186,6 +335,24 @@ export class WSServer {
   }
 
   private forwardMessage(clientId: string, message: WebSocketMessage): void {
+    if (!EDIT_EVENTS.has(message.type)) {
+      this.dispatchMessage(clientId, message);
+      return;
+    }
+
+    this.canEditProject(clientId, message.payload?.projectId)
+      .then(allowed => {
+        if (allowed) {
+          this.dispatchMessage(clientId, message);
+        }
+      })
+      .catch(error => {
+        console.error(`Failed to check edit access for client ${clientId}:`, error);
+        this.sendError(clientId, 'Failed to check project access');
+      });
+  }
+
+  private dispatchMessage(clientId: string, message: WebSocketMessage): void {
     // Forward messages to integration service if available
     if (this.integrationService) {
       this.integrationService.handleMessage(clientId, message);
@@ -194,6 +361,72 @@ export class WSServer {
     }
   }
 
+  /**
+   * Edits must target the room the client joined, with at least the editor
+   * role there. The role is looked up again for every edit, so a member who
+   * was removed or downgraded since joining loses edit access right away.
+   */
+  private async canEditProject(clientId: string, projectId: unknown): Promise<boolean> {
+    const client = this.clients.get(clientId);
+    if (!client?.projectId || client.projectId !== projectId) {
+      this.sendError(clientId, 'Join the project before editing it');
+      return false;
+    }
+
+    // Clients that lost access altogether were already told and sent out of the room
+    const role = await this.refreshClientAccess(clientId);
+    if (!role) return false;
+
+    if (!hasRole(role, WorkspaceRole.EDITOR)) {
+      console.log(`🚫 Client ${clientId} lacks the editor role for project ${projectId}`);
+      this.sendError(clientId, `This requires the ${WorkspaceRole.EDITOR} role`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Looks up the role of the client's user in its room's project again.
+   * Clients that lost access leave the room; returns their current role, or
+   * null when they are in no room (anymore).
+   */
+  private async refreshClientAccess(clientId: string): Promise<WorkspaceRole | null> {
+    const client = this.clients.get(clientId);
+    if (!client?.projectId || !client.userId) return null;
+
+    const projectId = client.projectId;
+    const access = await this.workspaceService.projectAccess(projectId, client.userId);
+    // The client may have disconnected or moved to another room meanwhile
+    if (!this.clients.has(clientId) || client.projectId !== projectId) return null;
+
+    if (!access) {
+      console.log(`🚫 Client ${clientId} lost access to project ${projectId}`);
+      this.handleLeaveProject(clientId);
+      this.sendError(clientId, 'You no longer have access to this project');
+      return null;
+    }
+
+    client.projectRole = access.role;
+    return access.role;
+  }
+
+  /**
+   * Re-checks the open sockets of a user, or of a project's room, after
+   * memberships, roles or the project's workspace changed, so nobody keeps
+   * receiving a project they were removed from.
+   */
+  public async refreshAccess(target: { userId: string } | { projectId: string }): Promise<void> {
+    const clientIds = 'userId' in target
+      ? Array.from(this.clients.values()).filter(client => client.userId === target.userId).map(client => client.id)
+      : Array.from(this.projectRooms.get(target.projectId) ?? []);
+
+    await Promise.all(clientIds.map(clientId =>
+      this.refreshClientAccess(clientId).catch(error => {
+        console.error(`Failed to refresh access for client ${clientId}:`, error);
+      })
+    ));
+  }
+
   // Integration service for handling business logic
   private integrationService: any = null;
 
@@ -202,6 +435,13 @@ export class WSServer {
     console.log('🔗 Integration service connected to WebSocket server');
   }
 
+  // Called after a client joins a project room, e.g. to replay current state
+  private projectJoinHandler: ((clientId: string, projectId: string) => void) | null = null;
+
+  public setProjectJoinHandler(handler: (clientId: string, projectId: string) => void): void {
+    this.projectJoinHandler = handler;
+  }
+
   // Public methods for sending messages
 
   public sendToClient(clientId: string, type: WSEventType, payload: any): boolean {
@@ -240,17 +480,6 @@ export class WSServer {
     return sentCount;
   }
 
-  public sendToAll(type: WSEventType, payload: any): number {
-    let sentCount = 0;
-    this.clients.forEach((client, clientId) => {
-      if (this.sendToClient(clientId, type, payload)) {
-        sentCount++;
-      }
-    });
-
-    return sentCount;
-  }
-
   public sendError(clientId: string, error: string): boolean {
     return this.sendToClient(clientId, WS_EVENTS.ERROR, {
       error,
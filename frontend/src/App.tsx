@@ -1,10 +1,13 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { AppShell } from './components/AppShell';
 import { WebSocketProvider } from './providers/WebSocketProvider';
 import { ToastContainer } from './components/Toast';
+import { AuthScreen } from './components/AuthScreen';
+import { LoadingSpinner } from './components/LoadingSpinner';
 import { useToastStore } from './stores/toastStore';
+import { useAuthStore } from './stores/authStore';
 import './index.css';
 
 const queryClient = new QueryClient({
@@ -18,16 +21,37 @@ const queryClient = new QueryClient({
 
 function App() {
   const { toasts, removeToast } = useToastStore();
+  const { user, isChecking, checkSession } = useAuthStore();
+
+  useEffect(() => {
+    checkSession();
+  }, [checkSession]);
+
+  if (isChecking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
 
   return (
     <ErrorBoundary>
       <QueryClientProvider client={queryClient}>
-        <WebSocketProvider>
-          <div className="min-h-screen bg-gray-50">
-            <AppShell />
+        {user ? (
+          // The WebSocket handshake needs the session, so it only connects once signed in
+          <WebSocketProvider key={user.id}>
+            <div className="min-h-screen bg-gray-50">
+              <AppShell />
+              <ToastContainer toasts={toasts} onClose={removeToast} />
+            </div>
+          </WebSocketProvider>
+        ) : (
+          <>
+            <AuthScreen />
             <ToastContainer toasts={toasts} onClose={removeToast} />
-          </div>
-        </WebSocketProvider>
+          </>
+        )}
       </QueryClientProvider>
     </ErrorBoundary>
   );
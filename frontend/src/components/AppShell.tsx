@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { Settings, Zap, Menu, X, FolderOpen, Plus } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Settings, Zap, Menu, X, FolderOpen, Plus, RotateCcw, LogOut } from 'lucide-react';
 import { InputPanel } from './InputPanel';
 import { PreviewPanel } from './PreviewPanel';
 import { WorkflowPanel } from './WorkflowPanel';
@@ -9,6 +9,7 @@ import { StreamingGeneration } from './StreamingGeneration';
 import { IterativePanel } from './IterativePanel';
 import { ProjectManager } from './ProjectManager';
 import { useGenerationStore } from '../stores/generationStore';
+import { useAuthStore } from '../stores/authStore';
 import { useWebSocket } from '../providers/WebSocketProvider';
 import { useResponsive } from '../hooks/useResponsive';
 
@@ -25,10 +26,25 @@ export const AppShell: React.FC = () => {
     completedPhases,
     generatedCode,
     startGeneration,
-    approvePlan 
+    approvePlan,
+    restoreCurrentPlan,
+    resumableJob
   } = useGenerationStore();
+
+  useEffect(() => {
+    restoreCurrentPlan();
+  }, [restoreCurrentPlan]);
   
-  const { wsService, isConnected } = useWebSocket();
+  const { wsService, isConnected, joinProject } = useWebSocket();
+  const { user, logout } = useAuthStore();
+
+  // Joining the project room makes the server replay the latest generation status
+  const currentProjectId = currentPlan?.projectId;
+  useEffect(() => {
+    if (isConnected && currentProjectId) {
+      joinProject(currentProjectId);
+    }
+  }, [isConnected, currentProjectId]);
   const currentModel = 'DeepSeek Chat';
 
   return (
@@ -64,6 +80,15 @@ export const AppShell: React.FC = () => {
               {!isMobile && 'Settings'}
             </button>
 
+            <button
+              onClick={logout}
+              className="flex items-center px-3 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors"
+              title={user ? `Signed in as ${user.email}` : undefined}
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              {!isMobile && 'Sign Out'}
+            </button>
+
             {isMobile && (
               <button
                 onClick={() => setShowMobileSidebar(!showMobileSidebar)}
@@ -125,6 +150,23 @@ export const AppShell: React.FC = () => {
             ) : /* Show PlanningPhase if we have a plan but haven't started generating */
             currentPlan && !completedPhases.includes('generating') && currentPhase !== 'generating' && currentPhase !== 'documenting' ? (
               <div className="p-6">
+                {resumableJob && resumableJob.planId === currentPlan.id && (
+                  <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                    <p className="text-sm text-yellow-800 mb-3">
+                      The last generation stopped after {resumableJob.completedComponents.length} of {resumableJob.totalComponents} components.
+                    </p>
+                    <button
+                      onClick={async () => {
+                        await startGeneration(wsService, { resume: true });
+                        if (isMobile) setShowMobileSidebar(false);
+                      }}
+                      className="flex items-center px-3 py-2 bg-yellow-600 text-white rounded-md hover:bg-yellow-700 transition-colors"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Resume generation
+                    </button>
+                  </div>
+                )}
                 <PlanningPhase
                   plan={currentPlan}
                   onApprove={async () => {
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Zap, LogIn, UserPlus } from 'lucide-react';
+import { useAuthStore } from '../stores/authStore';
+import { LoadingSpinner } from './LoadingSpinner';
+
+type AuthMode = 'login' | 'register';
+
+export const AuthScreen: React.FC = () => {
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+
+  const { login, register, isLoading, error, setError } = useAuthStore();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'login') {
+      await login(email, password);
+    } else {
+      await register(email, password, name);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(mode === 'login' ? 'register' : 'login');
+    setError(null);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <div className="w-full max-w-sm bg-white rounded-lg shadow-lg p-8">
+        <div className="flex items-center justify-center space-x-2 mb-6">
+          <Zap className="h-8 w-8 text-blue-600" />
+          <h1 className="text-xl font-bold text-gray-900">AI Prototype Generator</h1>
+        </div>
+
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+          {mode === 'login' ? 'Sign in' : 'Create an account'}
+        </h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'register' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoComplete="name"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="email"
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              minLength={mode === 'register' ? 8 : undefined}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isLoading ? (
+              <LoadingSpinner size="sm" color="white" className="mr-2" />
+            ) : mode === 'login' ? (
+              <LogIn className="h-4 w-4 mr-2" />
+            ) : (
+              <UserPlus className="h-4 w-4 mr-2" />
+            )}
+            {mode === 'login' ? 'Sign In' : 'Create Account'}
+          </button>
+        </form>
+
+        <p className="text-sm text-gray-600 text-center mt-4">
+          {mode === 'login' ? "Don't have an account?" : 'Already have an account?'}{' '}
+          <button onClick={switchMode} className="text-blue-600 hover:text-blue-800 font-medium">
+            {mode === 'login' ? 'Create one' : 'Sign in'}
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,8 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Code, Download, Copy, Search, FileText, Layers, Eye, EyeOff } from 'lucide-react';
 import { useGenerationStore } from '../stores/generationStore';
 import { useToast } from '../stores/toastStore';
+import { usePresenceStore } from '../stores/presenceStore';
+import { useWebSocket } from '../providers/WebSocketProvider';
 
 interface CodeEditorProps {
   className?: string;
@@ -19,6 +21,17 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ className = '' }) => {
   
   const { generatedCode, isGenerating } = useGenerationStore();
   const { success, error } = useToast();
+  const { collaborators } = usePresenceStore();
+  const { updatePresence } = useWebSocket();
+
+  // Tell collaborators which section we are reading
+  useEffect(() => {
+    updatePresence({ openSection: activeSection });
+  }, [activeSection]);
+
+  useEffect(() => {
+    return () => updatePresence({ openSection: null });
+  }, []);
 
   // Extract different code sections from complete HTML
   const extractCodeSections = () => {
@@ -227,6 +240,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ className = '' }) => {
           {sections.map((section) => {
             const Icon = section.icon;
             const codeLength = codeSections[section.id]?.length || 0;
+            const viewers = collaborators.filter(member => member.openSection === section.id);
             
             return (
               <button
@@ -244,6 +258,14 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ className = '' }) => {
                 <span className="ml-2 text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded-full">
                   {codeLength > 0 ? `${Math.round(codeLength / 1000)}k` : '0'}
                 </span>
+                {viewers.map(member => (
+                  <span
+                    key={member.clientId}
+                    className="inline-block w-2 h-2 ml-1 rounded-full"
+                    style={{ backgroundColor: member.color }}
+                    title={`${member.name} is viewing this section`}
+                  />
+                ))}
               </button>
             );
           })}
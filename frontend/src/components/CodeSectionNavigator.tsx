@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Hash, Search, Filter, ChevronRight, Code, Palette, Zap } from 'lucide-react';
 import { useGenerationStore } from '../stores/generationStore';
+import { ProjectStructure } from '../types/generation';
 
 interface CodeSectionNavigatorProps {
   onSectionSelect?: (section: CodeSection) => void;
@@ -10,8 +11,11 @@ interface CodeSectionNavigatorProps {
 interface CodeSection {
   id: string;
   name: string;
-  type: 'element' | 'class' | 'function' | 'style';
+  type: 'element' | 'rule' | 'function' | 'style';
+  // 1-based, as shown in the editor gutter
   line: number;
+  startOffset: number;
+  endOffset: number;
   content: string;
   parent?: string;
 }
@@ -23,17 +27,43 @@ export const CodeSectionNavigator: React.FC<CodeSectionNavigatorProps> = ({
   const [sections, setSections] = useState<CodeSection[]>([]);
   const [filteredSections, setFilteredSections] = useState<CodeSection[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterType, setFilterType] = useState<'all' | 'element' | 'class' | 'function' | 'style'>('all');
+  const [filterType, setFilterType] = useState<'all' | 'element' | 'rule' | 'function' | 'style'>('all');
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set());
   
-  const { generatedCode } = useGenerationStore();
+  const { generatedCode, currentPlan } = useGenerationStore();
+  const projectId = currentPlan?.projectId || currentPlan?.id;
 
-  // Parse code and extract sections
+  // Load the parsed structure of the saved HTML whenever the code changes
   useEffect(() => {
-    if (generatedCode?.completeHTML) {
-      parseCodeSections(generatedCode.completeHTML);
+    if (!projectId || !generatedCode?.completeHTML) {
+      setSections([]);
+      return;
     }
-  }, [generatedCode]);
+
+    let cancelled = false;
+    const loadStructure = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/structure`);
+        if (!response.ok) {
+          throw new Error(`Structure request failed: ${response.status}`);
+        }
+        const structure: ProjectStructure = await response.json();
+        if (!cancelled) {
+          setSections(toCodeSections(structure));
+        }
+      } catch (error) {
+        console.error('Failed to load code structure:', error);
+        if (!cancelled) {
+          setSections([]);
+        }
+      }
+    };
+
+    loadStructure();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, generatedCode]);
 
   // Filter sections based on search and type
   useEffect(() => {
@@ -53,67 +83,57 @@ export const CodeSectionNavigator: React.FC<CodeSectionNavigatorProps> = ({
     setFilteredSections(filtered);
   }, [sections, searchTerm, filterType]);
 
-  const parseCodeSections = (html: string) => {
-    const parsedSections: CodeSection[] = [];
-    const lines = html.split('\n');
-
-    lines.forEach((line, index) => {
-      const trimmedLine = line.trim();
-      
-      // Parse HTML elements
-      const elementMatch = trimmedLine.match(/<(\w+)(?:\s+[^>]*)?(?:\s+id=["']([^"']+)["'])?(?:\s+class=["']([^"']+)["'])?[^>]*>/);
-      if (elementMatch && !trimmedLine.startsWith('</')) {
-        const [, tagName, id, className] = elementMatch;
-        
-        parsedSections.push({
-          id: `element-${index}`,
-          name: id || `${tagName}${className ? `.${className.split(' ')[0]}` : ''}`,
-          type: 'element',
-          line: index + 1,
-          content: trimmedLine,
-          parent: tagName
-        });
-      }
+  const toCodeSections = (structure: ProjectStructure): CodeSection[] => {
+    const elements: CodeSection[] = structure.elements.map(element => ({
+      id: `element-${element.elementId}`,
+      name: `<${element.elementType}> ${element.elementId}`,
+      type: 'element',
+      line: element.startLine + 1,
+      startOffset: element.startOffset,
+      endOffset: element.endOffset,
+      content: element.elementId,
+      parent: element.sectionName
+    }));
 
-      // Parse CSS classes
-      const classMatch = trimmedLine.match(/\.([a-zA-Z][\w-]*)\s*\{/);
-      if (classMatch) {
-        parsedSections.push({
-          id: `class-${index}`,
-          name: `.${classMatch[1]}`,
-          type: 'class',
-          line: index + 1,
-          content: trimmedLine
-        });
-      }
+    const rules: CodeSection[] = structure.sections.styles.rules.map(rule => ({
+      id: `rule-${rule.startOffset}`,
+      name: rule.selector,
+      type: 'rule',
+      line: rule.startLine + 1,
+      startOffset: rule.startOffset,
+      endOffset: rule.endOffset,
+      content: rule.properties,
+      parent: rule.atRules.join(' ') || undefined
+    }));
 
-      // Parse JavaScript functions
-      const functionMatch = trimmedLine.match(/function\s+(\w+)\s*\(|const\s+(\w+)\s*=.*=>/);
-      if (functionMatch) {
-        const functionName = functionMatch[1] || functionMatch[2];
-        parsedSections.push({
-          id: `function-${index}`,
-          name: `${functionName}()`,
-          type: 'function',
-          line: index + 1,
-          content: trimmedLine
-        });
-      }
+    // Custom properties are listed on their own, under the rule that declares them
+    const customProperties: CodeSection[] = structure.sections.styles.rules.flatMap(rule =>
+      rule.declarations
+        .filter(declaration => declaration.property.startsWith('--'))
+        .map(declaration => ({
+          id: `style-${rule.startOffset}${declaration.property}`,
+          name: declaration.property,
+          type: 'style' as const,
+          line: rule.startLine + 1,
+          startOffset: rule.startOffset,
+          endOffset: rule.endOffset,
+          content: declaration.value,
+          parent: rule.selector
+        }))
+    );
 
-      // Parse CSS custom properties
-      const customPropMatch = trimmedLine.match(/--([a-zA-Z][\w-]*)\s*:/);
-      if (customPropMatch) {
-        parsedSections.push({
-          id: `style-${index}`,
-          name: `--${customPropMatch[1]}`,
-          type: 'style',
-          line: index + 1,
-          content: trimmedLine
-        });
-      }
-    });
+    const functions: CodeSection[] = structure.sections.scripts.functions.map(fn => ({
+      id: `function-${fn.startOffset}`,
+      name: fn.kind === 'handler' ? `${fn.name} · ${fn.target}` : `${fn.name}(${fn.params.join(', ')})`,
+      type: 'function',
+      line: fn.startLine + 1,
+      startOffset: fn.startOffset,
+      endOffset: fn.endOffset,
+      content: fn.content,
+      parent: fn.kind === 'handler' ? 'event handlers' : undefined
+    }));
 
-    setSections(parsedSections);
+    return [...elements, ...rules, ...customProperties, ...functions];
   };
 
   const toggleSection = (sectionId: string) => {
@@ -133,7 +153,7 @@ export const CodeSectionNavigator: React.FC<CodeSectionNavigatorProps> = ({
   const getSectionIcon = (type: CodeSection['type']) => {
     switch (type) {
       case 'element': return Code;
-      case 'class': return Palette;
+      case 'rule': return Palette;
       case 'function': return Zap;
       case 'style': return Hash;
       default: return Code;
@@ -143,7 +163,7 @@ export const CodeSectionNavigator: React.FC<CodeSectionNavigatorProps> = ({
   const getSectionColor = (type: CodeSection['type']) => {
     switch (type) {
       case 'element': return 'text-blue-600';
-      case 'class': return 'text-green-600';
+      case 'rule': return 'text-green-600';
       case 'function': return 'text-purple-600';
       case 'style': return 'text-orange-600';
       default: return 'text-gray-600';
@@ -192,7 +212,7 @@ export const CodeSectionNavigator: React.FC<CodeSectionNavigatorProps> = ({
           >
             <option value="all">All Types</option>
             <option value="element">Elements</option>
-            <option value="class">Classes</option>
+            <option value="rule">CSS Rules</option>
             <option value="function">Functions</option>
             <option value="style">Styles</option>
           </select>
@@ -275,7 +295,7 @@ export const CodeSectionNavigator: React.FC<CodeSectionNavigatorProps> = ({
             </div>
             <div className="flex items-center">
               <div className="w-2 h-2 bg-green-500 rounded-full mr-1"></div>
-              <span>Classes</span>
+              <span>Rules</span>
             </div>
             <div className="flex items-center">
               <div className="w-2 h-2 bg-purple-500 rounded-full mr-1"></div>
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { X, Check, Send, Wand2 } from 'lucide-react';
+import { useCommentStore } from '../stores/commentStore';
+import { useGenerationStore, PREVIEW_STORAGE_KEY } from '../stores/generationStore';
+import { useToast } from '../stores/toastStore';
+import { hasRole } from '../types/workspace';
+import { CommentThread } from '../types/comment';
+import { MergeConflictModal, PendingMerge } from './MergeConflictModal';
+
+interface CommentThreadPanelProps {
+  thread: CommentThread;
+  // Pin number shown over the preview
+  number: number;
+  projectId: string;
+  onClose: () => void;
+}
+
+
+// The whole conversation becomes the instruction, so replies can refine the request
+const editInstructionFor = (thread: CommentThread) => [
+  'Apply this review feedback to the selected element:',
+  ...[thread, ...thread.replies].map(comment => `- ${comment.author?.name ?? 'Reviewer'}: ${comment.body}`)
+].join('\n');
+
+export const CommentThreadPanel: React.FC<CommentThreadPanelProps> = ({
+  thread,
+  number,
+  projectId,
+  onClose
+}) => {
+  const [replyBody, setReplyBody] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  // Set when the edit overlaps one saved since this HTML was loaded
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+
+  const { reply, setResolved } = useCommentStore();
+  const { generatedCode, setGeneratedCode, projectRevision, setProjectRevision, projectRole } = useGenerationStore();
+  const { success, error } = useToast();
+  const canEdit = hasRole(projectRole, 'EDITOR');
+
+  const handleReply = async () => {
+    if (!replyBody.trim()) return;
+
+    setIsSending(true);
+    try {
+      await reply(thread.id, replyBody.trim());
+      setReplyBody('');
+    } catch (err: any) {
+      console.error('Failed to reply:', err);
+      error(err.message || 'Failed to reply');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    try {
+      await setResolved(thread.id, true);
+      success(`Comment #${number} resolved`);
+      onClose();
+    } catch (err: any) {
+      console.error('Failed to resolve comment:', err);
+      error(err.message || 'Failed to resolve comment');
+    }
+  };
+
+  const handleApplyAsEdit = async () => {
+    setIsApplying(true);
+    try {
+      // The store holds the open project's code; the preview copy may be another project's
+      const currentCode = generatedCode?.completeHTML;
+      if (!currentCode) {
+        throw new Error('Nothing to edit yet - generate or open a project first');
+      }
+      const response = await fetch('/api/generate/surgical-edit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          currentCode,
+          editInstruction: editInstructionFor(thread),
+          projectId,
+          elementId: 'complete-html',
+          selector: thread.selector,
+          baseRevision: projectRevision
+        })
+      });
+
+      const result = await response.json();
+      if (response.status === 409) {
+        setPendingMerge(result);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(result.requiresFullRegeneration ? result.suggestion : result.message || result.error || 'Failed to apply comment');
+      }
+
+      localStorage.setItem(PREVIEW_STORAGE_KEY, result.updatedCode);
+      if (generatedCode) {
+        setGeneratedCode({ ...generatedCode, completeHTML: result.updatedCode });
+      }
+      if (result.section?.projectRevision) {
+        setProjectRevision(result.section.projectRevision);
+      }
+
+      await setResolved(thread.id, true);
+      success(`Comment #${number} applied and resolved`);
+      onClose();
+    } catch (err: any) {
+      console.error('Failed to apply comment:', err);
+      error(err.message || 'Failed to apply comment');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (pendingMerge) {
+    return (
+      <MergeConflictModal
+        merge={pendingMerge}
+        projectId={projectId}
+        onClose={() => setPendingMerge(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-medium text-gray-900">Comment #{number}</h4>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded"
+          title="Close"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="text-xs text-gray-500 font-mono truncate mb-1" title={thread.selector ?? undefined}>
+        {thread.selector}
+      </div>
+      {thread.revision !== null && thread.revision !== projectRevision && (
+        <div className="text-xs text-amber-600 mb-2">
+          Left on revision {thread.revision}; the element may have changed since
+        </div>
+      )}
+
+      {/* Conversation */}
+      <div className="space-y-2 max-h-56 overflow-y-auto">
+        {[thread, ...thread.replies].map(comment => (
+          <div key={comment.id} className="bg-white px-3 py-2 rounded border text-sm">
+            <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+              <span className="font-medium text-gray-700">{comment.author?.name ?? 'Former member'}</span>
+              <span>{new Date(comment.createdAt).toLocaleString()}</span>
+            </div>
+            <p className="text-gray-900 whitespace-pre-wrap">{comment.body}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Reply */}
+      <div className="flex items-center space-x-2 mt-3">
+        <input
+          type="text"
+          value={replyBody}
+          onChange={(e) => setReplyBody(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleReply()}
+          placeholder="Reply"
+          className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={handleReply}
+          disabled={!replyBody.trim() || isSending}
+          className="p-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          title="Send Reply"
+        >
+          <Send className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Actions */}
+      <div className="mt-4 pt-4 border-t border-gray-200 space-y-2">
+        {canEdit && (
+          <button
+            onClick={handleApplyAsEdit}
+            disabled={isApplying}
+            className="w-full flex items-center justify-center px-3 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors text-sm disabled:opacity-50"
+            title="Turn this thread into a surgical edit of the element"
+          >
+            <Wand2 className="h-4 w-4 mr-2" />
+            {isApplying ? 'Applying...' : 'Apply as Edit'}
+          </button>
+        )}
+        <button
+          onClick={handleResolve}
+          className="w-full flex items-center justify-center px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors text-sm"
+        >
+          <Check className="h-4 w-4 mr-2" />
+          Resolve
+        </button>
+      </div>
+    </div>
+  );
+};
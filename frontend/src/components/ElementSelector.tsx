@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { MousePointer, Edit3, Trash2, Copy, Move, Eye, EyeOff } from 'lucide-react';
 import { useGenerationStore } from '../stores/generationStore';
 import { useWebSocket } from '../providers/WebSocketProvider';
+import { generateSelector } from '../services/selector.service';
 
 interface ElementSelectorProps {
   iframeRef: React.RefObject<HTMLIFrameElement>;
@@ -33,38 +34,19 @@ export const ElementSelector: React.FC<ElementSelectorProps> = ({
   const overlayRef = useRef<HTMLDivElement>(null);
   
   const { generatedCode } = useGenerationStore();
-  const { editElement } = useWebSocket();
+  const { editElement, updatePresence } = useWebSocket();
 
-  // Generate unique selector for element
-  const generateSelector = (element: Element): string => {
-    if (element.id) {
-      return `#${element.id}`;
-    }
-    
-    if (element.className) {
-      const classes = element.className.split(' ').filter(c => c.trim());
-      if (classes.length > 0) {
-        return `.${classes.join('.')}`;
-      }
-    }
-    
-    // Fallback to nth-child selector
-    const parent = element.parentElement;
-    if (parent) {
-      const siblings = Array.from(parent.children);
-      const index = siblings.indexOf(element) + 1;
-      return `${element.tagName.toLowerCase()}:nth-child(${index})`;
-    }
-    
-    return element.tagName.toLowerCase();
-  };
+  // Collaborators stop seeing our selection once the selector goes away
+  useEffect(() => {
+    return () => updatePresence({ selectedElement: null });
+  }, []);
 
   // Extract element information
   const extractElementInfo = (element: Element): ElementInfo => {
     const rect = element.getBoundingClientRect();
     
     return {
-      id: element.id || `element-${Date.now()}`,
+      id: element.getAttribute('data-pid') || element.id || `element-${Date.now()}`,
       tagName: element.tagName.toLowerCase(),
       className: element.className,
       textContent: element.textContent?.trim() || '',
@@ -174,6 +156,7 @@ export const ElementSelector: React.FC<ElementSelectorProps> = ({
       
       const elementInfo = extractElementInfo(element);
       setSelectedElement(elementInfo);
+      updatePresence({ selectedElement: elementInfo.selector });
       onElementSelect?.(elementInfo);
     };
 
@@ -202,6 +185,7 @@ export const ElementSelector: React.FC<ElementSelectorProps> = ({
   const clearSelection = () => {
     setSelectedElement(null);
     setHoveredElement(null);
+    updatePresence({ selectedElement: null });
     
     if (iframeRef.current?.contentDocument) {
       const doc = iframeRef.current.contentDocument;
@@ -227,6 +211,7 @@ export const ElementSelector: React.FC<ElementSelectorProps> = ({
     if (element) {
       element.remove();
       setSelectedElement(null);
+      updatePresence({ selectedElement: null });
     }
   };
 
@@ -28,6 +28,7 @@ export const GenerationControls: React.FC<GenerationControlsProps> = ({
   const { 
     pauseGeneration, 
     resumeGeneration, 
+    cancelGeneration,
     isConnected 
   } = useWebSocket();
   
@@ -57,6 +58,7 @@ export const GenerationControls: React.FC<GenerationControlsProps> = ({
   const handleStop = () => {
     if (showStopConfirm) {
       // Actually stop generation
+      cancelGeneration(projectId);
       onStop?.();
       setShowStopConfirm(false);
       setIsPaused(false);
@@ -73,16 +73,21 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onGenerate }) => {
             Output Type
           </label>
           <select
-            value={preferences.outputType}
-            onChange={(e) => setPreferences(prev => ({ 
-              ...prev, 
-              outputType: e.target.value as 'html-js' | 'react' 
-            }))}
+            value={preferences.framework}
+            onChange={(e) => {
+              const framework = e.target.value as 'vanilla' | 'react' | 'vue';
+              setPreferences(prev => ({ 
+                ...prev, 
+                framework,
+                outputType: framework === 'react' ? 'react' : 'html-js'
+              }));
+            }}
             className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             disabled={isGenerating}
           >
-            <option value="html-js">HTML + JavaScript</option>
+            <option value="vanilla">HTML + JavaScript</option>
             <option value="react">React Components</option>
+            <option value="vue">Vue Components</option>
           </select>
         </div>
 
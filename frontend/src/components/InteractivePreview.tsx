@@ -1,6 +1,19 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { MousePointer, Hand, Eye, EyeOff, Maximize2, RotateCcw } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { MousePointer, Hand, Eye, EyeOff, Maximize2, RotateCcw, MessageSquare } from 'lucide-react';
 import { useGenerationStore } from '../stores/generationStore';
+import { usePresenceStore } from '../stores/presenceStore';
+import { useCommentStore } from '../stores/commentStore';
+import { useToast } from '../stores/toastStore';
+import { PresenceMember } from '../types/presence';
+import { CommentThread } from '../types/comment';
+import {
+  PreviewElementInfo,
+  PreviewRect,
+  readPreviewEvent,
+  sendToPreview,
+  withPreviewBridge
+} from '../services/preview-bridge.service';
+import { CommentThreadPanel } from './CommentThreadPanel';
 
 interface InteractivePreviewProps {
   className?: string;
@@ -8,152 +21,138 @@ interface InteractivePreviewProps {
 
 type InteractionMode = 'view' | 'select' | 'interact';
 
+// A collaborator's selected element, positioned over the iframe viewport
+interface CollaboratorOutline extends PreviewRect {
+  member: PresenceMember;
+}
+
+// An open comment thread, pinned to the top right corner of its element
+interface CommentPin {
+  thread: CommentThread;
+  number: number;
+  top: number;
+  left: number;
+}
+
+const initialsOf = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0]!.toUpperCase()).join('') || '?';
+
 export const InteractivePreview: React.FC<InteractivePreviewProps> = ({ className = '' }) => {
   const [interactionMode, setInteractionMode] = useState<InteractionMode>('view');
-  const [selectedElement, setSelectedElement] = useState<string | null>(null);
+  const [selectedInfo, setSelectedInfo] = useState<PreviewElementInfo | null>(null);
   const [hoveredElement, setHoveredElement] = useState<string | null>(null);
   const [showElementOutlines, setShowElementOutlines] = useState(false);
+  // Positions of the watched elements, as last reported by the frame
+  const [elementRects, setElementRects] = useState<Record<string, PreviewRect>>({});
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [newComment, setNewComment] = useState('');
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const overlayRef = useRef<HTMLDivElement>(null);
   
-  const { generatedCode, isGenerating } = useGenerationStore();
+  const { generatedCode, isGenerating, currentPlan, projectRevision } = useGenerationStore();
+  const { collaborators } = usePresenceStore();
+  const { threads, loadThreads, startThread } = useCommentStore();
+  const { success, error } = useToast();
+
+  // Plans without a project id have nothing to comment on yet
+  const projectId = currentPlan?.projectId;
+  const openThread = threads.find(thread => thread.id === openThreadId);
+  const selecting = interactionMode === 'select';
+
+  const previewHTML = useMemo(
+    () => generatedCode?.completeHTML ? withPreviewBridge(generatedCode.completeHTML) : null,
+    [generatedCode?.completeHTML]
+  );
+
+  // Elements to follow: what collaborators selected and where threads are pinned
+  const watchedSelectors = useMemo(() => [...new Set([
+    ...collaborators.flatMap(member => member.selectedElement ? [member.selectedElement] : []),
+    ...threads.flatMap(thread => thread.selector ? [thread.selector] : [])
+  ])], [collaborators, threads]);
 
-  // Inject interaction scripts into iframe
   useEffect(() => {
-    if (!iframeRef.current || !generatedCode?.completeHTML) return;
-
-    const iframe = iframeRef.current;
-    const doc = iframe.contentDocument;
-    
-    if (doc) {
-      // Inject CSS for element highlighting
-      const style = doc.createElement('style');
-      style.textContent = `
-        .kiro-element-hover {
-          outline: 2px dashed #3b82f6 !important;
-          outline-offset: 2px !important;
-          cursor: pointer !important;
-        }
-        .kiro-element-selected {
-          outline: 2px solid #ef4444 !important;
-          outline-offset: 2px !important;
-          background-color: rgba(239, 68, 68, 0.1) !important;
-        }
-        .kiro-element-outline {
-          outline: 1px solid rgba(156, 163, 175, 0.5) !important;
-          outline-offset: 1px !important;
-        }
-      `;
-      doc.head.appendChild(style);
-
-      // Add interaction event listeners
-      if (interactionMode === 'select') {
-        addSelectionListeners(doc);
-      } else {
-        removeSelectionListeners(doc);
-      }
+    if (projectId) {
+      loadThreads(projectId);
+    }
+  }, [projectId]);
 
-      // Add element outlines if enabled
-      if (showElementOutlines) {
-        addElementOutlines(doc);
-      } else {
-        removeElementOutlines(doc);
+  // The frame reports what the user hovers and selects and where watched elements are
+  useEffect(() => {
+    const handleMessage = (message: MessageEvent) => {
+      const event = readPreviewEvent(message, iframeRef.current);
+      if (!event) return;
+
+      switch (event.type) {
+        case 'ready':
+          // A reload starts the frame from scratch
+          sendToPreview(iframeRef.current, { type: 'configure', selecting, outlines: showElementOutlines });
+          sendToPreview(iframeRef.current, { type: 'watch', selectors: watchedSelectors });
+          break;
+        case 'hover':
+          setHoveredElement(event.selector);
+          break;
+        case 'select':
+          setSelectedInfo(event.element);
+          break;
+        case 'rects':
+          setElementRects(event.rects);
+          break;
       }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [selecting, showElementOutlines, watchedSelectors]);
+
+  useEffect(() => {
+    sendToPreview(iframeRef.current, { type: 'configure', selecting, outlines: showElementOutlines });
+    if (!selecting) {
+      setSelectedInfo(null);
+      setHoveredElement(null);
     }
-  }, [generatedCode, interactionMode, showElementOutlines]);
-
-  const addSelectionListeners = (doc: Document) => {
-    const elements = doc.querySelectorAll('*');
-    
-    elements.forEach((element, index) => {
-      const elementId = `kiro-element-${index}`;
-      element.setAttribute('data-kiro-id', elementId);
-      
-      element.addEventListener('mouseenter', () => {
-        element.classList.add('kiro-element-hover');
-        setHoveredElement(elementId);
-      });
-      
-      element.addEventListener('mouseleave', () => {
-        element.classList.remove('kiro-element-hover');
-        setHoveredElement(null);
-      });
-      
-      element.addEventListener('click', (e) => {
-        e.preventDefault();
-        e.stopPropagation();
-        
-        // Remove previous selection
-        doc.querySelectorAll('.kiro-element-selected').forEach(el => {
-          el.classList.remove('kiro-element-selected');
-        });
-        
-        // Add selection to clicked element
-        element.classList.add('kiro-element-selected');
-        setSelectedElement(elementId);
-      });
-    });
-  };
+  }, [selecting, showElementOutlines]);
 
-  const removeSelectionListeners = (doc: Document) => {
-    const elements = doc.querySelectorAll('[data-kiro-id]');
-    elements.forEach(element => {
-      element.classList.remove('kiro-element-hover', 'kiro-element-selected');
-      // Note: We can't remove event listeners added this way, but they won't interfere
-    });
-    setSelectedElement(null);
-    setHoveredElement(null);
-  };
+  useEffect(() => {
+    sendToPreview(iframeRef.current, { type: 'watch', selectors: watchedSelectors });
+  }, [watchedSelectors]);
 
-  const addElementOutlines = (doc: Document) => {
-    const elements = doc.querySelectorAll('div, section, article, header, footer, nav, main, aside, p, h1, h2, h3, h4, h5, h6');
-    elements.forEach(element => {
-      element.classList.add('kiro-element-outline');
-    });
-  };
+  const collaboratorOutlines: CollaboratorOutline[] = collaborators.flatMap(member => {
+    const rect = member.selectedElement ? elementRects[member.selectedElement] : undefined;
+    return rect ? [{ member, ...rect }] : [];
+  });
+
+  // Numbered in the order threads were started; threads whose element is gone stay unpinned
+  const commentPins: CommentPin[] = threads.flatMap((thread, index) => {
+    const rect = thread.selector ? elementRects[thread.selector] : undefined;
+    return rect ? [{ thread, number: index + 1, top: rect.top, left: rect.right }] : [];
+  });
 
-  const removeElementOutlines = (doc: Document) => {
-    const elements = doc.querySelectorAll('.kiro-element-outline');
-    elements.forEach(element => {
-      element.classList.remove('kiro-element-outline');
-    });
+  const clearSelection = () => {
+    setSelectedInfo(null);
+    sendToPreview(iframeRef.current, { type: 'clearSelection' });
   };
 
-  const getSelectedElementInfo = () => {
-    if (!selectedElement || !iframeRef.current) return null;
-    
-    const doc = iframeRef.current.contentDocument;
-    if (!doc) return null;
-    
-    const element = doc.querySelector(`[data-kiro-id="${selectedElement}"]`);
-    if (!element) return null;
-    
-    return {
-      tagName: element.tagName.toLowerCase(),
-      className: element.className,
-      id: element.id,
-      textContent: element.textContent?.slice(0, 100) + (element.textContent && element.textContent.length > 100 ? '...' : ''),
-      attributes: Array.from(element.attributes).map(attr => ({
-        name: attr.name,
-        value: attr.value
-      }))
-    };
+  const handleAddComment = async () => {
+    if (!projectId || !selectedInfo || !newComment.trim()) return;
+
+    try {
+      const thread = await startThread(projectId, selectedInfo.selector, newComment.trim(), projectRevision);
+      setNewComment('');
+      setOpenThreadId(thread.id);
+      success('Comment added');
+    } catch (err: any) {
+      console.error('Failed to add comment:', err);
+      error(err.message || 'Failed to add comment');
+    }
   };
 
   const resetInteractions = () => {
     setInteractionMode('view');
-    setSelectedElement(null);
     setHoveredElement(null);
     setShowElementOutlines(false);
-    
-    if (iframeRef.current?.contentDocument) {
-      removeSelectionListeners(iframeRef.current.contentDocument);
-      removeElementOutlines(iframeRef.current.contentDocument);
-    }
+    clearSelection();
   };
 
-  const selectedInfo = getSelectedElementInfo();
-
   return (
     <div className={`bg-white rounded-lg shadow-sm border border-gray-200 ${className}`}>
       {/* Header */}
@@ -161,6 +160,30 @@ export const InteractivePreview: React.FC<InteractivePreviewProps> = ({ classNam
         <h3 className="text-lg font-semibold text-gray-900">Interactive Preview</h3>
         
         <div className="flex items-center space-x-2">
+          {/* Collaborators in this project */}
+          {collaborators.length > 0 && (
+            <div className="flex items-center -space-x-1 mr-2">
+              {collaborators.map(member => (
+                <div
+                  key={member.clientId}
+                  className="w-7 h-7 rounded-full border-2 border-white flex items-center justify-center text-xs font-medium text-white"
+                  style={{ backgroundColor: member.color }}
+                  title={member.selectedElement ? `${member.name} - ${member.selectedElement}` : member.name}
+                >
+                  {initialsOf(member.name)}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Open comment threads */}
+          {threads.length > 0 && (
+            <div className="flex items-center text-sm text-gray-600 mr-2" title="Open Comments">
+              <MessageSquare className="h-4 w-4 mr-1" />
+              {threads.length}
+            </div>
+          )}
+
           {/* Interaction Mode Toggle */}
           <div className="flex items-center space-x-1 bg-gray-100 rounded-lg p-1">
             <button
@@ -229,13 +252,13 @@ export const InteractivePreview: React.FC<InteractivePreviewProps> = ({ classNam
         {/* Preview Area */}
         <div className="flex-1 relative">
           <div className="h-96 bg-gray-100 overflow-hidden">
-            {generatedCode?.completeHTML ? (
+            {previewHTML ? (
               <iframe
                 ref={iframeRef}
                 className="w-full h-full border-0"
                 title="Interactive Preview"
-                sandbox="allow-scripts allow-same-origin"
-                srcDoc={generatedCode.completeHTML}
+                sandbox="allow-scripts"
+                srcDoc={previewHTML}
               />
             ) : (
               <div className="h-full flex items-center justify-center text-gray-500">
@@ -251,15 +274,46 @@ export const InteractivePreview: React.FC<InteractivePreviewProps> = ({ classNam
           {/* Interaction Overlay */}
           <div 
             ref={overlayRef}
-            className="absolute inset-0 pointer-events-none"
+            className="absolute inset-0 pointer-events-none overflow-hidden"
           >
+            {/* Collaborator Selections */}
+            {collaboratorOutlines.map(({ member, top, left, width, height }) => (
+              <div
+                key={member.clientId}
+                className="absolute border-2 rounded-sm"
+                style={{ top, left, width, height, borderColor: member.color }}
+              >
+                <span
+                  className="absolute -top-5 left-0 px-1 text-xs text-white rounded-sm whitespace-nowrap"
+                  style={{ backgroundColor: member.color }}
+                >
+                  {member.name}
+                </span>
+              </div>
+            ))}
+
+            {/* Comment Pins */}
+            {commentPins.map(({ thread, number, top, left }) => (
+              <button
+                key={thread.id}
+                onClick={() => setOpenThreadId(thread.id)}
+                className={`absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full rounded-bl-none flex items-center justify-center text-xs font-medium text-white shadow pointer-events-auto transition-colors ${
+                  thread.id === openThreadId ? 'bg-purple-700' : 'bg-purple-500 hover:bg-purple-600'
+                }`}
+                style={{ top, left }}
+                title={`${thread.author?.name ?? 'Former member'}: ${thread.body}`}
+              >
+                {number}
+              </button>
+            ))}
+
             {/* Mode Indicator */}
             <div className="absolute top-2 left-2 px-2 py-1 bg-black bg-opacity-75 text-white text-xs rounded">
               Mode: {interactionMode}
             </div>
 
             {/* Hovered Element Info */}
-            {hoveredElement && interactionMode === 'select' && (
+            {hoveredElement && selecting && (
               <div className="absolute top-2 right-2 px-2 py-1 bg-blue-600 text-white text-xs rounded">
                 Hovering: {hoveredElement}
               </div>
@@ -267,8 +321,20 @@ export const InteractivePreview: React.FC<InteractivePreviewProps> = ({ classNam
           </div>
         </div>
 
+        {/* Comment Thread */}
+        {openThread && projectId && (
+          <div className="w-80 border-l border-gray-200 bg-gray-50">
+            <CommentThreadPanel
+              thread={openThread}
+              number={threads.indexOf(openThread) + 1}
+              projectId={projectId}
+              onClose={() => setOpenThreadId(null)}
+            />
+          </div>
+        )}
+
         {/* Element Inspector */}
-        {selectedElement && selectedInfo && (
+        {!openThread && selectedInfo && (
           <div className="w-80 border-l border-gray-200 bg-gray-50">
             <div className="p-4">
               <h4 className="font-medium text-gray-900 mb-3">Element Inspector</h4>
@@ -325,10 +391,32 @@ export const InteractivePreview: React.FC<InteractivePreviewProps> = ({ classNam
                 )}
               </div>
 
+              {/* Comment on the element */}
+              {projectId && (
+                <div className="mt-4 pt-4 border-t border-gray-200">
+                  <label className="text-xs font-medium text-gray-700">Comment</label>
+                  <textarea
+                    value={newComment}
+                    onChange={(e) => setNewComment(e.target.value)}
+                    placeholder="Leave feedback on this element"
+                    rows={3}
+                    className="w-full mt-1 px-2 py-1 border border-gray-300 rounded-md text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={handleAddComment}
+                    disabled={!newComment.trim()}
+                    className="w-full mt-2 flex items-center justify-center px-3 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors text-sm disabled:opacity-50"
+                  >
+                    <MessageSquare className="h-4 w-4 mr-2" />
+                    Add Comment
+                  </button>
+                </div>
+              )}
+
               {/* Actions */}
               <div className="mt-4 pt-4 border-t border-gray-200">
                 <button
-                  onClick={() => setSelectedElement(null)}
+                  onClick={clearSelection}
                   className="w-full px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors text-sm"
                 >
                   Clear Selection
@@ -344,7 +432,7 @@ export const InteractivePreview: React.FC<InteractivePreviewProps> = ({ classNam
         <div className="flex items-center justify-between text-xs text-gray-600">
           <div className="flex items-center space-x-4">
             <span>Mode: {interactionMode}</span>
-            {selectedElement && <span>Selected: {selectedElement}</span>}
+            {selectedInfo && <span>Selected: {selectedInfo.selector}</span>}
             {hoveredElement && <span>Hovered: {hoveredElement}</span>}
           </div>
           <div className="flex items-center space-x-4">
@@ -2,14 +2,21 @@ import React, { useState } from 'react';
 import { Send, Wand2, RotateCcw, Download, Share2, Edit3 } from 'lucide-react';
 import { useGenerationStore } from '../stores/generationStore';
 import { useWebSocket } from '../providers/WebSocketProvider';
+import { stripElementPids } from '../services/export.service';
+import { MergeConflictModal, PendingMerge } from './MergeConflictModal';
+import { hasRole } from '../types/workspace';
 
 export const IterativePanel: React.FC = () => {
   const [iterativePrompt, setIterativePrompt] = useState('');
   const [isRefining, setIsRefining] = useState(false);
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
   
   const { 
     currentPlan,
     generatedCode,
+    projectRevision,
+    setProjectRevision,
+    projectRole,
     isGenerating,
     generatePlan,
     startGeneration,
@@ -118,7 +125,8 @@ export const IterativePanel: React.FC = () => {
         body: JSON.stringify({
           currentCode: generatedCode?.completeHTML || '',
           editInstruction: editPrompt,
-          projectId: currentPlan?.id || 'unknown'
+          projectId: currentPlan?.projectId || currentPlan?.id || 'unknown',
+          baseRevision: projectRevision
         })
       });
 
@@ -127,6 +135,11 @@ export const IterativePanel: React.FC = () => {
       const result = await response.json();
       console.log('📋 Surgical edit result:', result);
 
+      // Overlaps an edit saved since this HTML was loaded
+      if (response.status === 409) {
+        setPendingMerge(result);
+        return;
+      }
       if (!response.ok) {
         if (result.requiresFullRegeneration) {
           // If surgical edit is not suitable, fall back to full regeneration
@@ -145,7 +158,13 @@ export const IterativePanel: React.FC = () => {
       });
 
       // Show success message
-      console.log(`✅ Surgical edit applied successfully: ${result.changesSummary}`);
+      console.log(`✅ Surgical edit applied successfully: ${result.changesSummary}`, result.stats);
+      if (result.section) {
+        console.log(`💾 Saved as revision ${result.section.revision}`);
+        if (result.section.projectRevision) {
+          setProjectRevision(result.section.projectRevision);
+        }
+      }
       
     } catch (error) {
       if (error instanceof Error && error.message === 'REQUIRES_FULL_REGENERATION') {
@@ -167,7 +186,7 @@ export const IterativePanel: React.FC = () => {
   const handleExport = () => {
     if (!generatedCode?.completeHTML) return;
     
-    const blob = new Blob([generatedCode.completeHTML], { type: 'text/html' });
+    const blob = new Blob([stripElementPids(generatedCode.completeHTML)], { type: 'text/html' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -178,10 +197,18 @@ export const IterativePanel: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
-  const isDisabled = isGenerating || !iterativePrompt.trim();
+  // Viewers can preview and export but not change the project
+  const canEdit = hasRole(projectRole, 'EDITOR');
+  const isDisabled = isGenerating || !iterativePrompt.trim() || !canEdit;
 
   return (
     <div className="h-full flex flex-col p-6">
+      <MergeConflictModal
+        merge={pendingMerge}
+        projectId={currentPlan?.projectId || currentPlan?.id || 'unknown'}
+        onClose={() => setPendingMerge(null)}
+      />
+
       <div className="mb-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-2">
           🎉 Prototype Generated!
@@ -222,10 +249,12 @@ export const IterativePanel: React.FC = () => {
           onChange={(e) => setIterativePrompt(e.target.value)}
           placeholder="e.g., Add a dark mode toggle, Make the hero section more prominent, Add a testimonials section..."
           className="w-full h-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-          disabled={isGenerating || isRefining}
+          disabled={isGenerating || isRefining || !canEdit}
         />
         <p className="text-xs text-gray-500 mt-1">
-          Describe what you'd like to change or add to your prototype.
+          {canEdit
+            ? "Describe what you'd like to change or add to your prototype."
+            : 'You have view-only access to this project. Ask an owner for the editor role to refine it.'}
         </p>
       </div>
 
@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { X, GitMerge } from 'lucide-react';
+import { useGenerationStore, PREVIEW_STORAGE_KEY } from '../stores/generationStore';
+import { useToast } from '../stores/toastStore';
+import { MergeConflict, MergeSide } from '../types/generation';
+
+// Body of a 409 from the edit endpoints and PUT /api/projects/:id/html
+export interface PendingMerge {
+  baseRevision: number;
+  currentRevision: number;
+  conflicts: MergeConflict[];
+  // Our edited HTML, resubmitted with the resolutions
+  content: string;
+}
+
+interface MergeConflictModalProps {
+  merge: PendingMerge | null;
+  projectId: string;
+  onClose: () => void;
+}
+
+
+const describeElement = (conflict: MergeConflict) => {
+  if (!conflict.element) return `Line ${conflict.line + 1}`;
+  const { selector, elementId, tagName } = conflict.element;
+  return selector || (elementId ? `${tagName}#${elementId}` : `<${tagName}>`);
+};
+
+export const MergeConflictModal: React.FC<MergeConflictModalProps> = ({
+  merge,
+  projectId,
+  onClose
+}) => {
+  const [pending, setPending] = useState<PendingMerge | null>(merge);
+  const [resolutions, setResolutions] = useState<Record<number, MergeSide>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { generatedCode, setGeneratedCode, setProjectRevision } = useGenerationStore();
+  const { success, error, warning } = useToast();
+
+  useEffect(() => {
+    setPending(merge);
+    setResolutions({});
+  }, [merge]);
+
+  if (!pending) return null;
+
+  const resolve = (id: number, side: MergeSide) => {
+    setResolutions(current => ({ ...current, [id]: side }));
+  };
+
+  const unresolved = pending.conflicts.filter(conflict => !resolutions[conflict.id]).length;
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/html`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          htmlContent: pending.content,
+          baseRevision: pending.baseRevision,
+          currentRevision: pending.currentRevision,
+          resolutions
+        })
+      });
+
+      const result = await response.json();
+      // Someone saved again while we were resolving: start over against the new revision
+      if (response.status === 409) {
+        setPending(result);
+        setResolutions({});
+        warning('The project changed again - please review the new conflicts');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(result.message || result.error || 'Failed to save merge');
+      }
+
+      localStorage.setItem(PREVIEW_STORAGE_KEY, result.htmlContent);
+      if (generatedCode) {
+        setGeneratedCode({ ...generatedCode, completeHTML: result.htmlContent });
+      }
+      setProjectRevision(result.revision);
+      success('Edits merged');
+      onClose();
+    } catch (err: any) {
+      console.error('Merge failed:', err);
+      error(err.message || 'Failed to save merge');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="flex items-center text-xl font-semibold text-gray-900">
+              <GitMerge className="h-5 w-5 mr-2 text-orange-500" />
+              Resolve Conflicting Edits
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              The project changed since revision {pending.baseRevision}. Choose which version to keep where the edits overlap.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {/* Conflicts */}
+        <div className="flex-1 p-6 overflow-y-auto space-y-4">
+          {pending.conflicts.map(conflict => (
+            <div key={conflict.id} className="border border-gray-200 rounded-lg overflow-hidden">
+              <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+                <code className="text-sm text-gray-800">{describeElement(conflict)}</code>
+                <span className="text-xs text-gray-500">Line {conflict.line + 1}</span>
+              </div>
+              {conflict.base && (
+                <pre className="px-4 py-2 text-xs text-gray-500 bg-white whitespace-pre-wrap break-all border-b border-gray-100">
+                  {conflict.base}
+                </pre>
+              )}
+              <div className="grid grid-cols-2 divide-x divide-gray-200">
+                {(['ours', 'theirs'] as const).map(side => (
+                  <button
+                    key={side}
+                    onClick={() => resolve(conflict.id, side)}
+                    className={`text-left p-3 transition-colors ${
+                      resolutions[conflict.id] === side
+                        ? 'bg-blue-50 ring-2 ring-inset ring-blue-500'
+                        : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="text-xs font-medium text-gray-700 mb-1">
+                      {side === 'ours' ? 'Your edit' : `Revision ${pending.currentRevision}`}
+                    </div>
+                    <pre className="text-xs font-mono text-gray-900 whitespace-pre-wrap break-all">
+                      {conflict[side] || <span className="italic text-gray-400">(removed)</span>}
+                    </pre>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-6 border-t border-gray-200">
+          <span className="text-sm text-gray-600">
+            {unresolved > 0 ? `${unresolved} unresolved - they keep revision ${pending.currentRevision}` : 'All conflicts resolved'}
+          </span>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Discard My Edit
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={isSaving}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <GitMerge className="h-4 w-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Save Merge'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { X, Check, AlertCircle, Zap } from 'lucide-react';
-import { useModelStore } from '../stores/modelStore';
+import { useModelStore, LLMProviderType } from '../stores/modelStore';
 
 interface ModelConfigPanelProps {
   onClose: () => void;
@@ -10,11 +10,13 @@ export const ModelConfigPanel: React.FC<ModelConfigPanelProps> = ({ onClose }) =
   const {
     config,
     availableModels,
+    providers,
     isLoading,
     error,
     updateConfig,
     testConnection,
-    loadAvailableModels
+    loadAvailableModels,
+    loadProviders
   } = useModelStore();
 
   const [localConfig, setLocalConfig] = useState(config);
@@ -22,8 +24,27 @@ export const ModelConfigPanel: React.FC<ModelConfigPanelProps> = ({ onClose }) =
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'success' | 'error'>('idle');
 
   useEffect(() => {
-    loadAvailableModels();
-  }, [loadAvailableModels]);
+    loadProviders();
+  }, [loadProviders]);
+
+  useEffect(() => {
+    loadAvailableModels(localConfig.provider);
+  }, [loadAvailableModels, localConfig.provider]);
+
+  const currentProvider = providers.find(p => p.id === localConfig.provider);
+  const providerLabel = currentProvider?.label || 'DeepSeek';
+  const requiresApiKey = currentProvider?.requiresApiKey ?? true;
+
+  const handleProviderChange = (provider: LLMProviderType) => {
+    const info = providers.find(p => p.id === provider);
+    setLocalConfig(prev => ({
+      ...prev,
+      provider,
+      gatewayUrl: info?.gatewayUrl || prev.gatewayUrl,
+      model: info?.models[0] || prev.model
+    }));
+    setConnectionStatus('idle');
+  };
 
   const handleSave = async () => {
     try {
@@ -48,10 +69,16 @@ export const ModelConfigPanel: React.FC<ModelConfigPanelProps> = ({ onClose }) =
     }
   };
 
-  const modelOptions = [
-    { id: 'deepseek-chat', name: 'DeepSeek Chat', description: 'Fast and efficient for general tasks' },
-    { id: 'deepseek-coder', name: 'DeepSeek Coder', description: 'Specialized for code generation' }
-  ];
+  const modelDescriptions: Record<string, { name: string; description: string }> = {
+    'deepseek-chat': { name: 'DeepSeek Chat', description: 'Fast and efficient for general tasks' },
+    'deepseek-coder': { name: 'DeepSeek Coder', description: 'Specialized for code generation' }
+  };
+
+  const modelOptions = availableModels.map(id => ({
+    id,
+    name: modelDescriptions[id]?.name || id,
+    description: modelDescriptions[id]?.description || `${providerLabel} model`
+  }));
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -60,7 +87,7 @@ export const ModelConfigPanel: React.FC<ModelConfigPanelProps> = ({ onClose }) =
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <div className="flex items-center">
             <Zap className="h-6 w-6 text-blue-600 mr-3" />
-            <h2 className="text-xl font-semibold text-gray-900">DeepSeek Configuration</h2>
+            <h2 className="text-xl font-semibold text-gray-900">Model Configuration</h2>
           </div>
           <button
             onClick={onClose}
@@ -71,16 +98,35 @@ export const ModelConfigPanel: React.FC<ModelConfigPanelProps> = ({ onClose }) =
         </div>
 
         <div className="p-6 space-y-6">
+          {/* Provider */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Provider
+            </label>
+            <select
+              value={localConfig.provider}
+              onChange={(e) => handleProviderChange(e.target.value as LLMProviderType)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {providers.length === 0 && (
+                <option value={localConfig.provider}>{providerLabel}</option>
+              )}
+              {providers.map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.label}</option>
+              ))}
+            </select>
+          </div>
+
           {/* Gateway URL */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              DeepSeek API URL
+              {providerLabel} API URL
             </label>
             <input
               type="url"
               value={localConfig.gatewayUrl}
               onChange={(e) => setLocalConfig(prev => ({ ...prev, gatewayUrl: e.target.value }))}
-              placeholder="https://api.deepseek.com/v1"
+              placeholder={currentProvider?.gatewayUrl || 'https://api.deepseek.com/v1'}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
@@ -108,24 +154,35 @@ export const ModelConfigPanel: React.FC<ModelConfigPanelProps> = ({ onClose }) =
                 </label>
               ))}
             </div>
+            {currentProvider?.allowCustomModels && (
+              <input
+                type="text"
+                value={localConfig.model}
+                onChange={(e) => setLocalConfig(prev => ({ ...prev, model: e.target.value }))}
+                placeholder="Or enter a model name"
+                className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            )}
           </div>
 
-          {/* API Key (Required) */}
+          {/* API Key */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              DeepSeek API Key <span className="text-red-500">*</span>
+              {providerLabel} API Key {requiresApiKey && <span className="text-red-500">*</span>}
             </label>
             <input
               type="password"
               value={localConfig.apiKey || ''}
               onChange={(e) => setLocalConfig(prev => ({ ...prev, apiKey: e.target.value }))}
-              placeholder="Enter your DeepSeek API key"
+              placeholder={requiresApiKey ? `Enter your ${providerLabel} API key` : 'Not required for local models'}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              required
+              required={requiresApiKey}
             />
-            <p className="text-xs text-gray-500 mt-1">
-              Get your API key from <a href="https://platform.deepseek.com" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">platform.deepseek.com</a>
-            </p>
+            {localConfig.provider === 'deepseek' && (
+              <p className="text-xs text-gray-500 mt-1">
+                Get your API key from <a href="https://platform.deepseek.com" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">platform.deepseek.com</a>
+              </p>
+            )}
           </div>
 
           {/* Advanced Settings */}
@@ -1,15 +1,20 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Monitor, Smartphone, Tablet, RefreshCw, ExternalLink, Download, Eye, Code, Maximize2, RotateCcw } from 'lucide-react';
-import { useGenerationStore } from '../stores/generationStore';
+import { Monitor, Smartphone, Tablet, RefreshCw, ExternalLink, Download, Eye, Code, Maximize2, RotateCcw, GitBranch } from 'lucide-react';
+import { useGenerationStore, PREVIEW_STORAGE_KEY } from '../stores/generationStore';
 import { useResponsive } from '../hooks/useResponsive';
 import { LoadingSpinner } from './LoadingSpinner';
+import { stripElementPids } from '../services/export.service';
+import { VariantComparison } from './VariantComparison';
+import { sandboxedPage } from '../services/preview-bridge.service';
 
 export const PreviewPanel: React.FC = () => {
   const [viewMode, setViewMode] = useState<'desktop' | 'tablet' | 'mobile'>('desktop');
-  const [previewMode, setPreviewMode] = useState<'preview' | 'code'>('preview');
+  const [previewMode, setPreviewMode] = useState<'preview' | 'code' | 'compare'>('preview');
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [lastUpdateTime, setLastUpdateTime] = useState<Date | null>(null);
+  const [previewHTML, setPreviewHTML] = useState('');
+  const [frameKey, setFrameKey] = useState(0);
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const { isMobile } = useResponsive();
   
@@ -18,8 +23,10 @@ export const PreviewPanel: React.FC = () => {
     streamingContent, 
     isGenerating,
     currentPhase,
+    currentPlan,
     error 
   } = useGenerationStore();
+  const currentProjectId = currentPlan?.projectId || currentPlan?.id;
 
   const refreshPreview = async () => {
     setIsRefreshing(true);
@@ -35,58 +42,19 @@ export const PreviewPanel: React.FC = () => {
     setIsRefreshing(false);
   };
 
+  // The frame is sandboxed without the app's origin, so its document cannot be
+  // rewritten in place; a new key reloads it from srcdoc instead.
   const updateIframeContent = () => {
-    if (!iframeRef.current) return;
-
     const htmlContent = getPreviewHTML();
     console.log('🖼️ Updating iframe with content:', htmlContent.substring(0, 200) + '...');
-    
-    const doc = iframeRef.current.contentDocument;
-    
-    if (doc) {
-      try {
-        // Use a more reliable method to update iframe content
-        // First, create a unique identifier to prevent conflicts
-        const uniqueId = `content-${Date.now()}`;
-        
-        // Clear and rewrite the document
-        doc.open();
-        doc.write('');
-        doc.close();
-        
-        // Wait a bit then write the new content
-        setTimeout(() => {
-          if (doc && iframeRef.current) {
-            doc.open();
-            // Add a unique identifier to prevent conflicts
-            const modifiedContent = htmlContent.replace(
-              /<body([^>]*)>/i, 
-              `<body$1 data-content-id="${uniqueId}">`
-            );
-            doc.write(modifiedContent);
-            doc.close();
-          }
-        }, 50);
-      } catch (error) {
-        console.error('Failed to update iframe content:', error);
-        // Fallback: try to reload the iframe
-        if (iframeRef.current) {
-          iframeRef.current.src = 'about:blank';
-          setTimeout(() => {
-            if (iframeRef.current) {
-              iframeRef.current.src = '';
-              updateIframeContent();
-            }
-          }, 100);
-        }
-      }
-    }
+
+    setPreviewHTML(htmlContent);
+    setFrameKey(key => key + 1);
   };
 
   const getPreviewHTML = () => {
     // First check if we have locally stored HTML (from surgical edits)
-    const projectId = 'current-project'; // For MVP, use a fixed project ID
-    const storedHTML = localStorage.getItem(`project_${projectId}_html`);
+    const storedHTML = localStorage.getItem(PREVIEW_STORAGE_KEY);
     
     if (storedHTML) {
       return storedHTML;
@@ -131,7 +99,7 @@ export const PreviewPanel: React.FC = () => {
 
     if (generatedCode?.completeHTML) {
       // Store the generated HTML for future surgical edits
-      localStorage.setItem(`project_${projectId}_html`, generatedCode.completeHTML);
+      localStorage.setItem(PREVIEW_STORAGE_KEY, generatedCode.completeHTML);
       return generatedCode.completeHTML;
     }
 
@@ -167,7 +135,7 @@ export const PreviewPanel: React.FC = () => {
   };
 
   const downloadHTML = () => {
-    const htmlContent = getPreviewHTML();
+    const htmlContent = stripElementPids(getPreviewHTML());
     const blob = new Blob([htmlContent], { type: 'text/html' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -180,18 +148,17 @@ export const PreviewPanel: React.FC = () => {
   };
 
   const clearStoredContent = () => {
-    const projectId = 'current-project';
-    localStorage.removeItem(`project_${projectId}_html`);
+    localStorage.removeItem(PREVIEW_STORAGE_KEY);
     refreshPreview();
   };
 
   const openInNewTab = () => {
     const htmlContent = generatedCode?.completeHTML || getPreviewHTML();
-    const newWindow = window.open();
-    if (newWindow) {
-      newWindow.document.write(htmlContent);
-      newWindow.document.close();
-    }
+    // The wrapper page runs no script of its own; the prototype runs in a sandboxed frame inside it
+    const blob = new Blob([sandboxedPage(htmlContent, 'Prototype Preview')], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    window.open(url, '_blank', 'noopener');
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
   };
 
   const toggleFullscreen = () => {
@@ -264,10 +231,12 @@ export const PreviewPanel: React.FC = () => {
 
     return (
       <iframe
+        key={frameKey}
         ref={iframeRef}
         className="w-full h-full border-0"
         title="Generated Prototype Preview"
-        sandbox="allow-scripts allow-same-origin allow-modals allow-popups"
+        sandbox="allow-scripts allow-modals allow-popups"
+        srcDoc={previewHTML}
       />
     );
   };
@@ -304,6 +273,20 @@ export const PreviewPanel: React.FC = () => {
             >
               Code
             </button>
+            {currentProjectId && (
+              <button
+                onClick={() => setPreviewMode('compare')}
+                className={`flex items-center px-3 py-1 rounded-md text-sm transition-colors ${
+                  previewMode === 'compare'
+                    ? 'bg-white text-blue-600 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+                title="Compare Variants"
+              >
+                <GitBranch className="h-3 w-3 mr-1" />
+                Variants
+              </button>
+            )}
           </div>
           
           {/* Device Toggle */}
@@ -445,6 +428,8 @@ export const PreviewPanel: React.FC = () => {
               </div>
             </div>
           </div>
+        ) : previewMode === 'compare' && currentProjectId ? (
+          <VariantComparison projectId={currentProjectId} />
         ) : (
           <div className="h-full bg-gray-900 text-gray-100 overflow-auto">
             <div className="p-4">
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { Save, FolderOpen, Trash2, Download, Upload, Clock, Star, Search } from 'lucide-react';
 import { useGenerationStore } from '../stores/generationStore';
+import { useWorkspaceStore } from '../stores/workspaceStore';
 import { useToast } from '../stores/toastStore';
+import { WorkspacePanel } from './WorkspacePanel';
+import { WorkspaceRole, hasRole } from '../types/workspace';
 
 interface ProjectManagerProps {
   className?: string;
@@ -19,6 +22,8 @@ interface SavedProject {
   tags: string[];
   generatedCode: any;
   plan: any;
+  // Role in the project's workspace; absent for projects kept in localStorage
+  role?: WorkspaceRole;
 }
 
 export const ProjectManager: React.FC<ProjectManagerProps> = ({ className = '' }) => {
@@ -32,17 +37,23 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ className = '' }
   const [filterStarred, setFilterStarred] = useState(false);
   
   const { generatedCode, currentPlan, loadProject } = useGenerationStore();
+  const { workspaces, currentWorkspaceId, loadWorkspaces } = useWorkspaceStore();
   const { success, error } = useToast();
 
-  // Load saved projects from localStorage on mount
   useEffect(() => {
-    loadSavedProjects();
+    loadWorkspaces();
   }, []);
 
+  // Projects are listed per workspace
+  useEffect(() => {
+    loadSavedProjects();
+  }, [currentWorkspaceId]);
+
   const loadSavedProjects = async () => {
     try {
       // Load from backend API instead of localStorage
-      const response = await fetch('/api/projects');
+      const query = currentWorkspaceId ? `?workspaceId=${encodeURIComponent(currentWorkspaceId)}` : '';
+      const response = await fetch(`/api/projects${query}`);
       if (!response.ok) {
         throw new Error('Failed to fetch projects');
       }
@@ -59,7 +70,8 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ className = '' }
         tags: [], // TODO: Add tags field to backend
         generatedCode: null, // Will be loaded when needed
         plan: null, // Will be loaded when needed
-        status: p.status
+        status: p.status,
+        role: p.role
       }));
       setSavedProjects(formattedProjects);
     } catch (err) {
@@ -114,7 +126,8 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ className = '' }
           name: projectName.trim(),
           description: projectDescription.trim(),
           prompt: `Generated prototype: ${projectName.trim()}`, // TODO: Store actual prompt
-          preferences: currentPlan?.preferences || {}
+          preferences: currentPlan?.preferences || {},
+          workspaceId: currentWorkspaceId
         })
       });
 
@@ -179,7 +192,8 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ className = '' }
         // This is a localStorage project, load directly
         if (project.generatedCode) {
           // Use the generation store's setGeneratedCode method
-          const { setGeneratedCode, setCurrentPlan } = useGenerationStore.getState();
+          const { setGeneratedCode, setCurrentPlan, setProjectRole } = useGenerationStore.getState();
+          setProjectRole(null);
           setGeneratedCode(project.generatedCode);
           if (project.plan) {
             setCurrentPlan(project.plan);
@@ -197,13 +211,16 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ className = '' }
       }
       
       const htmlContent = await response.text();
+      const revision = response.headers.get('X-Project-Revision');
       
       // Load project details
       const projectResponse = await fetch(`/api/projects/${project.id}`);
       const projectData = await projectResponse.json();
       
       // Update generation store
-      const { setGeneratedCode, setCurrentPlan } = useGenerationStore.getState();
+      const { setGeneratedCode, setCurrentPlan, setProjectRevision, setProjectRole } = useGenerationStore.getState();
+      setProjectRevision(revision ? Number(revision) : null);
+      setProjectRole(projectData.role ?? project.role ?? null);
       setGeneratedCode({
         completeHTML: htmlContent,
         sections: [],
@@ -263,6 +280,30 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ className = '' }
     }
   };
 
+  // Sharing a project moves it, with its variants, into a workspace the team belongs to
+  const handleMoveProject = async (project: SavedProject, workspaceId: string) => {
+    const target = workspaces.find(workspace => workspace.id === workspaceId);
+    if (!target) return;
+
+    try {
+      const response = await fetch(`/api/projects/${project.id}/workspace`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspaceId })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.error || 'Failed to move project');
+      }
+
+      setSavedProjects(current => current.filter(p => p.id !== project.id));
+      success(`Project "${project.name}" moved to "${target.name}"`);
+    } catch (err: any) {
+      console.error('Failed to move project:', err);
+      error(err.message || 'Failed to move project');
+    }
+  };
+
   const handleToggleStar = (projectId: string) => {
     const updatedProjects = savedProjects.map(p =>
       p.id === projectId ? { ...p, starred: !p.starred } : p
@@ -384,6 +425,11 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ className = '' }
         </div>
       </div>
 
+      {/* Workspaces */}
+      <div className="px-6 pt-4">
+        <WorkspacePanel />
+      </div>
+
       {/* Project List */}
       <div className="p-6">
         {savedProjects.length === 0 ? (
@@ -458,6 +504,12 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ className = '' }
                     <span>{formatDate(project.updatedAt)}</span>
                     <span className="mx-2">•</span>
                     <span>{formatFileSize(project.size)}</span>
+                    {project.role === 'VIEWER' && (
+                      <>
+                        <span className="mx-2">•</span>
+                        <span>View only</span>
+                      </>
+                    )}
                   </div>
                   
                   <div className="flex items-center justify-between">
@@ -477,13 +529,30 @@ export const ProjectManager: React.FC<ProjectManagerProps> = ({ className = '' }
                       >
                         <Download className="h-4 w-4" />
                       </button>
-                      <button
-                        onClick={() => handleDeleteProject(project.id)}
-                        className="p-1 text-red-500 hover:text-red-700 rounded"
-                        title="Delete"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
+                      {hasRole(project.role ?? null, 'OWNER') && workspaces.length > 1 && !project.id.startsWith('project-') && (
+                        <select
+                          value=""
+                          onChange={(e) => handleMoveProject(project, e.target.value)}
+                          className="px-1 py-1 border border-gray-300 rounded text-xs text-gray-600"
+                          title="Move to Workspace"
+                        >
+                          <option value="" disabled>Move to…</option>
+                          {workspaces
+                            .filter(workspace => workspace.id !== currentWorkspaceId && workspace.role !== 'VIEWER')
+                            .map(workspace => (
+                              <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+                            ))}
+                        </select>
+                      )}
+                      {hasRole(project.role ?? null, 'OWNER') && (
+                        <button
+                          onClick={() => handleDeleteProject(project.id)}
+                          className="p-1 text-red-500 hover:text-red-700 rounded"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { X, Save, Wand2, RotateCcw, Eye, Code, Palette, Type } from 'lucide-react';
 import { useWebSocket } from '../providers/WebSocketProvider';
 import { useToast } from '../stores/toastStore';
+import { useGenerationStore, PREVIEW_STORAGE_KEY } from '../stores/generationStore';
+import { MergeConflictModal, PendingMerge } from './MergeConflictModal';
 
 interface QuickEditModalProps {
   isOpen: boolean;
@@ -23,6 +25,19 @@ interface ElementInfo {
 
 type EditMode = 'text' | 'style' | 'attributes' | 'ai';
 
+type EditOperation =
+  | { type: 'setText'; selector: string; text: string }
+  | { type: 'setStyle'; selector: string; property: string; value: string }
+  | { type: 'setAttr'; selector: string; name: string; value: string }
+  | { type: 'removeAttr'; selector: string; name: string };
+
+
+// The element selector marks the preview with kiro-* classes; they are not part of the page
+const withoutSelectorClasses = (attr: { name: string; value: string }) =>
+  attr.name === 'class'
+    ? attr.value.split(/\s+/).filter(name => name && !name.startsWith('kiro-')).join(' ')
+    : attr.value;
+
 export const QuickEditModal: React.FC<QuickEditModalProps> = ({
   isOpen,
   onClose,
@@ -36,8 +51,11 @@ export const QuickEditModal: React.FC<QuickEditModalProps> = ({
   const [aiPrompt, setAiPrompt] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [previewChanges, setPreviewChanges] = useState(false);
+  // Set when the edit overlaps one saved since this HTML was loaded
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
   
   const { editElement } = useWebSocket();
+  const { generatedCode, setGeneratedCode, projectRevision, setProjectRevision } = useGenerationStore();
   const { success, error } = useToast();
 
   // Initialize form data when element changes
@@ -50,8 +68,48 @@ export const QuickEditModal: React.FC<QuickEditModalProps> = ({
     }
   }, [elementInfo]);
 
+  if (pendingMerge) {
+    return (
+      <MergeConflictModal
+        merge={pendingMerge}
+        projectId={projectId}
+        onClose={() => {
+          setPendingMerge(null);
+          onClose();
+        }}
+      />
+    );
+  }
+
   if (!isOpen || !elementInfo) return null;
 
+  const buildOperations = (selector: string): EditOperation[] => {
+    switch (editMode) {
+      case 'text':
+        return [{ type: 'setText', selector, text: textContent }];
+      case 'style':
+        return styleChanges
+          .split(';')
+          .map(declaration => declaration.split(':').map(part => part.trim()))
+          .filter(([property, value]) => property && value)
+          .map(([property, value]) => ({ type: 'setStyle', selector, property: property!, value: value! }));
+      case 'attributes': {
+        const original = new Map(elementInfo.attributes.map(attr => [attr.name, withoutSelectorClasses(attr)]));
+        const changed = attributeChanges.filter(attr => attr.name && attr.value);
+        return [
+          ...changed
+            .filter(attr => original.get(attr.name) !== withoutSelectorClasses(attr))
+            .map(attr => ({ type: 'setAttr' as const, selector, name: attr.name, value: withoutSelectorClasses(attr) })),
+          ...Array.from(original.keys())
+            .filter(name => !changed.some(attr => attr.name === name))
+            .map(name => ({ type: 'removeAttr' as const, selector, name }))
+        ];
+      }
+      default:
+        return [];
+    }
+  };
+
   const handleSave = async () => {
     setIsProcessing(true);
     
@@ -77,64 +135,49 @@ export const QuickEditModal: React.FC<QuickEditModalProps> = ({
           break;
       }
       
-      // For MVP, apply changes directly to the iframe DOM
-      const iframe = document.querySelector('iframe[title="Generated Prototype Preview"]') as HTMLIFrameElement;
-      if (!iframe?.contentDocument) {
-        throw new Error('Preview iframe not found');
+      // AI edits go to the server, which rewrites only the selected element
+      if (editMode === 'ai') {
+        editElement(projectId, 'complete-html', editRequest, elementInfo.selector);
+        success('Edit requested - the preview updates when it is applied');
+        onClose();
+        return;
       }
 
-      const doc = iframe.contentDocument;
-      const targetElement = doc.querySelector(elementInfo.selector);
-      
-      if (!targetElement) {
-        throw new Error('Target element not found in preview');
+      // Text, style and attribute edits are exact DOM operations applied on the server
+      // The store holds the open project's code; the preview copy may be another project's
+      const currentCode = generatedCode?.completeHTML;
+      if (!currentCode) {
+        throw new Error('Nothing to edit yet - generate or open a project first');
       }
+      const response = await fetch('/api/generate/edit-operations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          currentCode,
+          operations: buildOperations(elementInfo.selector),
+          projectId,
+          baseRevision: projectRevision
+        })
+      });
 
-      // Apply the edit based on mode
-      switch (editMode) {
-        case 'text':
-          targetElement.textContent = textContent;
-          break;
-        case 'style':
-          // Parse and apply CSS styles
-          const styles = styleChanges.split(';').filter(s => s.trim());
-          styles.forEach(style => {
-            const [property, value] = style.split(':').map(s => s.trim());
-            if (property && value) {
-              (targetElement as HTMLElement).style.setProperty(property, value);
-            }
-          });
-          break;
-        case 'attributes':
-          // Apply attribute changes
-          attributeChanges.forEach(attr => {
-            if (attr.name && attr.value) {
-              targetElement.setAttribute(attr.name, attr.value);
-            }
-          });
-          break;
-        case 'ai':
-          // For AI edits, try to parse the instruction and apply simple changes
-          const lowerPrompt = aiPrompt.toLowerCase();
-          if (lowerPrompt.includes('text') && lowerPrompt.includes('to')) {
-            const textMatch = aiPrompt.match(/text.*to\s*['"]([^'"]+)['"]/i);
-            if (textMatch) {
-              targetElement.textContent = textMatch[1];
-            }
-          } else if (lowerPrompt.includes('color')) {
-            const colorMatch = aiPrompt.match(/color.*to\s*([a-zA-Z-]+)/i);
-            if (colorMatch) {
-              (targetElement as HTMLElement).style.color = colorMatch[1];
-            }
-          }
-          break;
+      const result = await response.json();
+      if (response.status === 409) {
+        setPendingMerge(result);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(result.message || result.error || 'Failed to update element');
       }
 
-      // Save the updated HTML to local storage
-      const updatedHTML = doc.documentElement.outerHTML;
-      localStorage.setItem(`project_${projectId}_html`, updatedHTML);
+      localStorage.setItem(PREVIEW_STORAGE_KEY, result.updatedCode);
+      if (generatedCode) {
+        setGeneratedCode({ ...generatedCode, completeHTML: result.updatedCode });
+      }
+      if (result.section?.projectRevision) {
+        setProjectRevision(result.section.projectRevision);
+      }
       
-      success('Element updated successfully');
+      success(result.section?.merged ? 'Element updated and merged with newer edits' : 'Element updated successfully');
       onClose();
       
     } catch (err: any) {
@@ -15,21 +15,28 @@ export const StreamingGeneration: React.FC = () => {
     currentPhase,
     generationProgress,
     streamingContent,
+    currentPlan,
     error
   } = useGenerationStore();
 
-  const { pauseGeneration, resumeGeneration } = useWebSocket();
+  const { pauseGeneration, resumeGeneration, cancelGeneration } = useWebSocket();
+  const projectId = currentPlan?.projectId || currentPlan?.id || '';
 
   const handlePauseResume = () => {
     if (isPaused) {
-      resumeGeneration('current-project-id'); // TODO: Get actual project ID
+      resumeGeneration(projectId);
       setIsPaused(false);
     } else {
-      pauseGeneration('current-project-id');
+      pauseGeneration(projectId);
       setIsPaused(true);
     }
   };
 
+  const handleStop = () => {
+    cancelGeneration(projectId);
+    setIsPaused(false);
+  };
+
   const getPhaseIcon = (phase: string) => {
     switch (phase) {
       case 'planning':
@@ -98,6 +105,13 @@ export const StreamingGeneration: React.FC = () => {
               </>
             )}
           </button>
+          <button
+            onClick={handleStop}
+            className="flex items-center px-3 py-2 bg-red-50 text-red-700 rounded-md hover:bg-red-100 transition-colors"
+          >
+            <Square className="h-4 w-4 mr-2" />
+            Stop
+          </button>
         </div>
       </div>
 
@@ -4,6 +4,7 @@ import { ElementSelector } from './ElementSelector';
 import { QuickEditModal } from './QuickEditModal';
 import { UndoRedoManager } from './UndoRedoManager';
 import { useGenerationStore } from '../stores/generationStore';
+import { hasRole } from '../types/workspace';
 
 interface SurgicalEditorProps {
   iframeRef: React.RefObject<HTMLIFrameElement>;
@@ -31,11 +32,13 @@ export const SurgicalEditor: React.FC<SurgicalEditorProps> = ({
   const [selectedElement, setSelectedElement] = useState<ElementInfo | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
   
-  const { generatedCode, isGenerating } = useGenerationStore();
+  const { generatedCode, isGenerating, projectRole } = useGenerationStore();
+  const canEdit = hasRole(projectRole, 'EDITOR');
 
   const handleElementSelect = (elementInfo: ElementInfo) => {
     setSelectedElement(elementInfo);
-    setShowEditModal(true);
+    // Viewers can inspect elements but not edit them
+    setShowEditModal(canEdit);
   };
 
   const handleEditComplete = () => {
@@ -123,7 +126,7 @@ export const SurgicalEditor: React.FC<SurgicalEditorProps> = ({
         isOpen={showEditModal}
         onClose={handleEditComplete}
         elementInfo={selectedElement}
-        projectId="current-project"
+        projectId={projectId}
       />
 
       {/* Status Bar */}
@@ -131,6 +134,7 @@ export const SurgicalEditor: React.FC<SurgicalEditorProps> = ({
         <div className="flex items-center justify-between text-xs text-gray-600">
           <div className="flex items-center space-x-4">
             <span>Mode: {activeTab}</span>
+            {!canEdit && <span>View only</span>}
             {selectedElement && (
               <span>Selected: {selectedElement.selector}</span>
             )}
@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react';
+import { GitBranch, Plus, FolderOpen, RefreshCw } from 'lucide-react';
+import { useGenerationStore, PREVIEW_STORAGE_KEY } from '../stores/generationStore';
+import { useToast } from '../stores/toastStore';
+import { LoadingSpinner } from './LoadingSpinner';
+import { hasRole } from '../types/workspace';
+
+interface VariantComparisonProps {
+  projectId: string;
+  className?: string;
+}
+
+// A project of the variant family, as returned by GET /api/projects/:id/variants
+interface ProjectVariant {
+  id: string;
+  name: string;
+  parentId: string | null;
+  variantName: string | null;
+  forkedRevision: number | null;
+  forkedPlanVersion: number | null;
+  updatedAt: string;
+}
+
+const MAX_COMPARED = 3;
+
+export const VariantComparison: React.FC<VariantComparisonProps> = ({
+  projectId,
+  className = ''
+}) => {
+  const [variants, setVariants] = useState<ProjectVariant[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [htmlById, setHtmlById] = useState<Record<string, string>>({});
+  const [variantName, setVariantName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isForking, setIsForking] = useState(false);
+
+  const { setGeneratedCode, setCurrentPlan, setProjectRevision, projectRole } = useGenerationStore();
+  const { success, error } = useToast();
+
+  const loadVariants = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/variants`);
+      if (!response.ok) {
+        throw new Error('Failed to load variants');
+      }
+
+      const family: ProjectVariant[] = await response.json();
+      setVariants(family);
+      // Start with the open project next to the next one in the family
+      setSelected(current => {
+        const kept = current.filter(id => family.some(variant => variant.id === id));
+        if (kept.length > 0) return kept;
+        const others = family.filter(variant => variant.id !== projectId).map(variant => variant.id);
+        return [projectId, ...others].slice(0, 2);
+      });
+    } catch (err: any) {
+      console.error('Failed to load variants:', err);
+      error(err.message || 'Failed to load variants');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setSelected([]);
+    setHtmlById({});
+    loadVariants();
+  }, [projectId]);
+
+  // Fetch the HTML of newly selected variants
+  useEffect(() => {
+    const missing = selected.filter(id => htmlById[id] === undefined);
+    if (missing.length === 0) return;
+
+    Promise.all(missing.map(async id => {
+      const response = await fetch(`/api/projects/${id}/html`);
+      return [id, response.ok ? await response.text() : ''] as const;
+    }))
+      .then(entries => setHtmlById(current => ({ ...current, ...Object.fromEntries(entries) })))
+      .catch(err => console.error('Failed to load variant HTML:', err));
+  }, [selected]);
+
+  const toggleSelected = (id: string) => {
+    setSelected(current => {
+      if (current.includes(id)) return current.filter(selectedId => selectedId !== id);
+      return current.length < MAX_COMPARED ? [...current, id] : current;
+    });
+  };
+
+  const forkVariant = async () => {
+    if (!variantName.trim()) return;
+
+    setIsForking(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/variants`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: variantName.trim() })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.error || 'Failed to fork variant');
+      }
+
+      setVariantName('');
+      setSelected(current => current.includes(result.id) ? current : [...current.slice(0, MAX_COMPARED - 1), result.id]);
+      success(`Variant "${result.variantName}" created`);
+      await loadVariants();
+    } catch (err: any) {
+      console.error('Failed to fork variant:', err);
+      error(err.message || 'Failed to fork variant');
+    } finally {
+      setIsForking(false);
+    }
+  };
+
+  // Makes the variant the project being edited, so iterations apply to it alone
+  const openVariant = async (variant: ProjectVariant) => {
+    try {
+      const response = await fetch(`/api/projects/${variant.id}/html`);
+      if (!response.ok) {
+        throw new Error('Failed to load variant HTML');
+      }
+      const htmlContent = await response.text();
+      const revision = response.headers.get('X-Project-Revision');
+
+      // PreviewPanel prefers the stored copy over the store, so it must not outlive the switch
+      localStorage.removeItem(PREVIEW_STORAGE_KEY);
+      setProjectRevision(revision ? Number(revision) : null);
+      setGeneratedCode({
+        completeHTML: htmlContent,
+        sections: [],
+        metadata: {
+          projectId: variant.id,
+          projectName: variant.name
+        }
+      } as any);
+      setCurrentPlan({
+        id: variant.id,
+        title: variant.name
+      } as any);
+      success(`Opened "${labelOf(variant)}"`);
+    } catch (err: any) {
+      console.error('Failed to open variant:', err);
+      error(err.message || 'Failed to open variant');
+    }
+  };
+
+  const labelOf = (variant: ProjectVariant) => variant.variantName || 'Original';
+
+  const compared = selected
+    .map(id => variants.find(variant => variant.id === id))
+    .filter((variant): variant is ProjectVariant => Boolean(variant));
+
+  return (
+    <div className={`h-full flex flex-col bg-gray-100 ${className}`}>
+      {/* Variant picker */}
+      <div className="p-3 bg-white border-b border-gray-200 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center text-sm font-medium text-gray-900">
+            <GitBranch className="h-4 w-4 mr-2 text-blue-600" />
+            Variants
+            <span className="ml-2 text-xs text-gray-500">Select up to {MAX_COMPARED} to compare</span>
+          </div>
+          <button
+            onClick={loadVariants}
+            disabled={isLoading}
+            className="p-1 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50"
+            title="Refresh Variants"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {variants.map(variant => (
+            <div
+              key={variant.id}
+              className={`flex items-center rounded-full border text-sm ${
+                selected.includes(variant.id)
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-300 bg-white text-gray-700'
+              }`}
+            >
+              <button
+                onClick={() => toggleSelected(variant.id)}
+                className="pl-3 pr-2 py-1"
+                title={variant.forkedRevision ? `Forked from revision ${variant.forkedRevision}` : undefined}
+              >
+                {labelOf(variant)}
+                {variant.id === projectId && <span className="ml-1 text-xs text-gray-500">(open)</span>}
+              </button>
+              {variant.id !== projectId && (
+                <button
+                  onClick={() => openVariant(variant)}
+                  className="pr-3 pl-1 py-1 text-gray-500 hover:text-gray-900"
+                  title="Open to edit"
+                >
+                  <FolderOpen className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {hasRole(projectRole, 'EDITOR') && (
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={variantName}
+              onChange={(e) => setVariantName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && forkVariant()}
+              placeholder='New variant name, e.g. "dark hero"'
+              className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={forkVariant}
+              disabled={isForking || !variantName.trim()}
+              className="flex items-center px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isForking ? <LoadingSpinner size="sm" className="mr-1" /> : <Plus className="h-4 w-4 mr-1" />}
+              Fork
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Side-by-side previews */}
+      {compared.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+          Select variants to compare them side by side
+        </div>
+      ) : (
+        <div className="flex-1 flex gap-3 p-3 overflow-auto">
+          {compared.map(variant => (
+            <div key={variant.id} className="flex-1 min-w-[320px] flex flex-col bg-white rounded-lg shadow-sm overflow-hidden">
+              <div className="px-3 py-2 border-b border-gray-200 text-sm font-medium text-gray-900">
+                {labelOf(variant)}
+              </div>
+              {htmlById[variant.id] === undefined ? (
+                <div className="flex-1 flex items-center justify-center">
+                  <LoadingSpinner size="sm" />
+                </div>
+              ) : (
+                <iframe
+                  srcDoc={htmlById[variant.id]}
+                  className="flex-1 w-full border-0"
+                  title={`Variant ${labelOf(variant)}`}
+                  sandbox="allow-scripts"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
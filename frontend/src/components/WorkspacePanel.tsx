@@ -0,0 +1,314 @@
+import React, { useState, useEffect } from 'react';
+import { Users, Plus, UserPlus, Check, X, Copy } from 'lucide-react';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+import { useToast } from '../stores/toastStore';
+import { CreatedWorkspaceInvite, WorkspaceInvite, WorkspaceMember, WorkspaceRole } from '../types/workspace';
+
+interface WorkspacePanelProps {
+  className?: string;
+}
+
+const ROLES: WorkspaceRole[] = ['OWNER', 'EDITOR', 'VIEWER'];
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  OWNER: 'Owner',
+  EDITOR: 'Editor',
+  VIEWER: 'Viewer'
+};
+
+export const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ className = '' }) => {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('EDITOR');
+  const [showMembers, setShowMembers] = useState(false);
+  // The code of the invite just created; it cannot be fetched again later
+  const [createdInvite, setCreatedInvite] = useState<CreatedWorkspaceInvite | null>(null);
+  const [inviteCode, setInviteCode] = useState('');
+
+  const {
+    workspaces,
+    currentWorkspaceId,
+    selectWorkspace,
+    createWorkspace,
+    inviteMember,
+    acceptInvite
+  } = useWorkspaceStore();
+  const { success, error } = useToast();
+
+  const current = workspaces.find(workspace => workspace.id === currentWorkspaceId);
+  const isOwner = current?.role === 'OWNER';
+
+  const loadMembers = async (workspaceId: string) => {
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}/members`);
+      if (!response.ok) {
+        throw new Error('Failed to load members');
+      }
+
+      const result = await response.json();
+      setMembers(result.members);
+      setInvites(result.invites);
+    } catch (err: any) {
+      console.error('Failed to load members:', err);
+      error(err.message || 'Failed to load members');
+    }
+  };
+
+  useEffect(() => {
+    if (showMembers && currentWorkspaceId) {
+      loadMembers(currentWorkspaceId);
+    }
+  }, [showMembers, currentWorkspaceId]);
+
+  const handleCreateWorkspace = async () => {
+    if (!newWorkspaceName.trim()) return;
+
+    try {
+      const workspace = await createWorkspace(newWorkspaceName.trim());
+      setNewWorkspaceName('');
+      success(`Workspace "${workspace.name}" created`);
+    } catch (err: any) {
+      console.error('Failed to create workspace:', err);
+      error(err.message || 'Failed to create workspace');
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!currentWorkspaceId || !inviteEmail.trim()) return;
+
+    try {
+      const invite = await inviteMember(currentWorkspaceId, inviteEmail.trim(), inviteRole);
+      setInviteEmail('');
+      setInvites(current => [...current.filter(existing => existing.id !== invite.id), invite]);
+      setCreatedInvite(invite);
+      success(`Invited ${invite.email} as ${ROLE_LABELS[invite.role].toLowerCase()}`);
+    } catch (err: any) {
+      console.error('Failed to invite member:', err);
+      error(err.message || 'Failed to invite member');
+    }
+  };
+
+  const handleCopyInviteCode = async () => {
+    if (!createdInvite) return;
+
+    try {
+      await navigator.clipboard.writeText(createdInvite.token);
+      success('Invite code copied');
+    } catch (err: any) {
+      console.error('Failed to copy invite code:', err);
+      error('Failed to copy invite code');
+    }
+  };
+
+  const handleAcceptInvite = async () => {
+    if (!inviteCode.trim()) return;
+
+    try {
+      const member = await acceptInvite(inviteCode.trim());
+      setInviteCode('');
+      selectWorkspace(member.workspaceId);
+      const workspace = useWorkspaceStore.getState().workspaces.find(existing => existing.id === member.workspaceId);
+      success(`Joined "${workspace?.name ?? 'workspace'}"`);
+    } catch (err: any) {
+      console.error('Failed to accept invite:', err);
+      error(err.message || 'Failed to accept invite');
+    }
+  };
+
+  const handleChangeRole = async (member: WorkspaceMember, role: WorkspaceRole) => {
+    try {
+      const response = await fetch(`/api/workspaces/${member.workspaceId}/members/${member.userId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.error || 'Failed to change role');
+      }
+
+      setMembers(current => current.map(existing => existing.id === member.id ? { ...existing, role } : existing));
+      success(`${member.user.name} is now ${ROLE_LABELS[role].toLowerCase()}`);
+    } catch (err: any) {
+      console.error('Failed to change role:', err);
+      error(err.message || 'Failed to change role');
+    }
+  };
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    if (!confirm(`Remove ${member.user.name} from "${current?.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/workspaces/${member.workspaceId}/members/${member.userId}`, {
+        method: 'DELETE'
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.error || 'Failed to remove member');
+      }
+
+      setMembers(current => current.filter(existing => existing.id !== member.id));
+      success(`${member.user.name} removed`);
+    } catch (err: any) {
+      console.error('Failed to remove member:', err);
+      error(err.message || 'Failed to remove member');
+    }
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {/* Join with a code from a workspace owner */}
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={inviteCode}
+          onChange={(e) => setInviteCode(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAcceptInvite()}
+          placeholder="Invite code"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={handleAcceptInvite}
+          disabled={!inviteCode.trim()}
+          className="flex items-center px-3 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Check className="h-4 w-4 mr-1" />
+          Join
+        </button>
+      </div>
+
+      {/* Workspace switcher */}
+      <div className="flex items-center space-x-2">
+        <select
+          value={currentWorkspaceId ?? ''}
+          onChange={(e) => selectWorkspace(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {workspaces.map(workspace => (
+            <option key={workspace.id} value={workspace.id}>
+              {workspace.name} ({ROLE_LABELS[workspace.role]})
+            </option>
+          ))}
+        </select>
+
+        <button
+          onClick={() => setShowMembers(!showMembers)}
+          className={`flex items-center px-3 py-2 text-sm rounded-md transition-colors ${
+            showMembers ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          <Users className="h-4 w-4 mr-2" />
+          {current?.memberCount ?? 0} members
+        </button>
+
+        <input
+          type="text"
+          value={newWorkspaceName}
+          onChange={(e) => setNewWorkspaceName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreateWorkspace()}
+          placeholder="New workspace name"
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={handleCreateWorkspace}
+          disabled={!newWorkspaceName.trim()}
+          className="p-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50"
+          title="Create Workspace"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Members and invites */}
+      {showMembers && (
+        <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+          {members.map(member => (
+            <div key={member.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div>
+                <span className="font-medium text-gray-900">{member.user.name}</span>
+                <span className="ml-2 text-gray-500">{member.user.email}</span>
+              </div>
+              {isOwner ? (
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={member.role}
+                    onChange={(e) => handleChangeRole(member, e.target.value as WorkspaceRole)}
+                    className="px-2 py-1 border border-gray-300 rounded text-xs"
+                  >
+                    {ROLES.map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleRemoveMember(member)}
+                    className="p-1 text-red-500 hover:text-red-700 rounded"
+                    title="Remove Member"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ) : (
+                <span className="text-xs text-gray-500">{ROLE_LABELS[member.role]}</span>
+              )}
+            </div>
+          ))}
+
+          {invites.map(invite => (
+            <div key={invite.id} className="flex items-center justify-between px-3 py-2 text-sm text-gray-500">
+              <span>{invite.email} <span className="italic">(invited)</span></span>
+              <span className="text-xs">{ROLE_LABELS[invite.role]}</span>
+            </div>
+          ))}
+
+          {isOwner && createdInvite && (
+            <div className="flex items-center justify-between px-3 py-2 bg-blue-50 text-sm">
+              <span className="text-blue-800">
+                Send this code to {createdInvite.email}; it is shown only once:
+                <code className="ml-2 font-mono">{createdInvite.token}</code>
+              </span>
+              <button
+                onClick={handleCopyInviteCode}
+                className="p-1 text-blue-600 hover:text-blue-800 rounded"
+                title="Copy Invite Code"
+              >
+                <Copy className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+
+          {isOwner && (
+            <div className="flex items-center space-x-2 px-3 py-2">
+              <input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+                placeholder="teammate@example.com"
+                className="flex-1 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <select
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+              >
+                {ROLES.map(role => (
+                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleInvite}
+                disabled={!inviteEmail.trim()}
+                className="flex items-center px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                <UserPlus className="h-4 w-4 mr-1" />
+                Invite
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
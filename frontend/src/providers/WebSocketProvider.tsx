@@ -1,5 +1,7 @@
 import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
 import { useGenerationStore } from '../stores/generationStore';
+import { usePresenceStore } from '../stores/presenceStore';
+import { useCommentStore } from '../stores/commentStore';
 import { WebSocketService, WebSocketEventHandlers } from '../services/websocket.service';
 import {
   StreamingUpdate,
@@ -8,7 +10,10 @@ import {
   GenerationError,
   PatchUpdate,
   PreviewRefresh,
+  GenerationJobStatus,
 } from '../types/generation';
+import { PresenceFocus, ProjectPresence } from '../types/presence';
+import { CommentThread } from '../types/comment';
 
 interface WebSocketContextType {
   isConnected: boolean;
@@ -18,7 +23,9 @@ interface WebSocketContextType {
   startGeneration: (projectId: string, prompt: string, preferences: any) => void;
   pauseGeneration: (projectId: string) => void;
   resumeGeneration: (projectId: string) => void;
-  editElement: (projectId: string, elementId: string, editRequest: string) => void;
+  cancelGeneration: (projectId: string) => void;
+  editElement: (projectId: string, elementId: string, editRequest: string, selector?: string) => void;
+  updatePresence: (focus: Partial<PresenceFocus>) => void;
 }
 
 const WebSocketContext = createContext<WebSocketContextType>({
@@ -29,7 +36,9 @@ const WebSocketContext = createContext<WebSocketContextType>({
   startGeneration: () => {},
   pauseGeneration: () => {},
   resumeGeneration: () => {},
+  cancelGeneration: () => {},
   editElement: () => {},
+  updatePresence: () => {},
 });
 
 export const useWebSocket = () => useContext(WebSocketContext);
@@ -45,11 +54,15 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
   const {
     updateProgress,
     updateStreamingContent,
+    appendStreamingChunk,
     setError,
     addGeneratedElement,
     updatePreview,
     completeGeneration,
+    restoreGenerationStatus,
   } = useGenerationStore();
+  const { setCollaborators, clear: clearPresence } = usePresenceStore();
+  const { upsertThread } = useCommentStore();
 
   useEffect(() => {
     // Determine WebSocket URL
@@ -68,7 +81,11 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
 
       onStream: (update: StreamingUpdate) => {
         console.log('📡 Streaming update received in provider:', update);
-        updateStreamingContent(update.content);
+        if (update.delta) {
+          appendStreamingChunk(update);
+        } else {
+          updateStreamingContent(update.content);
+        }
       },
 
       onElementGenerated: (element: ElementGenerated) => {
@@ -95,6 +112,21 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
         console.log('✅ Generation complete:', result);
         completeGeneration(result);
       },
+
+      onStatus: (status: GenerationJobStatus) => {
+        console.log('📋 Generation status restored:', status);
+        restoreGenerationStatus(status);
+      },
+
+      onPresence: (presence: ProjectPresence) => {
+        const ownClientId = wsServiceRef.current?.clientId;
+        setCollaborators(presence.members.filter(member => member.clientId !== ownClientId));
+      },
+
+      onCommentThread: (thread: CommentThread) => {
+        console.log('💬 Comment thread updated:', thread.id);
+        upsertThread(thread);
+      },
     };
 
     // Connect to WebSocket
@@ -116,8 +148,9 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
         wsServiceRef.current = null;
       }
       setIsConnected(false);
+      clearPresence();
     };
-  }, [updateProgress, updateStreamingContent, setError, addGeneratedElement, updatePreview, completeGeneration]);
+  }, [updateProgress, updateStreamingContent, appendStreamingChunk, setError, addGeneratedElement, updatePreview, completeGeneration, restoreGenerationStatus, setCollaborators, clearPresence, upsertThread]);
 
   // Monitor connection status
   useEffect(() => {
@@ -143,6 +176,7 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
     if (wsServiceRef.current) {
       wsServiceRef.current.leaveProject(projectId);
     }
+    clearPresence();
   };
 
   const startGeneration = (projectId: string, prompt: string, preferences: any) => {
@@ -163,9 +197,21 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
     }
   };
 
-  const editElement = (projectId: string, elementId: string, editRequest: string) => {
+  const cancelGeneration = (projectId: string) => {
+    if (wsServiceRef.current) {
+      wsServiceRef.current.cancelGeneration(projectId);
+    }
+  };
+
+  const editElement = (projectId: string, elementId: string, editRequest: string, selector?: string) => {
+    if (wsServiceRef.current) {
+      wsServiceRef.current.editElement(projectId, elementId, editRequest, selector);
+    }
+  };
+
+  const updatePresence = (focus: Partial<PresenceFocus>) => {
     if (wsServiceRef.current) {
-      wsServiceRef.current.editElement(projectId, elementId, editRequest);
+      wsServiceRef.current.updatePresence(focus);
     }
   };
 
@@ -177,7 +223,9 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ children }
     startGeneration,
     pauseGeneration,
     resumeGeneration,
+    cancelGeneration,
     editElement,
+    updatePresence,
   };
 
   return (
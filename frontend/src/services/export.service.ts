@@ -15,6 +15,11 @@ export interface ExportResult {
   error?: string;
 }
 
+// Element ids the editor stamps on generated markup; they mean nothing outside it
+const ELEMENT_PID = /\s+data-pid="[^"]*"/g;
+
+export const stripElementPids = (html: string): string => html.replace(ELEMENT_PID, '');
+
 export class ExportService {
   private static instance: ExportService;
 
@@ -32,7 +37,7 @@ export class ExportService {
     options: ExportOptions = {}
   ): Promise<ExportResult> {
     try {
-      const html = generatedCode.completeHTML;
+      const html = stripElementPids(generatedCode.completeHTML);
       const blob = new Blob([html], { type: 'text/html' });
       const filename = `prototype-${Date.now()}.html`;
       
@@ -64,7 +69,7 @@ export class ExportService {
       const projectName = `prototype-${Date.now()}`;
       
       // Extract code sections
-      const sections = this.extractCodeSections(generatedCode.completeHTML);
+      const sections = this.extractCodeSections(stripElementPids(generatedCode.completeHTML));
       
       // Add HTML file
       zip.file(`${projectName}.html`, sections.html);
@@ -119,19 +124,20 @@ export class ExportService {
     try {
       const zip = new JSZip();
       const projectName = `prototype-${Date.now()}`;
+      const code = this.withoutElementPids(generatedCode);
       
       switch (options.framework) {
         case 'react':
-          await this.generateReactProject(zip, projectName, generatedCode, plan);
+          await this.generateReactProject(zip, projectName, code, plan);
           break;
         case 'vue':
-          await this.generateVueProject(zip, projectName, generatedCode, plan);
+          await this.generateVueProject(zip, projectName, code, plan);
           break;
         case 'angular':
-          await this.generateAngularProject(zip, projectName, generatedCode, plan);
+          await this.generateAngularProject(zip, projectName, code, plan);
           break;
         default:
-          await this.generateVanillaProject(zip, projectName, generatedCode, plan);
+          await this.generateVanillaProject(zip, projectName, code, plan);
       }
       
       // Generate and download zip
@@ -158,7 +164,7 @@ export class ExportService {
   // Copy code to clipboard
   async copyToClipboard(content: string, type: 'html' | 'css' | 'js' | 'complete' = 'complete'): Promise<boolean> {
     try {
-      let textToCopy = content;
+      let textToCopy = stripElementPids(content);
       
       if (type !== 'complete') {
         const sections = this.extractCodeSections(content);
@@ -181,7 +187,7 @@ export class ExportService {
     try {
       // Compress the data
       const data = {
-        code: generatedCode,
+        code: this.withoutElementPids(generatedCode),
         plan: plan,
         timestamp: Date.now()
       };
@@ -202,6 +208,14 @@ export class ExportService {
   }
 
   // Private helper methods
+  private withoutElementPids(code: GeneratedCode): GeneratedCode {
+    return {
+      ...code,
+      completeHTML: stripElementPids(code.completeHTML),
+      sections: code.sections.map(section => ({ ...section, content: stripElementPids(section.content) }))
+    };
+  }
+
   private extractCodeSections(html: string) {
     // Extract CSS from style tags
     const cssMatches = html.match(/<style[^>]*>([\s\S]*?)<\/style>/gi) || [];
@@ -341,7 +355,8 @@ root.render(<App />);`);
   }
 
   private async generateVueProject(zip: JSZip, projectName: string, code: GeneratedCode, plan: GenerationPlan) {
-    const sections = this.extractCodeSections(code.completeHTML);
+    // Projects generated in Vue mode carry one SFC per component plus the App entry
+    const components = code.sections.filter(section => this.isVueComponent(section.content));
     
     // Package.json for Vue
     const packageJson = {
@@ -369,12 +384,30 @@ root.render(<App />);`);
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width,initial-scale=1.0">
-  <title>${projectName}</title>
+  <title>${projectName}</title>${plan.architecture.styling === 'tailwind' ? '\n  <script src="https://cdn.tailwindcss.com"></script>' : ''}
 </head>
 <body>
   <div id="app"></div>
 </body>
 </html>`);
+
+    if (components.length > 0) {
+      const app = components.find(section => section.name === 'App');
+      const children = components.filter(section => section !== app);
+
+      children.forEach(section => {
+        zip.file(`src/components/${section.name}.vue`, section.content);
+      });
+      zip.file('src/App.vue', app ? app.content : this.createVueAppEntry(children.map(section => section.name)));
+      zip.file('src/main.js', `import { createApp } from 'vue'
+import App from './App.vue'
+
+createApp(App).mount('#app')`);
+      return;
+    }
+
+    // Plain HTML output: wrap the whole page in a single component
+    const sections = this.extractCodeSections(code.completeHTML);
     
     // Source files
     zip.file('src/main.js', `import { createApp } from 'vue'
@@ -442,6 +475,22 @@ function App() {
 export default App;`;
   }
 
+  private isVueComponent(content: string): boolean {
+    return /^\s*<(template|script)[\s>]/.test(content) && content.includes('<template');
+  }
+
+  private createVueAppEntry(componentNames: string[]): string {
+    return `<script setup>
+${componentNames.map(name => `import ${name} from './components/${name}.vue';`).join('\n')}
+</script>
+
+<template>
+  <div class="min-h-screen">
+${componentNames.map(name => `    <${name} />`).join('\n')}
+  </div>
+</template>`;
+  }
+
   private convertHtmlToVue(html: string, css: string, js: string): string {
     return `<template>
   <div class="app">
@@ -0,0 +1,198 @@
+import { generateSelector, findElement } from './selector.service';
+
+// Generated HTML is written by any member of a workspace, so previews run it in
+// a sandbox without the app's origin. The app cannot reach into such a frame;
+// a script injected into the page selects and measures elements on its behalf
+// and the two sides talk over postMessage.
+
+const BRIDGE_SOURCE = 'op-preview-bridge';
+
+export interface PreviewElementInfo {
+  selector: string;
+  tagName: string;
+  className: string;
+  id: string;
+  textContent: string;
+  attributes: { name: string; value: string }[];
+}
+
+// Viewport position of an element inside the frame
+export interface PreviewRect {
+  top: number;
+  left: number;
+  right: number;
+  width: number;
+  height: number;
+}
+
+export type PreviewCommand =
+  | { type: 'configure'; selecting: boolean; outlines: boolean }
+  | { type: 'clearSelection' }
+  // Elements whose position is reported now and whenever the frame scrolls or resizes
+  | { type: 'watch'; selectors: string[] };
+
+export type PreviewEvent =
+  // Sent on every load; the frame forgets its configuration when the HTML is replaced
+  | { type: 'ready' }
+  | { type: 'hover'; selector: string | null }
+  | { type: 'select'; element: PreviewElementInfo }
+  | { type: 'rects'; rects: Record<string, PreviewRect> };
+
+// Runs inside the frame. The selector helpers are inlined from their source,
+// so they must not reference anything outside their own bodies.
+const bridgeScript = () => `(function () {
+  var SOURCE = ${JSON.stringify(BRIDGE_SOURCE)};
+  var OUTLINED = 'div, section, article, header, footer, nav, main, aside, p, h1, h2, h3, h4, h5, h6';
+  var generateSelector = ${generateSelector.toString()};
+  var findElement = ${findElement.toString()};
+  var selecting = false;
+  var outlines = false;
+  var watched = [];
+
+  var style = document.createElement('style');
+  style.textContent = '.kiro-element-hover { outline: 2px dashed #3b82f6 !important; outline-offset: 2px !important; cursor: pointer !important; }'
+    + ' .kiro-element-selected { outline: 2px solid #ef4444 !important; outline-offset: 2px !important; background-color: rgba(239, 68, 68, 0.1) !important; }'
+    + ' .kiro-element-outline { outline: 1px solid rgba(156, 163, 175, 0.5) !important; outline-offset: 1px !important; }';
+  (document.head || document.documentElement).appendChild(style);
+
+  function post(message) {
+    message.source = SOURCE;
+    window.parent.postMessage(message, '*');
+  }
+
+  function describe(element) {
+    var text = element.textContent || '';
+    return {
+      selector: generateSelector(element),
+      tagName: element.tagName.toLowerCase(),
+      className: Array.prototype.filter.call(element.classList, function (name) { return name.indexOf('kiro-') !== 0; }).join(' '),
+      id: element.id,
+      textContent: text.length > 100 ? text.slice(0, 100) + '...' : text,
+      attributes: Array.prototype.map.call(element.attributes, function (attribute) {
+        return { name: attribute.name, value: attribute.value };
+      })
+    };
+  }
+
+  function clearClass(name) {
+    document.querySelectorAll('.' + name).forEach(function (element) { element.classList.remove(name); });
+  }
+
+  function applyOutlines() {
+    clearClass('kiro-element-outline');
+    if (outlines) {
+      document.querySelectorAll(OUTLINED).forEach(function (element) { element.classList.add('kiro-element-outline'); });
+    }
+  }
+
+  function measure() {
+    var rects = {};
+    watched.forEach(function (selector) {
+      var element = findElement(document, selector);
+      if (!element) return;
+      var rect = element.getBoundingClientRect();
+      rects[selector] = { top: rect.top, left: rect.left, right: rect.right, width: rect.width, height: rect.height };
+    });
+    post({ type: 'rects', rects: rects });
+  }
+
+  document.addEventListener('mouseover', function (event) {
+    if (!selecting || !(event.target instanceof Element)) return;
+    clearClass('kiro-element-hover');
+    event.target.classList.add('kiro-element-hover');
+    post({ type: 'hover', selector: generateSelector(event.target) });
+  });
+
+  document.addEventListener('mouseout', function (event) {
+    if (!selecting || !(event.target instanceof Element)) return;
+    event.target.classList.remove('kiro-element-hover');
+    post({ type: 'hover', selector: null });
+  });
+
+  // Capturing, so the page's own handlers do not run while selecting
+  document.addEventListener('click', function (event) {
+    if (!selecting || !(event.target instanceof Element)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    clearClass('kiro-element-selected');
+    var element = describe(event.target);
+    event.target.classList.add('kiro-element-selected');
+    post({ type: 'select', element: element });
+  }, true);
+
+  window.addEventListener('scroll', measure, true);
+  window.addEventListener('resize', measure);
+
+  window.addEventListener('message', function (event) {
+    var command = event.data;
+    if (event.source !== window.parent || !command || command.source !== SOURCE) return;
+
+    if (command.type === 'configure') {
+      selecting = Boolean(command.selecting);
+      outlines = Boolean(command.outlines);
+      if (!selecting) {
+        clearClass('kiro-element-hover');
+        clearClass('kiro-element-selected');
+      }
+      applyOutlines();
+    } else if (command.type === 'clearSelection') {
+      clearClass('kiro-element-selected');
+    } else if (command.type === 'watch') {
+      watched = Array.isArray(command.selectors) ? command.selectors.filter(function (selector) { return typeof selector === 'string'; }) : [];
+      measure();
+    }
+  });
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', function () { post({ type: 'ready' }); });
+  } else {
+    post({ type: 'ready' });
+  }
+})();`;
+
+// The page with the bridge script added at the end of its body
+export const withPreviewBridge = (html: string): string => {
+  // Closing tags in the script would end the element early
+  const script = `<script>${bridgeScript().replace(/<\//g, '<\\/')}</script>`;
+  const bodyEnd = html.toLowerCase().lastIndexOf('</body>');
+  return bodyEnd === -1
+    ? html + script
+    : html.slice(0, bodyEnd) + script + html.slice(bodyEnd);
+};
+
+export const sendToPreview = (iframe: HTMLIFrameElement | null, command: PreviewCommand): void => {
+  // A sandboxed frame has an opaque origin, so no target origin can be named
+  iframe?.contentWindow?.postMessage({ ...command, source: BRIDGE_SOURCE }, '*');
+};
+
+/**
+ * The bridge event carried by a message, or null when the message did not come
+ * from the frame. The page's own scripts can post too, so events are only ever
+ * displayed or used as selectors, never trusted.
+ */
+export const readPreviewEvent = (event: MessageEvent, iframe: HTMLIFrameElement | null): PreviewEvent | null => {
+  if (!iframe || event.source !== iframe.contentWindow) return null;
+
+  const data = event.data;
+  if (!data || typeof data !== 'object' || data.source !== BRIDGE_SOURCE) return null;
+  return data as PreviewEvent;
+};
+
+/**
+ * A standalone page that shows `html` in a full-window sandboxed frame, for
+ * opening a preview in its own tab without giving it the app's origin.
+ */
+export const sandboxedPage = (html: string, title: string): string => {
+  const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escape(title)}</title>
+  <style>html, body, iframe { margin: 0; width: 100%; height: 100%; border: 0; display: block; }</style>
+</head>
+<body>
+  <iframe sandbox="allow-scripts allow-modals allow-popups" srcdoc="${escape(html)}"></iframe>
+</body>
+</html>`;
+};
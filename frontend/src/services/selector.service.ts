@@ -0,0 +1,44 @@
+// Unique selector for a preview element. It is resolved against the generated
+// source on the server, so it prefers the data-pid generation stamps on every
+// element and otherwise uses only structure and ids - never the kiro-* classes
+// the preview adds while hovering and selecting.
+export const generateSelector = (element: Element): string => {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current.tagName.toLowerCase() !== 'body' && current.tagName.toLowerCase() !== 'html') {
+    const pid = current.getAttribute('data-pid');
+    if (pid) {
+      parts.unshift(`[data-pid="${pid}"]`);
+      return parts.join(' > ');
+    }
+
+    if (current.id && current.ownerDocument.querySelectorAll(`#${CSS.escape(current.id)}`).length === 1) {
+      parts.unshift(`#${CSS.escape(current.id)}`);
+      return parts.join(' > ');
+    }
+
+    const tagName = current.tagName.toLowerCase();
+    const sameTagSiblings = current.parentElement
+      ? Array.from(current.parentElement.children).filter(sibling => sibling.tagName === current!.tagName)
+      : [current];
+    parts.unshift(sameTagSiblings.length > 1
+      ? `${tagName}:nth-of-type(${sameTagSiblings.indexOf(current) + 1})`
+      : tagName);
+
+    current = current.parentElement;
+  }
+
+  parts.unshift('body');
+  return parts.join(' > ');
+};
+
+// Selectors come from other clients and older revisions, so a malformed or
+// stale one must not break the preview
+export const findElement = (doc: Document, selector: string): Element | null => {
+  try {
+    return doc.querySelector(selector);
+  } catch {
+    return null;
+  }
+};
@@ -5,7 +5,10 @@ import {
   PatchUpdate,
   GenerationError,
   PreviewRefresh,
+  GenerationJobStatus,
 } from '../types/generation';
+import { PresenceFocus, ProjectPresence } from '../types/presence';
+import { CommentThread } from '../types/comment';
 
 export interface WebSocketEventHandlers {
   onProgress?: (progress: GenerationProgress) => void;
@@ -15,6 +18,9 @@ export interface WebSocketEventHandlers {
   onError?: (error: GenerationError) => void;
   onPreviewUpdate?: (preview: PreviewRefresh) => void;
   onComplete?: (result: any) => void;
+  onStatus?: (status: GenerationJobStatus) => void;
+  onPresence?: (presence: ProjectPresence) => void;
+  onCommentThread?: (thread: CommentThread) => void;
 }
 
 export class WebSocketService {
@@ -25,6 +31,10 @@ export class WebSocketService {
   private reconnectDelay = 1000;
   private isConnecting = false;
   private projectId: string | null = null;
+  // Last focus sent for the project, resent when a reconnect rejoins it
+  private presence: PresenceFocus = { selectedElement: null, openSection: null };
+  // Id the server gave this connection, to tell our own presence entry apart
+  clientId: string | null = null;
 
   constructor(private url: string) {}
 
@@ -45,6 +55,11 @@ export class WebSocketService {
           console.log('🔌 WebSocket connected');
           this.isConnecting = false;
           this.reconnectAttempts = 0;
+          // Rejoin the project after a reconnect so the server replays its status
+          if (this.projectId) {
+            this.joinProject(this.projectId);
+            this.send('update_presence', this.presence);
+          }
           resolve();
         };
 
@@ -111,14 +126,39 @@ export class WebSocketService {
           this.handlers.onComplete?.(message.payload);
           break;
           
+        case 'generation:status':
+          console.log('📋 Generation status:', message.payload);
+          this.handlers.onStatus?.(message.payload);
+          break;
+          
         case 'connected':
           console.log('🔌 Connection confirmed:', message.payload);
+          this.clientId = message.payload.clientId;
           break;
           
         case 'project:joined':
           console.log('📂 Project joined:', message.payload);
           break;
           
+        case 'presence:state':
+          this.handlers.onPresence?.(message.payload);
+          break;
+          
+        // A comment thread was started, replied to, resolved or reopened
+        case 'comment:thread':
+          this.handlers.onCommentThread?.(message.payload);
+          break;
+          
+        // Rejected requests, e.g. joining a project without access or editing it as a viewer
+        case 'error':
+          console.log('🚫 Server error:', message.payload);
+          this.handlers.onError?.({
+            projectId: this.projectId || '',
+            error: message.payload.error,
+            recoverable: true,
+          });
+          break;
+          
         default:
           console.log('🔌 Unknown message type:', message.type, message.payload);
       }
@@ -170,6 +210,9 @@ export class WebSocketService {
   }
 
   joinProject(projectId: string): boolean {
+    if (this.projectId !== projectId) {
+      this.presence = { selectedElement: null, openSection: null };
+    }
     this.projectId = projectId;
     return this.send('join_project', { projectId });
   }
@@ -197,14 +240,24 @@ export class WebSocketService {
     return this.send('resume_generation', { projectId });
   }
 
-  editElement(projectId: string, elementId: string, editRequest: string): boolean {
+  cancelGeneration(projectId: string): boolean {
+    return this.send('cancel_generation', { projectId });
+  }
+
+  editElement(projectId: string, elementId: string, editRequest: string, selector?: string): boolean {
     return this.send('edit_element', {
       projectId,
       elementId,
       editRequest,
+      selector,
     });
   }
 
+  updatePresence(focus: Partial<PresenceFocus>): boolean {
+    this.presence = { ...this.presence, ...focus };
+    return this.send('update_presence', focus);
+  }
+
   isConnected(): boolean {
     return this.ws?.readyState === WebSocket.OPEN;
   }
@@ -215,6 +268,7 @@ export class WebSocketService {
       this.ws = null;
     }
     this.projectId = null;
+    this.clientId = null;
     this.reconnectAttempts = 0;
   }
 
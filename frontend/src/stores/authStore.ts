@@ -0,0 +1,99 @@
+import { create } from 'zustand';
+import { useGenerationStore } from './generationStore';
+import { useWorkspaceStore } from './workspaceStore';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  avatarUrl: string | null;
+}
+
+interface AuthState {
+  user: AuthUser | null;
+  // True until the first session check has finished
+  isChecking: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  checkSession: () => Promise<void>;
+  login: (email: string, password: string) => Promise<void>;
+  register: (email: string, password: string, name?: string) => Promise<void>;
+  logout: () => Promise<void>;
+  setError: (error: string | null) => void;
+}
+
+// The session itself lives in an httpOnly cookie set by /api/auth
+const authRequest = async (path: string, body: Record<string, unknown>): Promise<AuthUser> => {
+  const response = await fetch(`/api/auth/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.message || result.error || 'Authentication failed');
+  }
+  return result.user;
+};
+
+export const useAuthStore = create<AuthState>((set) => ({
+  user: null,
+  isChecking: true,
+  isLoading: false,
+  error: null,
+
+  checkSession: async () => {
+    try {
+      const response = await fetch('/api/auth/me');
+      set({ user: response.ok ? await response.json() : null, isChecking: false });
+    } catch (error) {
+      console.error('Session check failed:', error);
+      set({ user: null, isChecking: false });
+    }
+  },
+
+  login: async (email: string, password: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      const user = await authRequest('login', { email, password });
+      set({ user, isLoading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to sign in',
+        isLoading: false
+      });
+    }
+  },
+
+  register: async (email: string, password: string, name?: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      const user = await authRequest('register', { email, password, name });
+      set({ user, isLoading: false });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to create account',
+        isLoading: false
+      });
+    }
+  },
+
+  logout: async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
+    // Nothing of the previous user's work should stay on screen
+    useGenerationStore.getState().reset();
+    useWorkspaceStore.getState().reset();
+    set({ user: null, error: null });
+  },
+
+  setError: (error: string | null) => {
+    set({ error });
+  }
+}));
@@ -0,0 +1,95 @@
+import { create } from 'zustand';
+import { CommentThread } from '../types/comment';
+
+interface CommentState {
+  // Project the threads belong to; pushes for other projects are ignored
+  projectId: string | null;
+  // Open threads, in the order they were started
+  threads: CommentThread[];
+  isLoading: boolean;
+
+  // Actions
+  loadThreads: (projectId: string) => Promise<void>;
+  startThread: (projectId: string, selector: string, body: string, revision: number | null) => Promise<CommentThread>;
+  reply: (threadId: string, body: string) => Promise<CommentThread>;
+  setResolved: (threadId: string, resolved: boolean) => Promise<CommentThread>;
+  upsertThread: (thread: CommentThread) => void;
+  clear: () => void;
+}
+
+const commentRequest = async <T>(projectId: string, path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`/api/projects/${projectId}/comments${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.message || result.error || 'Comment request failed');
+  }
+  return result;
+};
+
+export const useCommentStore = create<CommentState>((set, get) => ({
+  projectId: null,
+  threads: [],
+  isLoading: false,
+
+  loadThreads: async (projectId: string) => {
+    set({ projectId, threads: [], isLoading: true });
+    try {
+      const threads = await commentRequest<CommentThread[]>(projectId, '');
+      // Another project may have been opened while this one loaded
+      if (get().projectId === projectId) {
+        set({ threads, isLoading: false });
+      }
+    } catch (error) {
+      console.error('Failed to load comments:', error);
+      set({ isLoading: false });
+    }
+  },
+
+  startThread: async (projectId: string, selector: string, body: string, revision: number | null) => {
+    const thread = await commentRequest<CommentThread>(projectId, '', {
+      method: 'POST',
+      body: JSON.stringify({ selector, body, revision })
+    });
+    get().upsertThread(thread);
+    return thread;
+  },
+
+  reply: async (threadId: string, body: string) => {
+    const thread = await commentRequest<CommentThread>(get().projectId!, `/${threadId}/replies`, {
+      method: 'POST',
+      body: JSON.stringify({ body })
+    });
+    get().upsertThread(thread);
+    return thread;
+  },
+
+  setResolved: async (threadId: string, resolved: boolean) => {
+    const thread = await commentRequest<CommentThread>(get().projectId!, `/${threadId}/resolve`, {
+      method: 'PUT',
+      body: JSON.stringify({ resolved })
+    });
+    get().upsertThread(thread);
+    return thread;
+  },
+
+  // Threads arrive both from our own requests and from comment:thread pushes
+  upsertThread: (thread: CommentThread) => {
+    set(state => {
+      if (thread.projectId !== state.projectId) return state;
+
+      const others = state.threads.filter(existing => existing.id !== thread.id);
+      const threads = thread.resolvedAt
+        ? others
+        : [...others, thread].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      return { threads };
+    });
+  },
+
+  clear: () => {
+    set({ projectId: null, threads: [] });
+  }
+}));
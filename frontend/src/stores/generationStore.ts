@@ -1,6 +1,30 @@
 import { create } from 'zustand';
-import { GenerationPlan, GeneratedCode, GenerationProgress } from '../types/generation';
+import { GenerationPlan, GeneratedCode, GenerationProgress, GenerationJobStatus, CodeSection, StreamingUpdate } from '../types/generation';
 import { useModelStore } from './modelStore';
+import { useWorkspaceStore } from './workspaceStore';
+import { WorkspaceRole } from '../types/workspace';
+
+// Id of the last stored plan, so a page refresh can reload it from the server
+const CURRENT_PLAN_KEY = 'current-plan-id';
+
+// HTML that PreviewPanel renders in place of the generated code. It is not
+// tied to a project, so edits read the code from this store instead
+export const PREVIEW_STORAGE_KEY = 'project_current-project_html';
+
+// Backend section types are Prisma enum values such as HTML, STYLE and SCRIPT
+const toCodeSectionType = (sectionType: string): CodeSection['type'] => {
+  switch (sectionType.toUpperCase()) {
+    case 'CSS':
+    case 'STYLE':
+      return 'css';
+    case 'JAVASCRIPT':
+    case 'SCRIPT':
+    case 'COMPONENT': // React output: TSX components and the App entry
+      return 'js';
+    default:
+      return 'html';
+  }
+};
 
 interface GenerationState {
   // Current state
@@ -14,22 +38,36 @@ interface GenerationState {
   generatedCode: GeneratedCode | null;
   generationProgress: GenerationProgress | null;
   streamingContent: string | null;
+  // Code streamed so far per element, in the order the elements started
+  streamingSections: Record<string, { name: string; content: string }>;
+  // Unfinished run whose saved components can be reused
+  resumableJob: GenerationJobStatus | null;
+  // Project revision the loaded HTML came from; edits are saved against it
+  projectRevision: number | null;
+  // Signed-in user's role on the open project; null for projects they just created
+  projectRole: WorkspaceRole | null;
 
   // Actions
   generatePlan: (prompt: string, preferences: any) => Promise<void>;
   approvePlan: () => Promise<void>;
-  startGeneration: (wsService?: any) => Promise<void>;
+  loadPlan: (planId: string) => Promise<void>;
+  restoreCurrentPlan: () => Promise<void>;
+  startGeneration: (wsService?: any, options?: { resume?: boolean }) => Promise<void>;
   updateProgress: (progress: GenerationProgress) => void;
   updateStreamingContent: (content: string) => void;
+  appendStreamingChunk: (update: StreamingUpdate) => void;
   addGeneratedElement: (element: any) => void;
   updatePreview: (preview: any) => void;
   completeGeneration: (result: any) => void;
+  restoreGenerationStatus: (status: GenerationJobStatus) => void;
   setError: (error: string | null) => void;
   reset: () => void;
   
   // Project management actions
   setGeneratedCode: (code: GeneratedCode) => void;
   setCurrentPlan: (plan: GenerationPlan) => void;
+  setProjectRevision: (revision: number | null) => void;
+  setProjectRole: (role: WorkspaceRole | null) => void;
 }
 
 export const useGenerationStore = create<GenerationState>((set, get) => ({
@@ -42,6 +80,10 @@ export const useGenerationStore = create<GenerationState>((set, get) => ({
   generatedCode: null,
   generationProgress: null,
   streamingContent: null,
+  streamingSections: {},
+  resumableJob: null,
+  projectRevision: null,
+  projectRole: null,
 
   // Actions
   generatePlan: async (prompt: string, preferences: any) => {
@@ -49,14 +91,16 @@ export const useGenerationStore = create<GenerationState>((set, get) => ({
       isGenerating: true, 
       currentPhase: 'planning', 
       error: null,
-      streamingContent: 'Analyzing your requirements...'
+      streamingContent: 'Analyzing your requirements...',
+      projectRole: null
     });
 
     try {
+      const { currentWorkspaceId } = useWorkspaceStore.getState();
       const response = await fetch('/api/generate/plan', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ prompt, preferences })
+        body: JSON.stringify({ prompt, preferences, workspaceId: currentWorkspaceId })
       });
 
       if (!response.ok) {
@@ -71,6 +115,7 @@ export const useGenerationStore = create<GenerationState>((set, get) => ({
         ...plan,
         createdAt: plan.createdAt ? new Date(plan.createdAt) : new Date()
       };
+      localStorage.setItem(CURRENT_PLAN_KEY, plan.id);
       
       set({ 
         currentPlan: planWithDate,
@@ -109,6 +154,7 @@ export const useGenerationStore = create<GenerationState>((set, get) => ({
       }
       
       // Plan is approved, ready for generation
+      set({ currentPlan: { ...currentPlan, approved: true } });
       console.log('Plan approved successfully');
     } catch (error) {
       console.error('Plan approval error:', error);
@@ -116,22 +162,56 @@ export const useGenerationStore = create<GenerationState>((set, get) => ({
     }
   },
 
-  startGeneration: async (wsService?: any) => {
+  loadPlan: async (planId: string) => {
+    try {
+      const response = await fetch(`/api/generate/plan/${planId}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || errorData.error || 'Failed to load plan');
+      }
+
+      const plan = await response.json();
+      localStorage.setItem(CURRENT_PLAN_KEY, plan.id);
+      set({ 
+        currentPlan: { ...plan, createdAt: new Date(plan.createdAt) },
+        completedPhases: ['planning'],
+        projectRole: plan.role ?? null
+      });
+    } catch (error) {
+      console.error('Plan load error:', error);
+      localStorage.removeItem(CURRENT_PLAN_KEY);
+      set({ error: error instanceof Error ? error.message : 'Failed to load plan' });
+    }
+  },
+
+  restoreCurrentPlan: async () => {
+    const planId = localStorage.getItem(CURRENT_PLAN_KEY);
+    if (planId && !get().currentPlan) {
+      await get().loadPlan(planId);
+    }
+  },
+
+  startGeneration: async (wsService?: any, options: { resume?: boolean } = {}) => {
     const { currentPlan } = get();
     if (!currentPlan) return;
 
+    const projectId = currentPlan.projectId || currentPlan.id;
+
     set({ 
       isGenerating: true, 
       currentPhase: 'generating',
       error: null,
-      streamingContent: 'Starting code generation...'
+      resumableJob: null,
+      streamingSections: {},
+      streamingContent: options.resume ? 'Resuming code generation...' : 'Starting code generation...'
     });
 
     try {
       // Join WebSocket project FIRST, before starting generation
       if (wsService && wsService.joinProject) {
-        wsService.joinProject(currentPlan.id);
-        console.log('🔌 Joined WebSocket project:', currentPlan.id);
+        wsService.joinProject(projectId);
+        console.log('🔌 Joined WebSocket project:', projectId);
         
         // Wait a moment for the WebSocket connection to be established
         await new Promise(resolve => setTimeout(resolve, 500));
@@ -145,10 +225,10 @@ export const useGenerationStore = create<GenerationState>((set, get) => ({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           planId: currentPlan.id,
-          plan: currentPlan,
+          resume: options.resume === true,
           preferences: {
-            framework: 'react',
-            styling: 'tailwind',
+            framework: currentPlan.architecture.framework,
+            styling: currentPlan.architecture.styling,
             complexity: 'medium',
             model: modelConfig.model,
             temperature: modelConfig.temperature,
@@ -184,6 +264,27 @@ export const useGenerationStore = create<GenerationState>((set, get) => ({
     set({ streamingContent: content });
   },
 
+  appendStreamingChunk: (update: StreamingUpdate) => {
+    if (!update.elementId) return;
+
+    const { streamingSections } = get();
+    const existing = streamingSections[update.elementId];
+    const updatedSections = {
+      ...streamingSections,
+      [update.elementId]: {
+        name: update.sectionName || existing?.name || update.elementId,
+        content: (existing?.content || '') + update.content
+      }
+    };
+
+    set({
+      streamingSections: updatedSections,
+      streamingContent: Object.values(updatedSections)
+        .map(section => `<!-- ${section.name} -->\n${section.content}`)
+        .join('\n\n')
+    });
+  },
+
   addGeneratedElement: (element: any) => {
     console.log('🎨 Adding generated element:', element);
     const { generatedCode } = get();
@@ -223,7 +324,9 @@ export const useGenerationStore = create<GenerationState>((set, get) => ({
       isGenerating: false,
       currentPhase: null,
       completedPhases: ['planning', 'generating'],
-      streamingContent: null // Clear streaming content when complete
+      streamingContent: null, // Clear streaming content when complete
+      streamingSections: {},
+      projectRevision: result.revision ?? null
     });
     
     // If the result contains code sections, update the generated code
@@ -239,7 +342,7 @@ export const useGenerationStore = create<GenerationState>((set, get) => ({
         const sections = result.codeSections.map((section: any) => ({
           id: section.id,
           name: section.sectionName,
-          type: section.sectionType,
+          type: toCodeSectionType(section.sectionType),
           content: section.codeContent,
           documentation: section.documentation
         }));
@@ -267,11 +370,32 @@ export const useGenerationStore = create<GenerationState>((set, get) => ({
     }
   },
 
+  restoreGenerationStatus: (status: GenerationJobStatus) => {
+    const running = status.status === 'running' || status.status === 'paused';
+    const unfinished = status.status === 'interrupted' || status.status === 'error' || status.status === 'cancelled';
+    set({
+      resumableJob: unfinished && status.completedComponents.length > 0 ? status : null,
+      isGenerating: running,
+      currentPhase: running ? (status.phase === 'documenting' ? 'documenting' : 'generating') : null,
+      generationProgress: {
+        currentStep: status.activeComponents.join(', ') || status.phase,
+        completedSteps: status.completedComponents,
+        percentage: status.progress,
+        estimatedTimeRemaining: 0
+      },
+      ...(status.status === 'error' && { error: status.errors[status.errors.length - 1]?.message || 'Generation failed' }),
+      ...(status.status === 'interrupted' && { error: 'Generation was interrupted before it finished' }),
+      ...(status.status === 'cancelled' && { streamingContent: null })
+    });
+  },
+
   setError: (error: string | null) => {
     set({ error });
   },
 
   reset: () => {
+    localStorage.removeItem(CURRENT_PLAN_KEY);
+    localStorage.removeItem(PREVIEW_STORAGE_KEY);
     set({
       isGenerating: false,
       currentPhase: null,
@@ -280,7 +404,11 @@ export const useGenerationStore = create<GenerationState>((set, get) => ({
       currentPlan: null,
       generatedCode: null,
       generationProgress: null,
-      streamingContent: null
+      streamingContent: null,
+      streamingSections: {},
+      resumableJob: null,
+      projectRevision: null,
+      projectRole: null
     });
   },
 
@@ -291,5 +419,13 @@ export const useGenerationStore = create<GenerationState>((set, get) => ({
 
   setCurrentPlan: (plan: GenerationPlan) => {
     set({ currentPlan: plan });
+  },
+
+  setProjectRevision: (revision: number | null) => {
+    set({ projectRevision: revision });
+  },
+
+  setProjectRole: (role: WorkspaceRole | null) => {
+    set({ projectRole: role });
   }
 }));
\ No newline at end of file
@@ -1,7 +1,19 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
+export type LLMProviderType = 'deepseek' | 'openai' | 'anthropic' | 'ollama' | 'llamacpp' | 'mock';
+
+export interface LLMProviderInfo {
+  id: LLMProviderType;
+  label: string;
+  gatewayUrl: string;
+  models: string[];
+  requiresApiKey: boolean;
+  allowCustomModels: boolean;
+}
+
 interface LLMConfig {
+  provider: LLMProviderType;
   gatewayUrl: string;
   model: string;
   apiKey?: string;
@@ -12,17 +24,20 @@ interface LLMConfig {
 interface ModelState {
   config: LLMConfig;
   availableModels: string[];
+  providers: LLMProviderInfo[];
   isLoading: boolean;
   error: string | null;
   
   // Actions
   updateConfig: (config: LLMConfig) => Promise<void>;
   testConnection: (config: LLMConfig) => Promise<void>;
-  loadAvailableModels: () => Promise<void>;
+  loadAvailableModels: (provider?: LLMProviderType) => Promise<void>;
+  loadProviders: () => Promise<void>;
   setError: (error: string | null) => void;
 }
 
 const defaultConfig: LLMConfig = {
+  provider: 'deepseek',
   gatewayUrl: 'https://api.deepseek.com/v1',
   model: 'deepseek-chat',
   temperature: 0.7,
@@ -34,6 +49,7 @@ export const useModelStore = create<ModelState>()(
     (set, get) => ({
       config: defaultConfig,
       availableModels: [],
+      providers: [],
       isLoading: false,
       error: null,
 
@@ -48,7 +64,8 @@ export const useModelStore = create<ModelState>()(
           });
 
           if (!response.ok) {
-            throw new Error('Failed to update configuration');
+            const result = await response.json().catch(() => ({}));
+            throw new Error(result.message || result.error || 'Failed to update configuration');
           }
 
           set({ config, isLoading: false });
@@ -76,11 +93,12 @@ export const useModelStore = create<ModelState>()(
         return response.json();
       },
 
-      loadAvailableModels: async () => {
+      loadAvailableModels: async (provider?: LLMProviderType) => {
         set({ isLoading: true, error: null });
         
         try {
-          const response = await fetch('/api/llm/models');
+          const query = provider ? `?provider=${encodeURIComponent(provider)}` : '';
+          const response = await fetch(`/api/llm/models${query}`);
           
           if (!response.ok) {
             throw new Error('Failed to load models');
@@ -96,13 +114,38 @@ export const useModelStore = create<ModelState>()(
         }
       },
 
+      loadProviders: async () => {
+        try {
+          const response = await fetch('/api/llm/providers');
+
+          if (!response.ok) {
+            throw new Error('Failed to load providers');
+          }
+
+          const { providers } = await response.json();
+          set({ providers });
+        } catch (error) {
+          set({ 
+            error: error instanceof Error ? error.message : 'Failed to load providers'
+          });
+        }
+      },
+
       setError: (error: string | null) => {
         set({ error });
       }
     }),
     {
       name: 'model-config',
-      partialize: (state) => ({ config: state.config })
+      partialize: (state) => ({ config: state.config }),
+      // Configs persisted before provider selection existed were always DeepSeek
+      merge: (persisted, current) => {
+        const persistedConfig = (persisted as Partial<ModelState> | undefined)?.config;
+        return {
+          ...current,
+          config: { ...defaultConfig, ...persistedConfig }
+        };
+      }
     }
   )
 );
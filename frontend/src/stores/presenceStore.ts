@@ -0,0 +1,23 @@
+import { create } from 'zustand';
+import { PresenceMember } from '../types/presence';
+
+interface PresenceState {
+  // Everyone else in the open project's room; this tab's own entry is left out
+  collaborators: PresenceMember[];
+
+  // Actions
+  setCollaborators: (collaborators: PresenceMember[]) => void;
+  clear: () => void;
+}
+
+export const usePresenceStore = create<PresenceState>((set) => ({
+  collaborators: [],
+
+  setCollaborators: (collaborators: PresenceMember[]) => {
+    set({ collaborators });
+  },
+
+  clear: () => {
+    set({ collaborators: [] });
+  }
+}));
@@ -0,0 +1,101 @@
+import { create } from 'zustand';
+import { Workspace, WorkspaceMember, CreatedWorkspaceInvite, WorkspaceRole } from '../types/workspace';
+
+// Workspace new projects go into, kept across page refreshes
+const CURRENT_WORKSPACE_KEY = 'current-workspace-id';
+
+interface WorkspaceState {
+  workspaces: Workspace[];
+  currentWorkspaceId: string | null;
+  isLoading: boolean;
+
+  // Actions
+  loadWorkspaces: () => Promise<void>;
+  selectWorkspace: (workspaceId: string) => void;
+  createWorkspace: (name: string) => Promise<Workspace>;
+  inviteMember: (workspaceId: string, email: string, role: WorkspaceRole) => Promise<CreatedWorkspaceInvite>;
+  acceptInvite: (token: string) => Promise<WorkspaceMember>;
+  reset: () => void;
+}
+
+const workspaceRequest = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`/api/workspaces${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.message || result.error || 'Workspace request failed');
+  }
+  return result;
+};
+
+export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
+  workspaces: [],
+  currentWorkspaceId: localStorage.getItem(CURRENT_WORKSPACE_KEY),
+  isLoading: false,
+
+  loadWorkspaces: async () => {
+    set({ isLoading: true });
+    try {
+      const workspaces = await workspaceRequest<Workspace[]>('');
+
+      // Fall back to the first workspace when the remembered one is gone
+      const { currentWorkspaceId } = get();
+      const current = workspaces.find(workspace => workspace.id === currentWorkspaceId) ?? workspaces[0];
+      if (current) {
+        localStorage.setItem(CURRENT_WORKSPACE_KEY, current.id);
+      }
+
+      set({
+        workspaces,
+        currentWorkspaceId: current?.id ?? null,
+        isLoading: false
+      });
+    } catch (error) {
+      console.error('Failed to load workspaces:', error);
+      set({ isLoading: false });
+    }
+  },
+
+  selectWorkspace: (workspaceId: string) => {
+    localStorage.setItem(CURRENT_WORKSPACE_KEY, workspaceId);
+    set({ currentWorkspaceId: workspaceId });
+  },
+
+  createWorkspace: async (name: string) => {
+    const workspace = await workspaceRequest<Workspace>('', {
+      method: 'POST',
+      body: JSON.stringify({ name })
+    });
+
+    localStorage.setItem(CURRENT_WORKSPACE_KEY, workspace.id);
+    set(state => ({
+      workspaces: [...state.workspaces, workspace],
+      currentWorkspaceId: workspace.id
+    }));
+    return workspace;
+  },
+
+  inviteMember: async (workspaceId: string, email: string, role: WorkspaceRole) => {
+    return workspaceRequest<CreatedWorkspaceInvite>(`/${workspaceId}/invites`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role })
+    });
+  },
+
+  acceptInvite: async (token: string) => {
+    const member = await workspaceRequest<WorkspaceMember>('/invites/accept', {
+      method: 'POST',
+      body: JSON.stringify({ token })
+    });
+    await get().loadWorkspaces();
+    return member;
+  },
+
+  reset: () => {
+    localStorage.removeItem(CURRENT_WORKSPACE_KEY);
+    set({ workspaces: [], currentWorkspaceId: null });
+  }
+}));
@@ -0,0 +1,26 @@
+export interface CommentAuthor {
+  id: string;
+  name: string;
+  avatarUrl: string | null;
+}
+
+export interface ProjectComment {
+  id: string;
+  projectId: string;
+  authorId: string | null;
+  parentId: string | null;
+  // Project revision the thread was started on; null on replies
+  revision: number | null;
+  // ElementSelector selector of the element the thread is pinned to; null on replies
+  selector: string | null;
+  body: string;
+  resolvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  author: CommentAuthor | null;
+}
+
+// A thread as returned by /api/projects/:id/comments and pushed in comment:thread messages
+export interface CommentThread extends ProjectComment {
+  replies: ProjectComment[];
+}
@@ -24,6 +24,8 @@ export interface ArchitecturePlan {
 
 export interface GenerationPlan {
   id: string;
+  projectId?: string;
+  version?: number;
   components: ComponentPlan[];
   architecture: ArchitecturePlan;
   timeline: {
@@ -75,12 +77,39 @@ export interface GenerationProgress {
   estimatedTimeRemaining: number;
 }
 
+export interface GenerationJobStatus {
+  projectId: string;
+  planId: string;
+  status: 'running' | 'paused' | 'completed' | 'cancelled' | 'error' | 'interrupted';
+  phase: 'generating' | 'documenting' | 'organizing' | 'completed';
+  currentComponent: string | null;
+  activeComponents: string[];
+  completedComponents: string[];
+  totalComponents: number;
+  progress: number;
+  resumed: boolean;
+  tokenUsage: {
+    completionTokens: number;
+    estimated: boolean;
+  };
+  errors: Array<{
+    message: string;
+    component?: string;
+    occurredAt: string;
+  }>;
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
 export interface StreamingUpdate {
   type: 'planning' | 'generating' | 'documenting';
   content: string;
   elementId?: string;
   sectionName?: string;
   isComplete: boolean;
+  // Content is a code chunk for elementId; parallel components interleave
+  delta?: boolean;
 }
 
 export interface ElementGenerated {
@@ -108,10 +137,21 @@ export interface OrganizedHTML {
   elementMap: Map<string, ElementLocation>;
 }
 
+// OrganizedHTML of a project's saved complete HTML, as served by GET /api/projects/:id/structure
+export interface ProjectStructure {
+  sectionId: string;
+  revision: number;
+  sections: OrganizedHTML['sections'];
+  elements: ElementLocation[];
+}
+
 export interface HTMLSection {
   content: string;
   startLine: number;
   endLine: number;
+  // Character offsets into the organized HTML, end exclusive
+  startOffset: number;
+  endOffset: number;
   elements: Array<{
     id: string;
     type: string;
@@ -123,26 +163,55 @@ export interface CSSSection {
   content: string;
   startLine: number;
   endLine: number;
-  rules: Array<{
-    selector: string;
-    properties: string;
-  }>;
+  // Character offsets into the organized HTML, end exclusive
+  startOffset: number;
+  endOffset: number;
+  rules: CSSRule[];
+}
+
+export interface CSSRule {
+  selector: string;
+  // Declarations as written, e.g. `color: red; margin: 0`
+  properties: string;
+  declarations: Array<{ property: string; value: string; important: boolean }>;
+  // Enclosing at-rules, outermost first, e.g. `@media (min-width: 768px)`
+  atRules: string[];
+  startLine: number;
+  endLine: number;
+  startOffset: number;
+  endOffset: number;
 }
 
 export interface JSSection {
   content: string;
   startLine: number;
   endLine: number;
-  functions: Array<{
-    name: string;
-    content: string;
-  }>;
+  // Character offsets into the organized HTML, end exclusive
+  startOffset: number;
+  endOffset: number;
+  functions: JSFunction[];
+}
+
+export interface JSFunction {
+  name: string;
+  // Handlers are listeners attached with addEventListener or an on<event> property
+  kind: 'function' | 'handler';
+  params: string[];
+  event?: string;
+  target?: string;
+  content: string;
+  startLine: number;
+  endLine: number;
+  startOffset: number;
+  endOffset: number;
 }
 
 export interface ElementLocation {
   sectionName: string;
   startLine: number;
   endLine: number;
+  startOffset: number;
+  endOffset: number;
   elementId: string;
   elementType: string;
 }
@@ -157,6 +226,31 @@ export interface PatchResult {
   error?: string;
 }
 
+// Three-way merge of two edits made from the same base revision
+export type MergeSide = 'ours' | 'theirs';
+
+export interface MergeConflict {
+  // Stable for the same base, ours and theirs; resolutions refer to it
+  id: number;
+  // Innermost element of the base enclosing the conflicting changes
+  element: {
+    selector: string | null;
+    elementId: string | null;
+    tagName: string;
+  } | null;
+  // 0-based line of the conflict in theirs
+  line: number;
+  base: string;
+  ours: string;
+  theirs: string;
+}
+
+export interface MergeResult {
+  // Unresolved conflicts keep theirs
+  content: string;
+  conflicts: MergeConflict[];
+}
+
 export interface ElementPatch {
   elementSelector: string;
   patchData: string;
@@ -0,0 +1,19 @@
+// What a collaborator is looking at, as broadcast in presence:state messages
+export interface PresenceFocus {
+  // ElementSelector selector of the element they selected in the preview
+  selectedElement: string | null;
+  // CodeEditor section they have open
+  openSection: string | null;
+}
+
+export interface PresenceMember extends PresenceFocus {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+}
+
+export interface ProjectPresence {
+  projectId: string;
+  members: PresenceMember[];
+}
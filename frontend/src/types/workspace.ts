@@ -0,0 +1,49 @@
+export type WorkspaceRole = 'OWNER' | 'EDITOR' | 'VIEWER';
+
+// A workspace the signed-in user belongs to, as returned by GET /api/workspaces
+export interface Workspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  memberCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceMember {
+  id: string;
+  workspaceId: string;
+  userId: string;
+  role: WorkspaceRole;
+  createdAt: string;
+  user: {
+    id: string;
+    email: string;
+    name: string;
+    avatarUrl: string | null;
+  };
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  workspaceId: string;
+  email: string;
+  role: WorkspaceRole;
+  invitedById: string | null;
+  createdAt: string;
+}
+
+// The response to creating an invite, the only one that carries its code
+export interface CreatedWorkspaceInvite extends WorkspaceInvite {
+  token: string;
+}
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  VIEWER: 0,
+  EDITOR: 1,
+  OWNER: 2
+};
+
+// Mirrors the backend check; projects opened without a known role are the user's own
+export const hasRole = (role: WorkspaceRole | null, required: WorkspaceRole) =>
+  role === null || ROLE_RANK[role] >= ROLE_RANK[required];